@@ -14,18 +14,71 @@ import {
   Sparkles,
   CheckCircle,
   X,
-  Zap
+  Zap,
+  Pause,
+  Play,
+  Square,
+  Database,
+  Columns3,
+  Layers,
+  TrendingUp,
+  UserCheck
 } from './components/Icons';
 import { ApiKeyModal } from './components/ApiKeyModal';
+import { CacheModal } from './components/CacheModal';
+import { ImportDialog } from './components/ImportDialog';
+import { WorkspaceList } from './components/WorkspaceList';
+import { RunHistory } from './components/RunHistory';
+import { GroupedStats } from './components/GroupedStats';
+import { FilterBuilder } from './components/FilterBuilder';
+import { EvaluationPanel } from './components/EvaluationPanel';
+import { SessionImportDialog } from './components/SessionImportDialog';
+import { ExportDialog } from './components/ExportDialog';
+import { ReportDialog } from './components/ReportDialog';
+import { SummaryPanel } from './components/SummaryPanel';
+import { ThemePanel } from './components/ThemePanel';
+import { KeywordPanel } from './components/KeywordPanel';
 import { ResultsTable } from './components/ResultsTable';
-import { SentimentDistributionChart, EmotionBarChart, ComparativeSentimentChart } from './components/Charts';
-import { analyzeSentimentBatch, GeminiError } from './services/geminiService';
-import { AnalysisResult, BatchProgress, InputMode, SentimentType, FilterType, ErrorDetails } from './types';
+import { SentimentDistributionChart, EmotionBarChart, ComparativeSentimentChart, AspectSentimentChart, LanguageSentimentChart, GroupSentimentChart, SentimentTrendChart } from './components/Charts';
+import { analyzeSentimentBatch, isProviderReady, refineThemeNames, resolveProvider, summarizeResults, DEFAULT_PROVIDER_SETTINGS, EngineOutput } from './services/analysisService';
+import { AnalysisError, DEFAULT_ANALYSIS_OPTIONS } from './services/analysisProvider';
+import { DEFAULT_RETRY_POLICY } from './services/retryPolicy';
+import { Chunk, DEFAULT_THROUGHPUT_LIMITS, Throttle, planChunks, runScheduled } from './services/batchScheduler';
+import { JobControl, createJobControl } from './services/jobControl';
+import { cacheScopeFor, lookupCached, normalizeCacheText, storeCached } from './services/analysisCache';
+import { groupResults, mergeMetadataFields } from './services/metadata';
+import { TREND_BUCKETS, TrendBucket, buildTrend } from './services/sentimentTrend';
+import { DEFAULT_FILTERS, applyFilters, deleteFilterPreset, filtersFromUrl, filtersToUrl, listFilterPresets, saveFilterPreset, withCondition, withoutCondition } from './services/resultFilters';
+import { applyThemeAssignments, applyThemeRefinement, buildThemeInputs, discoverThemes, renameThemes, themeStats } from './services/themeClustering';
+import { normalizeKeyword } from './services/keywordAnalytics';
+import { IngestProgress, ItemSource, arraySource, createFileSource, prependItems } from './services/itemSource';
+import { CsvIngestConfig } from './services/csvIngest';
+import { detectEncoding } from './services/csvParser';
+import {
+  WorkspaceSummary,
+  createWorkspace,
+  deleteWorkspace,
+  duplicateWorkspace,
+  getActiveWorkspaceId,
+  listWorkspaces,
+  loadWorkspace,
+  saveWorkspace,
+  setActiveWorkspaceId,
+} from './services/workspaceStore';
+import { OUTPUT_LANGUAGES, UNDETERMINED_LANGUAGE, languageName } from './services/languageDetection';
+import { EXPORT_FORMATS, ExportOptions, downloadText, exportColumns, renderExport, saveExportOptions } from './services/tableExport';
+import { ReportOptions, buildReportHtml, printReport, saveReportOptions } from './services/reportBuilder';
+import { ExportFormatError, ParsedExport, buildExport, mergeResults, parseExport } from './services/sessionExport';
+import { buildGoldLabels, carryReview, applyTaxonomyToResult, clearReview, loadReviewer, reviewResult, reviewStats, saveReviewer } from './services/review';
+import { TAXONOMY_OPTIONS, emotionLabelsOf, formatCustomTaxonomy, getPresetTaxonomy, parseCustomTaxonomy } from './services/emotionTaxonomy';
+import { AnalysisResult, BatchProgress, InputMode, SentimentType, ErrorDetails, ProviderSettings, RetryPolicy, ItemFailure, ThroughputLimits, BatchJob, AnalysisOptions, EmotionTaxonomy, TaxonomyId, RunRecord, Workspace, BatchItem, MetadataField, ResultFilters, FilterPreset, ReviewLabels, ExecutiveSummary, ThemeSet } from './types';
 import { v4 as uuidv4 } from 'uuid';
 
 // --- Helper Functions ---
 const generateId = () => Math.random().toString(36).substring(2, 9);
 
+const RESULT_FLUSH_MS = 250; // How long new results are buffered before they reach the dashboard
+
 const SAMPLE_TEXTS = [
   "I absolutely loved the service! 🤩 The staff was incredibly helpful and the atmosphere was perfect.",
   "Honestly, I waited 45 minutes for a cold burger. 🍔❄️ Not coming back.",
@@ -62,7 +115,13 @@ const StatCard = ({ title, value, subtitle, icon: Icon, colorClass }: any) => (
 
 export default function App() {
   // State
-  const [apiKey, setApiKey] = useState<string>(process.env.API_KEY || '');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>({
+    ...DEFAULT_PROVIDER_SETTINGS,
+    apiKey: process.env.API_KEY || '',
+  });
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  const [throughputLimits, setThroughputLimits] = useState<ThroughputLimits>(DEFAULT_THROUGHPUT_LIMITS);
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>(DEFAULT_ANALYSIS_OPTIONS);
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
   const [inputMode, setInputMode] = useState<InputMode>('single');
   const [textInput, setTextInput] = useState('');
@@ -73,21 +132,76 @@ export default function App() {
   const [errorDetails, setErrorDetails] = useState<ErrorDetails | null>(null);
   
   const [batchProgress, setBatchProgress] = useState<BatchProgress>({ total: 0, processed: 0, errors: 0, isProcessing: false });
-  const [filter, setFilter] = useState<FilterType>('ALL');
+  const [failures, setFailures] = useState<ItemFailure[]>([]); // Items that failed in the last run
+  const [job, setJob] = useState<BatchJob | null>(null); // Current or most recent run
+  const [now, setNow] = useState(Date.now()); // Ticks while a chunk is backing off
+  // Read before the first URL sync below rewrites the address bar
+  const [linkedFilters] = useState<ResultFilters | null>(() => filtersFromUrl());
+  const [filters, setFilters] = useState<ResultFilters>(() => linkedFilters || DEFAULT_FILTERS);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>(listFilterPresets);
+  const [forceReanalyze, setForceReanalyze] = useState(false); // Skip cache lookups (results are still cached)
+  const [isCacheModalOpen, setIsCacheModalOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null); // CSV waiting in the import dialog
+  const [sessionImport, setSessionImport] = useState<{ fileName: string; parsed: ParsedExport } | null>(null); // JSON export waiting for merge/replace
+  const [ingest, setIngest] = useState<IngestProgress | null>(null); // Reading progress of the last streamed file
+  const [metadataFields, setMetadataFields] = useState<MetadataField[]>([]); // Imported column schema
+  const [visibleMetadata, setVisibleMetadata] = useState<string[]>([]); // Metadata keys shown in the table
+  const [groupBy, setGroupBy] = useState<string | null>(null); // Metadata key stats and charts are grouped by
+  const [executiveSummary, setExecutiveSummary] = useState<ExecutiveSummary | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [themeSet, setThemeSet] = useState<ThemeSet | null>(null); // Last theme discovery; members carry the name
+  const [isRefiningThemes, setIsRefiningThemes] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<{ id: string; at: number } | null>(null); // Result to scroll the table to
+  const [trendBucket, setTrendBucket] = useState<TrendBucket>('day');
+  const [trendDateKey, setTrendDateKey] = useState<string>(''); // A date metadata key, '' for analysis time
+  const [trendWindow, setTrendWindow] = useState(3);
+  const [reviewer, setReviewer] = useState(loadReviewer); // Name recorded on human labels
+  const [customTaxonomyText, setCustomTaxonomyText] = useState(formatCustomTaxonomy(DEFAULT_ANALYSIS_OPTIONS.taxonomy));
   const [toast, setToast] = useState<{ msg: string, type: 'success' | 'error' } | null>(null);
+  const [runs, setRuns] = useState<RunRecord[]>([]); // Run history of the active workspace
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeWorkspace, setActiveWorkspace] = useState<Pick<Workspace, 'id' | 'name' | 'createdAt'> | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const jobControlRef = useRef<JobControl | null>(null);
+  const remainingSourceRef = useRef<ItemSource | null>(null); // Unread input of a cancelled run, continued by Resume
+  const skipNextSaveRef = useRef(false); // Set when state was just loaded, so it isn't written straight back
+  const summaryRequestRef = useRef<AbortController | null>(null); // Aborted when another workspace is loaded
+  const themeRequestRef = useRef<AbortController | null>(null);   // Likewise for theme naming
+
+  const activeProvider = resolveProvider(providerSettings);
+  const providerReady = isProviderReady(providerSettings);
 
   // Derived State
-  const filteredResults = filter === 'ALL' 
-    ? results 
-    : results.filter(r => r.sentiment === filter);
+  const filteredResults = applyFilters(results, filters, metadataFields);
+  // Stat cards and charts show everything unless they are set to follow the filter
+  const statResults = filters.applyToStats ? filteredResults : results;
+
+  const languages = Array.from(new Set<string>(results.map(r => r.language || UNDETERMINED_LANGUAGE))).sort();
+
+  const hasAspects = statResults.some(r => r.aspects && r.aspects.length > 0);
 
-  const totalAnalyzed = results.length;
-  const sarcasticCount = results.filter(r => r.isSarcastic).length;
+  const shownMetadata = metadataFields.filter(f => visibleMetadata.includes(f.key));
+  const groupField = metadataFields.find(f => f.key === groupBy);
+  const groups = groupField ? groupResults(statResults, groupField) : [];
+
+  const dateFields = metadataFields.filter(f => f.type === 'date');
+  const trendDateField = dateFields.find(f => f.key === trendDateKey) || null;
+  const trend = buildTrend(statResults, { bucket: trendBucket, dateField: trendDateField, window: trendWindow });
+
+  const totalAnalyzed = statResults.length;
+  const sarcasticCount = statResults.filter(r => r.isSarcastic).length;
   const averageConfidence = totalAnalyzed > 0 
-    ? (results.reduce((acc, curr) => acc + curr.confidence, 0) / totalAnalyzed * 100).toFixed(0)
+    ? (statResults.reduce((acc, curr) => acc + curr.confidence, 0) / totalAnalyzed * 100).toFixed(0)
     : '0';
+  const review = reviewStats(statResults);
+
+  const themes = themeSet ? themeStats(statResults, themeSet) : [];
+  const activeTheme = filters.advanced.conditions.find(c => c.field === 'theme' && c.operator === 'is')?.value || null;
+  const keywordCondition = filters.advanced.conditions.find(c => c.field === 'keyword' && c.operator === 'is');
+  const activeKeyword = keywordCondition ? normalizeKeyword(keywordCondition.value) || null : null;
 
   // Toast Timer
   useEffect(() => {
@@ -97,68 +211,423 @@ export default function App() {
     }
   }, [toast]);
 
+  // Retry countdown ticker
+  useEffect(() => {
+    if (!batchProgress.retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [batchProgress.retryAt]);
+
   const showToast = (msg: string, type: 'success' | 'error' = 'success') => {
     setToast({ msg, type });
   };
 
-  // Logic: Process Data
-  const processBatch = useCallback(async (texts: string[]) => {
-    if (!apiKey) {
-      setIsApiKeyModalOpen(true);
+  // Logic: Workspaces
+  const snapshotWorkspace = (): Workspace | null => activeWorkspace && ({
+    ...activeWorkspace,
+    updatedAt: Date.now(),
+    results,
+    failures,
+    runs,
+    analysisOptions,
+    filters,
+    metadataFields,
+    visibleMetadata,
+    groupBy,
+    summary: executiveSummary,
+    themes: themeSet,
+  });
+
+  const storeWorkspace = async (workspace: Workspace) => {
+    const summary = await saveWorkspace(workspace);
+    setWorkspaces(prev => [summary, ...prev.filter(w => w.id !== summary.id)]);
+  };
+
+  const applyWorkspace = (workspace: Workspace) => {
+    skipNextSaveRef.current = true;
+    setActiveWorkspace({ id: workspace.id, name: workspace.name, createdAt: workspace.createdAt });
+    setResults(workspace.results);
+    setFailures(workspace.failures);
+    setRuns(workspace.runs);
+    setAnalysisOptions(workspace.analysisOptions);
+    if (workspace.analysisOptions.taxonomy.id === 'custom') {
+      setCustomTaxonomyText(formatCustomTaxonomy(workspace.analysisOptions.taxonomy));
+    }
+    setFilters(workspace.filters);
+    setMetadataFields(workspace.metadataFields);
+    setVisibleMetadata(workspace.visibleMetadata);
+    setGroupBy(workspace.groupBy);
+    setExecutiveSummary(workspace.summary);
+    setThemeSet(workspace.themes);
+    setJob(null);
+    setIngest(null);
+    remainingSourceRef.current?.close();
+    remainingSourceRef.current = null;
+    setErrorDetails(null);
+    summaryRequestRef.current?.abort();
+    themeRequestRef.current?.abort();
+    setActiveWorkspaceId(workspace.id);
+  };
+
+  // Saves the current workspace first so pending edits aren't lost by switching
+  const switchToWorkspace = async (next: Workspace | null) => {
+    if (!next) return;
+    const current = snapshotWorkspace();
+    if (current) await storeWorkspace(current);
+    applyWorkspace(next);
+  };
+
+  // IndexedDB can fail (quota, private mode); workspace actions report it instead of throwing
+  const workspaceAction = <A extends unknown[]>(action: (...args: A) => Promise<void>) => (...args: A) => {
+    action(...args).catch(err => {
+      console.error("Workspace action failed", err);
+      showToast("Workspace storage failed.", "error");
+    });
+  };
+
+  const handleSelectWorkspace = async (id: string) => {
+    await switchToWorkspace(await loadWorkspace(id));
+  };
+
+  const handleCreateWorkspace = async () => {
+    const workspace = createWorkspace(`Workspace ${workspaces.length + 1}`);
+    await storeWorkspace(workspace);
+    await switchToWorkspace(workspace);
+  };
+
+  const handleRenameWorkspace = async (id: string, name: string) => {
+    if (id === activeWorkspace?.id) {
+      setActiveWorkspace(prev => prev && ({ ...prev, name })); // Autosave writes it
+      setWorkspaces(prev => prev.map(w => w.id === id ? { ...w, name } : w));
       return;
     }
+    const workspace = await loadWorkspace(id);
+    if (workspace) await storeWorkspace({ ...workspace, name });
+  };
+
+  const handleDuplicateWorkspace = async (id: string) => {
+    const source = id === activeWorkspace?.id ? snapshotWorkspace() : await loadWorkspace(id);
+    if (!source) return;
+    const copy = duplicateWorkspace(source, `${source.name} (copy)`);
+    await storeWorkspace(copy);
+    await switchToWorkspace(copy);
+    showToast(`Duplicated "${source.name}"`, "success");
+  };
+
+  const handleDeleteWorkspace = async (id: string) => {
+    const target = workspaces.find(w => w.id === id);
+    if (!target || !window.confirm(`Delete workspace "${target.name}" and its ${target.resultCount} results?`)) return;
+
+    await deleteWorkspace(id);
+    const remaining = workspaces.filter(w => w.id !== id);
+    setWorkspaces(remaining);
+    if (id !== activeWorkspace?.id) return;
+
+    // The active workspace is gone: open the most recent other one, or start fresh
+    const next = remaining.length > 0 ? await loadWorkspace(remaining[0].id) : createWorkspace('My Workspace');
+    if (!next) return;
+    if (remaining.length === 0) await storeWorkspace(next);
+    applyWorkspace(next);
+  };
+
+  // Open the last used workspace (or create the first one) on startup
+  useEffect(() => {
+    (async () => {
+      try {
+        const list = await listWorkspaces();
+        const lastId = getActiveWorkspaceId();
+        const id = list.some(w => w.id === lastId) ? lastId : list[0]?.id;
+        const workspace = (id && await loadWorkspace(id)) || createWorkspace('My Workspace');
+        if (list.length === 0) await saveWorkspace(workspace);
+        setWorkspaces(list.length > 0 ? list : [{ id: workspace.id, name: workspace.name, updatedAt: workspace.updatedAt, resultCount: 0 }]);
+        applyWorkspace(workspace);
+        // A bookmarked link's filters win over the ones saved with the workspace
+        if (linkedFilters) setFilters(linkedFilters);
+      } catch (err) {
+        console.warn("Workspaces unavailable", err);
+        showToast("Local storage is unavailable. Results will not be saved.", "error");
+      }
+    })();
+  }, []);
+
+  // Keep the address bar in sync so the filtered view can be bookmarked
+  useEffect(() => {
+    window.history.replaceState(null, '', filtersToUrl(filters));
+  }, [filters]);
+
+  // Autosave the active workspace shortly after anything in it changes
+  useEffect(() => {
+    if (!activeWorkspace) return;
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    const timer = setTimeout(() => {
+      const workspace = snapshotWorkspace();
+      if (workspace) storeWorkspace(workspace).catch(err => console.warn("Workspace autosave failed", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [activeWorkspace, results, failures, runs, analysisOptions, filters, metadataFields, visibleMetadata, groupBy, executiveSummary, themeSet]);
+
+  // Logic: Process Data
+  const processBatch = useCallback(async (input: BatchItem[] | ItemSource) => {
+    // Arrays are fed through the same pull-based path as streamed files
+    const source = Array.isArray(input) ? arraySource(input) : input;
+    if (Array.isArray(input)) setIngest(null); // Only streamed files have a reading stage
+    remainingSourceRef.current?.close();
+    remainingSourceRef.current = null;
+    const engine = resolveProvider(providerSettings);
+    if (!isProviderReady(providerSettings)) {
+      showToast("No API key configured. Using the offline lexicon engine.", "error");
+    }
+
+    const control = createJobControl();
+    jobControlRef.current = control;
 
     setIsProcessing(true);
     setErrorDetails(null);
-    setBatchProgress({ total: texts.length, processed: 0, errors: 0, isProcessing: true });
+    setBatchProgress({ total: 0, processed: 0, errors: 0, isProcessing: true, cacheHits: 0 });
+    setFailures([]);
+    const jobId = generateId();
+    const startedAt = Date.now();
+    setJob({ id: jobId, status: 'running', total: 0, pendingItems: [], failedCount: 0, startedAt });
 
-    const CHUNK_SIZE = 8; // Small batch size for better reliability
-    let authErrorOccurred = false;
-    let criticalError = null;
-    
-    try {
-      for (let i = 0; i < texts.length; i += CHUNK_SIZE) {
-        if (authErrorOccurred) break;
+    // Input rows by position; a row is dropped once it has a result, so only open rows stay in memory
+    const items = new Map<number, BatchItem>();
+    let total = 0;
+    let cacheHits = 0;
+    let sourceDone = false;
+    let readError: Error | null = null;
 
-        const chunk = texts.slice(i, i + CHUNK_SIZE);
-        
-        try {
-          const chunkResults = await analyzeSentimentBatch(chunk, apiKey);
-          
-          const newResults: AnalysisResult[] = chunkResults.map((r, idx) => ({
-            ...r,
-            id: generateId(),
-            text: chunk[idx],
-            timestamp: Date.now()
-          }));
+    // Rows of this run replace rows of earlier runs with the same text (and metadata) instead of duplicating them.
+    // New results are buffered briefly so a fast stream doesn't re-render the dashboard per chunk.
+    const rowKey = (r: BatchItem) => `${normalizeCacheText(r.text)}|${JSON.stringify(r.metadata || null)}`;
+    const runResultIds = new Set<string>();
+    let buffered: AnalysisResult[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    const flushResults = () => {
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = null;
+      const newResults = buffered;
+      buffered = [];
+      if (newResults.length === 0) return;
+      const replaced = new Set(newResults.map(rowKey));
+      setResults(prev => {
+        // A re-analyzed row keeps its human label; only the prediction underneath is refreshed
+        const reviewed = new Map<string, AnalysisResult>(
+          prev.filter(r => r.review && !runResultIds.has(r.id) && replaced.has(rowKey(r))).map(r => [rowKey(r), r])
+        );
+        const incoming = reviewed.size > 0 ? newResults.map(r => carryReview(r, reviewed.get(rowKey(r)))) : newResults;
+        return [...incoming, ...prev.filter(r => runResultIds.has(r.id) || !replaced.has(rowKey(r)))];
+      });
+      newResults.forEach(r => runResultIds.add(r.id));
+    };
+    const addResults = (newResults: AnalysisResult[]) => {
+      buffered.push(...newResults);
+      if (!flushTimer) flushTimer = setTimeout(flushResults, RESULT_FLUSH_MS);
+    };
+    const toResult = (output: EngineOutput, idx: number): AnalysisResult => {
+      const item = items.get(idx)!;
+      items.delete(idx);
+      return { ...output, id: generateId(), text: item.text, metadata: item.metadata, timestamp: Date.now() };
+    };
 
-          setResults(prev => [...newResults, ...prev]); 
+    // Previously analyzed texts come straight from the cache; only misses are scheduled
+    const cacheScope = cacheScopeFor(providerSettings, analysisOptions);
+    const missIndexes: number[] = []; // Chunk offsets point into this list of input positions
+    let chunkCount = 0;
+    const pullChunks = async (): Promise<Chunk[]> => {
+      try {
+        for (;;) {
+          const batch = await source.next();
+          if (!batch) {
+            sourceDone = true;
+            return [];
+          }
+          const base = total;
+          batch.forEach((item, idx) => items.set(base + idx, item));
+          total += batch.length;
+          setJob(prev => prev && ({ ...prev, total }));
+
+          const texts = batch.map(item => item.text);
+          const cached = forceReanalyze ? texts.map(() => undefined) : await lookupCached(texts, cacheScope);
+          const hits: AnalysisResult[] = [];
+          const missTexts: string[] = [];
+          const missBase = missIndexes.length;
+          cached.forEach((output, idx) => {
+            if (output) {
+              hits.push(toResult(output, base + idx));
+            } else {
+              missIndexes.push(base + idx);
+              missTexts.push(texts[idx]);
+            }
+          });
+          cacheHits += hits.length;
+          addResults(hits);
           setBatchProgress(prev => ({
             ...prev,
-            processed: Math.min(prev.processed + chunk.length, prev.total)
+            total: prev.total + batch.length,
+            processed: prev.processed + hits.length,
+            cacheHits: (prev.cacheHits || 0) + hits.length,
           }));
 
-        } catch (err: any) {
-          console.error("Batch chunk failed", err);
-          
-          // Handle Critical Auth Errors
-          if (err instanceof GeminiError && err.code === 'AUTH_ERROR') {
+          const chunks = planChunks(missTexts).map(c => ({ ...c, index: c.index + chunkCount, start: c.start + missBase }));
+          chunkCount += chunks.length;
+          if (chunks.length > 0) return chunks;
+        }
+      } catch (err) {
+        // Rows already queued still finish; the rest of the input is reported as unreadable
+        readError = err instanceof Error ? err : new Error("The input could not be read.");
+        return [];
+      }
+    };
+
+    const pending = new Set<number>(); // Input rows cancelled before finishing
+    const inputIndexes = (chunk: Chunk) => chunk.texts.map((_, idx) => missIndexes[chunk.start + idx]);
+    const markPending = (chunk: Chunk) => inputIndexes(chunk).forEach(idx => pending.add(idx));
+    let authErrorOccurred = false;
+    let criticalError = null;
+    const failed: ItemFailure[] = [];
+    const markFailed = (indexes: number[], reason: string) => {
+      failed.push(...indexes.map(idx => {
+        const item = items.get(idx)!;
+        items.delete(idx);
+        return { id: generateId(), text: item.text, metadata: item.metadata, reason, timestamp: Date.now() };
+      }));
+    };
+
+    // Each chunk only touches state through functional updates, so progress stays
+    // correct with several chunks in flight.
+    const runChunk = async (chunk: Chunk, throttle: Throttle) => {
+      try {
+        const outcomes = await analyzeSentimentBatch(chunk.texts, providerSettings, {
+          analysis: analysisOptions,
+          retry: retryPolicy,
+          signal: control.signal,
+          throttle,
+          onRetry: ({ attempt, maxAttempts, delayMs }) => setBatchProgress(prev => ({
+            ...prev,
+            retryAt: Math.max(prev.retryAt || 0, Date.now() + delayMs),
+            retryAttempt: attempt + 1,
+            retryMaxAttempts: maxAttempts,
+          })),
+        });
+
+        // Outcomes are index-aligned with the chunk; unmatched items come back as failures
+        const newResults: AnalysisResult[] = [];
+        outcomes.forEach((outcome, idx) => {
+          if (outcome.status === 'ok') {
+            newResults.push(toResult(outcome.output, missIndexes[chunk.start + idx]));
+          } else {
+            markFailed([missIndexes[chunk.start + idx]], outcome.reason);
+          }
+        });
+        const chunkFailures = chunk.texts.length - newResults.length;
+
+        if (newResults.some(r => r.engine !== engine.id)) {
+          showToast(`Batch ${chunk.index + 1} used the offline fallback engine.`, "error");
+        }
+
+        addResults(newResults);
+        void storeCached(newResults.map(({ id, text, timestamp, metadata, ...output }) => ({ text, output })), cacheScope);
+        setBatchProgress(prev => ({
+          ...prev,
+          processed: Math.min(prev.processed + chunk.texts.length, prev.total),
+          errors: prev.errors + chunkFailures,
+          retryAt: prev.retryAt && prev.retryAt > Date.now() ? prev.retryAt : undefined,
+        }));
+
+      } catch (err: any) {
+        // Cancelled mid-flight: the chunk stays pending instead of failing
+        if (err instanceof AnalysisError && err.code === 'CANCELLED') {
+          markPending(chunk);
+          return;
+        }
+
+        console.error("Batch chunk failed", err);
+
+        // Handle Critical Auth Errors: stop dispatching, in-flight chunks still settle
+        if (err instanceof AnalysisError && err.code === 'AUTH_ERROR') {
+           if (!authErrorOccurred) {
              authErrorOccurred = true;
-             setApiKey(''); // Clear invalid key
+             setProviderSettings(prev => ({ ...prev, apiKey: '' })); // Clear invalid key
              setIsApiKeyModalOpen(true);
              criticalError = err;
-             break; // Stop processing
-          }
+           }
+           markFailed(inputIndexes(chunk), "Not analyzed: authentication failed.");
+           return;
+        }
 
-          setBatchProgress(prev => ({ ...prev, errors: prev.errors + chunk.length }));
-          if (!authErrorOccurred) {
-             showToast(`Batch ${Math.floor(i/CHUNK_SIZE) + 1} failed.`, "error");
-          }
+        markFailed(inputIndexes(chunk), err instanceof Error ? err.message : "Batch request failed.");
+        setBatchProgress(prev => ({
+          ...prev,
+          processed: Math.min(prev.processed + chunk.texts.length, prev.total),
+          errors: prev.errors + chunk.texts.length,
+          retryAt: prev.retryAt && prev.retryAt > Date.now() ? prev.retryAt : undefined,
+        }));
+        if (!authErrorOccurred) {
+           showToast(`Batch ${chunk.index + 1} failed. Its texts can be retried.`, "error");
         }
       }
-      
+    };
+
+    try {
+      const notStarted = await runScheduled([], throughputLimits, runChunk, {
+        shouldStop: () => authErrorOccurred,
+        waitWhilePaused: control.waitWhilePaused,
+        signal: control.signal,
+        refill: pullChunks,
+      });
+      flushResults();
+      if (control.isCancelled()) {
+        notStarted.forEach(markPending);
+      } else {
+        notStarted.forEach(chunk => markFailed(inputIndexes(chunk), "Not analyzed: authentication failed."));
+      }
+
+      // A cancelled stream keeps its unread rows for Resume; otherwise the source is done with
+      const moreInput = control.isCancelled() && !sourceDone && !readError;
+      if (moreInput) remainingSourceRef.current = source;
+      else source.close();
+
+      // Record the final state of the run
+      const pendingItems = Array.from(pending).sort((a, b) => a - b).map(idx => items.get(idx)!);
+      const status = pendingItems.length > 0 || moreInput ? 'cancelled' : failed.length > 0 || readError ? 'partially_failed' : 'completed';
+      const finishedAt = Date.now();
+      setJob(prev => prev && ({
+        ...prev,
+        status,
+        total,
+        pendingItems,
+        moreInput,
+        failedCount: failed.length,
+        finishedAt,
+      }));
+      setRuns(prev => [{
+        id: jobId,
+        status,
+        startedAt,
+        finishedAt,
+        total,
+        succeeded: total - failed.length - pendingItems.length,
+        failed: failed.length,
+        pending: pendingItems.length,
+        cacheHits,
+        provider: cacheScope.provider,
+        model: cacheScope.model,
+        promptVersion: cacheScope.promptVersion,
+        aspectMode: analysisOptions.aspectMode,
+        taxonomy: analysisOptions.taxonomy.name,
+        outputLanguage: analysisOptions.outputLanguage,
+      }, ...prev]);
+
+      setFailures(failed);
+
       // Post-loop error handling
-      if (criticalError) {
+      if (control.isCancelled()) {
+         showToast(`Analysis cancelled. ${pendingItems.length} row(s) pending${moreInput ? ' and the rest of the file unread' : ''}.`, "error");
+      } else if (criticalError) {
          setErrorDetails({
              title: "Authentication Failed",
              message: criticalError.message,
@@ -169,9 +638,18 @@ export default function App() {
          showToast("Authentication Failed", "error");
       } else if (authErrorOccurred) {
          setErrorDetails({ title: "Auth Error", message: "Invalid API Key", solution: "Check settings." });
+      } else if (readError) {
+         setErrorDetails({
+             title: "Import Stopped",
+             message: readError.message,
+             solution: "Rows read before the problem were analyzed. Check the file and import it again.",
+             code: "READ_ERROR"
+         });
       } else {
-        const successCount = texts.length - batchProgress.errors;
-        if (successCount === 0 && texts.length > 0) {
+        const successCount = total - failed.length - pendingItems.length;
+        if (total === 0) {
+            showToast("No rows to analyze.", "error");
+        } else if (successCount === 0) {
             setErrorDetails({
                 title: "Processing Failed",
                 message: "All items failed to process.",
@@ -179,15 +657,15 @@ export default function App() {
                 code: "ALL_FAILED"
             });
         } else if (successCount > 0) {
-            showToast("Analysis Cycle Complete!", "success");
+            showToast(cacheHits > 0 ? `Analysis Cycle Complete! ${cacheHits} from cache.` : "Analysis Cycle Complete!", "success");
         }
       }
 
     } catch (err: any) {
       const message = err instanceof Error ? err.message : "An unexpected error occurred";
-      const code = err instanceof GeminiError ? err.code : "UNKNOWN";
-      const solution = err instanceof GeminiError ? err.solution : "Please try again later.";
-      const status = err instanceof GeminiError ? err.status : undefined;
+      const code = err instanceof AnalysisError ? err.code : "UNKNOWN";
+      const solution = err instanceof AnalysisError ? err.solution : "Please try again later.";
+      const status = err instanceof AnalysisError ? err.status : undefined;
       
       setErrorDetails({
           title: "System Error",
@@ -198,126 +676,370 @@ export default function App() {
       });
       showToast("System Error", "error");
     } finally {
+      flushResults();
+      jobControlRef.current = null;
       setIsProcessing(false);
-      setBatchProgress(prev => ({ ...prev, isProcessing: false }));
+      setBatchProgress(prev => ({ ...prev, isProcessing: false, retryAt: undefined }));
     }
-  }, [apiKey, batchProgress.errors]);
+  }, [providerSettings, retryPolicy, throughputLimits, analysisOptions, forceReanalyze]);
+
+  // Logic: Job controls
+  const handlePause = () => {
+    jobControlRef.current?.pause();
+    setJob(prev => prev && ({ ...prev, status: 'paused' }));
+  };
+
+  const handleResume = () => {
+    jobControlRef.current?.resume();
+    setJob(prev => prev && ({ ...prev, status: 'running' }));
+  };
+
+  const handleCancel = () => {
+    jobControlRef.current?.cancel();
+  };
+
+  const handleResumePending = () => {
+    if (!job || (job.pendingItems.length === 0 && !job.moreInput)) return;
+    const remaining = remainingSourceRef.current;
+    remainingSourceRef.current = null;
+    processBatch(remaining ? prependItems(job.pendingItems, remaining) : job.pendingItems);
+  };
+
+  const handleRetryFailed = () => {
+    if (failures.length === 0) return;
+    processBatch(failures.map(f => ({ text: f.text, metadata: f.metadata })));
+  };
+
+  // Switching taxonomy re-labels existing results too, so charts and filters never mix label sets
+  const applyEmotionTaxonomy = (taxonomy: EmotionTaxonomy) => {
+    if (taxonomy.labels.length === 0) return;
+    setAnalysisOptions(prev => ({ ...prev, taxonomy }));
+    setResults(prev => prev.map(r => applyTaxonomyToResult(r, taxonomy)));
+    setFilters(prev => emotionLabelsOf(taxonomy).some(l => l.label === prev.emotion) ? prev : { ...prev, emotion: 'ALL' });
+  };
+
+  const handleTaxonomySelect = (id: TaxonomyId) => {
+    applyEmotionTaxonomy(id === 'custom' ? parseCustomTaxonomy(customTaxonomyText) : getPresetTaxonomy(id));
+  };
 
   const handleSingleAnalyze = () => {
     if (!textInput.trim()) return;
-    processBatch([textInput.trim()]);
+    processBatch([{ text: textInput.trim() }]);
     setTextInput('');
   };
 
   const handleLoadSample = () => {
-    processBatch(SAMPLE_TEXTS);
+    processBatch(SAMPLE_TEXTS.map(text => ({ text })));
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
     if (!file) return;
 
-    if (file.size > 2 * 1024 * 1024) {
-       showToast("File is too large. Max size is 2MB.", "error");
-       if (fileInputRef.current) fileInputRef.current.value = '';
-       return;
+    if (/\.(csv|tsv)$/i.test(file.name)) {
+      setImportFile(file); // The import dialog takes it from here
+    } else if (/\.txt$/i.test(file.name)) {
+      // Plain text streams one line per text; the encoding is sniffed from the start of the file
+      file.slice(0, 64 * 1024).arrayBuffer()
+        .then(head => handleImport(file, {
+          format: 'lines',
+          encoding: detectEncoding(new Uint8Array(head), true),
+          delimiter: ',',
+          hasHeader: false,
+          textColumn: 0,
+          width: 1,
+          columns: [],
+        }))
+        .catch(() => showToast("Error reading file.", "error"));
+    } else if (/\.json$/i.test(file.name)) {
+      // A JSON export restores results rather than analyzing anything
+      file.text()
+        .then(source => setSessionImport({ fileName: file.name, parsed: parseExport(source) }))
+        .catch(err => {
+          if (err instanceof ExportFormatError) {
+            setErrorDetails({ title: "Import Failed", message: err.message, solution: err.solution, code: "INVALID_EXPORT" });
+          } else {
+            showToast("Error reading file.", "error");
+          }
+        });
+    } else {
+      showToast("Invalid file type. Please upload .csv, .tsv, .txt or .json", "error");
     }
+  };
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const content = event.target?.result as string;
-      let texts: string[] = [];
-      
-      try {
-        if (file.name.endsWith('.csv')) {
-            texts = content.split(/\r?\n/).filter(line => line.trim().length > 0);
-            if (texts.length > 0 && (texts[0].toLowerCase().startsWith('text') || texts[0].toLowerCase().includes('content'))) {
-               texts.shift(); 
-            }
-        } else if (file.name.endsWith('.txt')) {
-            texts = content.split(/\r?\n/).filter(line => line.trim().length > 0);
-        } else {
-            showToast("Invalid file type. Please upload .csv or .txt", "error");
-            return;
-        }
+  const handleImport = (file: File, config: CsvIngestConfig, fields: MetadataField[] = []) => {
+    setImportFile(null);
+    if (file.size === 0) {
+      showToast("File appears to be empty.", "error");
+      return;
+    }
 
-        if (texts.length > 100) {
-            showToast(`Too many rows (${texts.length}). Limit is 100 for this demo.`, "error");
-            texts = texts.slice(0, 100);
-        }
+    if (fields.length > 0) {
+      setMetadataFields(prev => mergeMetadataFields(prev, fields));
+      // New columns start visible, up to a few so the table stays readable
+      setVisibleMetadata(prev => prev.length > 0 ? prev : fields.slice(0, 3).map(f => f.key));
+    }
 
-        if (texts.length > 0) {
-            processBatch(texts);
-        } else {
-            showToast("File appears to be empty.", "error");
-        }
-      } catch (parseError) {
-         showToast("Failed to parse file content.", "error");
+    // Rows are read (off the main thread where possible) only as fast as they are analyzed
+    processBatch(createFileSource(file, config, setIngest));
+  };
+
+  const applySessionImport = (mode: 'merge' | 'replace') => {
+    if (!sessionImport) return;
+    const { envelope, invalid } = sessionImport.parsed;
+    setSessionImport(null);
+    if (mode === 'replace') {
+      setResults(envelope.results);
+      setFailures([]);
+      setRuns(envelope.runs);
+      setAnalysisOptions(envelope.settings);
+      if (envelope.settings.taxonomy.id === 'custom') {
+        setCustomTaxonomyText(formatCustomTaxonomy(envelope.settings.taxonomy));
       }
-    };
-    reader.onerror = () => showToast("Error reading file.", "error");
-    reader.readAsText(file);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+      setMetadataFields(envelope.metadataFields);
+      setVisibleMetadata(envelope.metadataFields.slice(0, 3).map(f => f.key));
+      setGroupBy(null);
+      setExecutiveSummary(envelope.summary);
+      setThemeSet(envelope.themes);
+    } else {
+      // Merged results take on the current taxonomy, so charts never mix label sets,
+      // and only keep a theme the workspace knows
+      const known = new Set<string>(themeSet ? themeSet.themes.map(t => t.name) : []);
+      const imported = envelope.results.map(r => {
+        const { theme, ...rest } = applyTaxonomyToResult(r, analysisOptions.taxonomy);
+        return theme && known.has(theme) ? { ...rest, theme } : rest;
+      });
+      setResults(prev => mergeResults(prev, imported));
+      setRuns(prev => [...prev, ...envelope.runs.filter(run => !prev.some(p => p.id === run.id))].sort((a, b) => b.startedAt - a.startedAt));
+      setMetadataFields(prev => mergeMetadataFields(prev, envelope.metadataFields));
+    }
+    const skipped = invalid.length > 0 ? ` (${invalid.length} invalid skipped)` : '';
+    showToast(`${mode === 'merge' ? 'Merged' : 'Loaded'} ${envelope.results.length} results${skipped}`, invalid.length > 0 ? "error" : "success");
   };
 
-  const handleCopy = (text: string) => {
+  const handleCopy = useCallback((text: string) => {
     navigator.clipboard.writeText(text);
     showToast("Text copied to clipboard", "success");
+  }, []);
+
+  const handleDeleteResult = useCallback((id: string) => {
+    setResults(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  const handleDismissFailure = useCallback((id: string) => {
+    setFailures(prev => prev.filter(f => f.id !== id));
+  }, []);
+
+  const handleReviewerChange = (name: string) => {
+    setReviewer(name);
+    saveReviewer(name);
+  };
+
+  const handleReview = useCallback((id: string, labels?: ReviewLabels) => {
+    setResults(prev => prev.map(r => r.id === id ? reviewResult(r, reviewer, analysisOptions.taxonomy, labels) : r));
+  }, [reviewer, analysisOptions.taxonomy]);
+
+  const handleClearReview = useCallback((id: string) => {
+    setResults(prev => prev.map(r => r.id === id ? clearReview(r) : r));
+  }, []);
+
+  // Logic: Summary
+  const handleSummarize = async () => {
+    const request = new AbortController();
+    summaryRequestRef.current = request;
+    setIsSummarizing(true);
+    try {
+      const summary = await summarizeResults(statResults, providerSettings, { analysis: analysisOptions, retry: retryPolicy, signal: request.signal });
+      if (request.signal.aborted) return; // The summary belongs to a workspace that is no longer open
+      setExecutiveSummary(summary);
+      showToast(summary.engine === activeProvider.id ? "Summary ready" : "Summary written offline (provider unavailable)", "success");
+    } catch (err: any) {
+      if (request.signal.aborted) return;
+      setErrorDetails({
+        title: "Summary Failed",
+        message: err instanceof Error ? err.message : "An unexpected error occurred",
+        code: err instanceof AnalysisError ? err.code : "UNKNOWN",
+        solution: err instanceof AnalysisError ? err.solution : "Please try again later.",
+        status: err instanceof AnalysisError ? err.status : undefined,
+      });
+      showToast("Summary Failed", "error");
+    } finally {
+      if (summaryRequestRef.current === request) summaryRequestRef.current = null;
+      setIsSummarizing(false);
+    }
+  };
+
+  // Logic: Themes
+  // Clusters every result, not just the filtered ones, so themes don't depend on the current view
+  const handleDiscoverThemes = () => {
+    const discovered = discoverThemes(results);
+    setResults(prev => applyThemeAssignments(prev, discovered.assignments));
+    setThemeSet(discovered.themeSet);
+    setFilters(prev => withoutCondition(prev, 'theme'));
+    showToast(discovered.themeSet.themes.length > 0 ? `Found ${discovered.themeSet.themes.length} themes` : "No recurring themes found", "success");
+  };
+
+  const handleRefineThemes = async () => {
+    if (!themeSet) return;
+    const request = new AbortController();
+    themeRequestRef.current = request;
+    setIsRefiningThemes(true);
+    try {
+      const { refinements, engine, model } = await refineThemeNames(buildThemeInputs(themeSet, results), providerSettings, { analysis: analysisOptions, retry: retryPolicy, signal: request.signal });
+      if (request.signal.aborted) return; // The names belong to a workspace that is no longer open
+      const refined = applyThemeRefinement(themeSet, refinements, engine, model);
+      setResults(prev => renameThemes(prev, refined.renames));
+      setThemeSet(refined.themeSet);
+      // Keep a theme filter pointing at the same (possibly renamed or merged) theme
+      setFilters(prev => ({
+        ...prev,
+        advanced: {
+          ...prev.advanced,
+          conditions: prev.advanced.conditions.map(c => c.field === 'theme' && refined.renames.has(c.value) ? { ...c, value: refined.renames.get(c.value)! } : c),
+        },
+      }));
+      showToast("Themes named", "success");
+    } catch (err: any) {
+      if (request.signal.aborted) return;
+      setErrorDetails({
+        title: "Theme Naming Failed",
+        message: err instanceof Error ? err.message : "An unexpected error occurred",
+        code: err instanceof AnalysisError ? err.code : "UNKNOWN",
+        solution: err instanceof AnalysisError ? err.solution : "Please try again later.",
+        status: err instanceof AnalysisError ? err.status : undefined,
+      });
+      showToast("Theme Naming Failed", "error");
+    } finally {
+      if (themeRequestRef.current === request) themeRequestRef.current = null;
+      setIsRefiningThemes(false);
+    }
+  };
+
+  // Clicking the theme the table is filtered to clears that filter again
+  const filterByTheme = (name: string) => {
+    setFilters(prev => name === activeTheme ? withoutCondition(prev, 'theme') : withCondition(prev, 'theme', name));
+  };
+
+  // Logic: Keywords
+  // Clicking a keyword in a row or the keyword panel toggles filtering to every result mentioning it
+  const handleKeywordFilter = useCallback((keyword: string) => {
+    setFilters(prev => {
+      const current = prev.advanced.conditions.find(c => c.field === 'keyword' && c.operator === 'is');
+      return current && normalizeKeyword(current.value) === keyword
+        ? withoutCondition(prev, 'keyword')
+        : withCondition(prev, 'keyword', keyword, 'is');
+    });
+  }, []);
+
+  // Quotes link to their result; one hidden by the filters can't be shown in the table
+  const showResult = (id: string) => {
+    if (!filteredResults.some(r => r.id === id)) {
+      showToast(results.some(r => r.id === id) ? "That result is hidden by the current filters" : "That result is no longer in the workspace", "error");
+      return;
+    }
+    setFocusRequest({ id, at: Date.now() });
+  };
+
+  // Logic: Report
+  const renderReport = (options: ReportOptions) => {
+    saveReportOptions(options);
+    setIsReportOpen(false);
+    const narrowed = options.filteredOnly && filteredResults.length < results.length;
+    return buildReportHtml({
+      workspaceName: activeWorkspace?.name || 'Dashboard',
+      results: options.filteredOnly ? filteredResults : results,
+      runs,
+      settings: analysisOptions,
+      engine: cacheScopeFor(providerSettings, analysisOptions),
+      summary: executiveSummary,
+      scopeNote: narrowed ? `Filtered view: ${filteredResults.length.toLocaleString()} of ${results.length.toLocaleString()} results` : undefined,
+    }, options);
+  };
+
+  const downloadReport = (options: ReportOptions) => {
+    downloadText(renderReport(options), "emotiview_report.html", "text/html");
+    showToast("Report Exported", "success");
   };
 
-  const handlePrintPDF = () => {
-    window.print();
+  const handlePrintReport = (options: ReportOptions) => {
+    printReport(renderReport(options));
   };
 
   // Logic: Export
   const downloadJSON = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(results, null, 2));
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", "emotiview_results.json");
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+    const envelope = buildExport(results, runs, analysisOptions, metadataFields, cacheScopeFor(providerSettings, analysisOptions), executiveSummary, themeSet);
+    downloadText(JSON.stringify(envelope, null, 2), "emotiview_results.json", "application/json");
     showToast("JSON Exported", "success");
   };
 
-  const downloadCSV = () => {
-    const headers = ["ID", "Text", "Sentiment", "Emotion", "Is Sarcastic", "Confidence", "Keywords", "Explanation"];
-    const rows = results.map(r => [
-      r.id,
-      `"${r.text.replace(/"/g, '""')}"`,
-      r.sentiment,
-      r.emotion,
-      r.isSarcastic ? "Yes" : "No",
-      r.confidence,
-      `"${r.keywords.join('; ')}"`,
-      `"${r.explanation.replace(/"/g, '""')}"`
-    ]);
-    
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + [headers.join(','), ...rows.map(e => e.join(','))].join('\n');
-      
-    const link = document.createElement("a");
-    link.setAttribute("href", encodeURI(csvContent));
-    link.setAttribute("download", "emotiview_results.csv");
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
-    showToast("CSV Exported", "success");
+  // Reviewed rows only, human label next to the model's prediction
+  const downloadGoldLabels = () => {
+    downloadText(buildGoldLabels(results), "emotiview_gold_labels.jsonl", "application/x-ndjson");
+    showToast("Gold labels exported", "success");
+  };
+
+  const handleExport = (options: ExportOptions) => {
+    saveExportOptions(options);
+    setIsExportOpen(false);
+    const format = EXPORT_FORMATS.find(f => f.value === options.format)!;
+    const columns = exportColumns(metadataFields).filter(c => options.columns.includes(c.id));
+    const rows = options.filteredOnly ? filteredResults : results;
+    const spreadsheet = options.format === 'csv' || options.format === 'tsv';
+    downloadText(renderExport(rows, columns, options.format), `emotiview_results.${format.extension}`, format.mime, spreadsheet && options.bom);
+    showToast(`${format.label} Exported`, "success");
   };
 
   return (
     <div className="min-h-screen flex flex-col md:flex-row bg-sky-50 font-sans text-slate-900">
       <ApiKeyModal 
         isOpen={isApiKeyModalOpen} 
+        settings={providerSettings}
+        retryPolicy={retryPolicy}
+        limits={throughputLimits}
         onClose={() => setIsApiKeyModalOpen(false)} 
-        onSave={(key) => {
-          setApiKey(key);
+        onSave={(settings, policy, limits) => {
+          setProviderSettings(settings);
+          setRetryPolicy(policy);
+          setThroughputLimits(limits);
           setIsApiKeyModalOpen(false);
-          showToast("API Key saved", "success");
+          showToast("Settings saved", "success");
           setErrorDetails(null);
         }} 
       />
+      <ExportDialog
+        isOpen={isExportOpen}
+        metadataFields={metadataFields}
+        totalCount={results.length}
+        filteredCount={filteredResults.length}
+        onClose={() => setIsExportOpen(false)}
+        onExport={handleExport}
+      />
+      <ReportDialog
+        isOpen={isReportOpen}
+        defaultTitle={`${activeWorkspace?.name || 'EmotiView'} – Sentiment Report`}
+        totalCount={results.length}
+        filteredCount={filteredResults.length}
+        onClose={() => setIsReportOpen(false)}
+        onDownload={downloadReport}
+        onPrint={handlePrintReport}
+      />
+      <SessionImportDialog
+        pending={sessionImport}
+        currentCount={results.length}
+        onCancel={() => setSessionImport(null)}
+        onApply={applySessionImport}
+      />
+      <ImportDialog
+        file={importFile}
+        onCancel={() => setImportFile(null)}
+        onImport={handleImport}
+      />
+      <CacheModal
+        isOpen={isCacheModalOpen}
+        onClose={() => setIsCacheModalOpen(false)}
+        onCleared={(message) => showToast(message, "success")}
+      />
       {toast && <Toast message={toast.msg} type={toast.type} onClose={() => setToast(null)} />}
 
       {/* Sidebar Navigation */}
@@ -333,6 +1055,17 @@ export default function App() {
         </div>
 
         <nav className="flex-1 p-4 space-y-6 overflow-y-auto">
+          <WorkspaceList
+            workspaces={workspaces}
+            activeId={activeWorkspace?.id || null}
+            disabled={isProcessing || isSummarizing || isRefiningThemes}
+            onSelect={workspaceAction(handleSelectWorkspace)}
+            onCreate={workspaceAction(handleCreateWorkspace)}
+            onRename={workspaceAction(handleRenameWorkspace)}
+            onDuplicate={workspaceAction(handleDuplicateWorkspace)}
+            onDelete={workspaceAction(handleDeleteWorkspace)}
+          />
+
           <div>
             <h3 className="text-xs font-black text-sky-900 uppercase tracking-wider mb-3 px-2">Analysis Mode</h3>
             <div className="space-y-2">
@@ -363,16 +1096,23 @@ export default function App() {
                 <Sparkles size={18} />
                 Load Sample Data
               </button>
+             <button 
+                onClick={() => setIsCacheModalOpen(true)}
+                className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-bold transition-all border-2 bg-transparent text-sky-700 border-transparent hover:border-black hover:bg-white hover:text-black hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]"
+              >
+                <Database size={18} />
+                Analysis Cache
+              </button>
           </div>
         </nav>
 
         <div className="p-4 border-t-2 border-black bg-sky-100">
           <button 
             onClick={() => setIsApiKeyModalOpen(true)}
-            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-bold transition-all border-2 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] ${!apiKey ? 'border-red-500 bg-red-50 text-red-600' : 'border-black text-sky-900 bg-white hover:bg-sky-50'}`}
+            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-bold transition-all border-2 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] ${!providerReady ? 'border-red-500 bg-red-50 text-red-600' : 'border-black text-sky-900 bg-white hover:bg-sky-50'}`}
           >
             <Settings size={18} />
-            {apiKey ? 'API Configured' : 'Configure API Key'}
+            {providerReady ? `${activeProvider.label}` : 'Configure API Key'}
           </button>
         </div>
       </aside>
@@ -384,37 +1124,43 @@ export default function App() {
           {/* Header Area */}
           <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
             <div>
-              <h2 className="text-4xl font-black text-black tracking-tight mb-2">Dashboard</h2>
+              <h2 className="text-4xl font-black text-black tracking-tight mb-2">{activeWorkspace?.name || 'Dashboard'}</h2>
               <div className="flex gap-2 text-sm font-bold text-sky-800">
-                <span className="bg-sky-200 px-2 py-0.5 rounded border border-sky-400">Gemini 2.5 Flash</span>
+                <span className="bg-sky-200 px-2 py-0.5 rounded border border-sky-400">{activeProvider.label} · {activeProvider.id === providerSettings.provider ? providerSettings.model : activeProvider.defaultModel}</span>
                 <span className="bg-sky-200 px-2 py-0.5 rounded border border-sky-400">Advanced NLP</span>
               </div>
             </div>
             
             {(results.length > 0) && (
               <div className="flex gap-3 no-print">
-                <button onClick={handlePrintPDF} className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-black hover:bg-sky-100 text-black rounded-lg text-sm font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none">
+                <button onClick={() => setIsReportOpen(true)} title="Shareable HTML report or PDF via print" className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-black hover:bg-sky-100 text-black rounded-lg text-sm font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none">
                    <FileText size={16} />
-                   PDF Report
+                   Report
                 </button>
-                <button onClick={downloadCSV} className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-black hover:bg-sky-100 text-black rounded-lg text-sm font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none">
+                <button onClick={() => setIsExportOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-black hover:bg-sky-100 text-black rounded-lg text-sm font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none" title="CSV, TSV, JSON Lines or Markdown with the columns you pick">
                   <Download size={16} />
-                  CSV
+                  Export
                 </button>
                 <button onClick={downloadJSON} className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-black hover:bg-sky-100 text-black rounded-lg text-sm font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none">
                   <Download size={16} />
                   JSON
                 </button>
+                {results.some(r => r.review) && (
+                  <button onClick={downloadGoldLabels} className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-black hover:bg-sky-100 text-black rounded-lg text-sm font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none" title="Reviewed results with human and model labels (JSONL)">
+                    <UserCheck size={16} />
+                    Gold Labels
+                  </button>
+                )}
               </div>
             )}
           </div>
 
           {/* Key Metrics Scorecards */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
             <StatCard 
               title="Total Analyzed" 
               value={totalAnalyzed} 
-              subtitle="Text segments"
+              subtitle={filters.applyToStats ? "Matching the filter" : "Text segments"}
               icon={FileText}
               colorClass="bg-blue-200"
             />
@@ -434,11 +1180,18 @@ export default function App() {
             />
             <StatCard 
               title="Negative Rate" 
-              value={totalAnalyzed > 0 ? `${(results.filter(r => r.sentiment === SentimentType.NEGATIVE).length / totalAnalyzed * 100).toFixed(0)}%` : '0%'} 
+              value={totalAnalyzed > 0 ? `${(statResults.filter(r => r.sentiment === SentimentType.NEGATIVE).length / totalAnalyzed * 100).toFixed(0)}%` : '0%'} 
               subtitle="Critical feedback"
               icon={AlertCircle}
               colorClass="bg-red-200"
             />
+            <StatCard 
+              title="Override Rate" 
+              value={review.reviewed > 0 ? `${(review.overrideRate * 100).toFixed(0)}%` : '–'} 
+              subtitle={review.reviewed > 0 ? `${review.overridden} of ${review.reviewed} reviewed corrected` : "No reviews yet"}
+              icon={UserCheck}
+              colorClass="bg-emerald-200"
+            />
           </div>
 
           {/* Input Section */}
@@ -448,6 +1201,98 @@ export default function App() {
               {inputMode === 'single' ? 'Analyze Text' : 'Batch Upload'}
             </h3>
 
+            {/* Cache */}
+            <label className="mb-6 flex items-center gap-2 text-sm font-bold text-black cursor-pointer" title="Ignore cached results and send every text to the engine again">
+              <input
+                type="checkbox"
+                checked={forceReanalyze}
+                onChange={(e) => setForceReanalyze(e.target.checked)}
+                className="w-4 h-4 accent-sky-500"
+              />
+              Force re-analyze (skip cache)
+            </label>
+
+            {/* Aspect Mode */}
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3 p-3 bg-sky-50 border-2 border-black rounded-lg">
+              <label className="flex items-center gap-2 text-sm font-bold text-black whitespace-nowrap cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={analysisOptions.aspectMode}
+                  onChange={(e) => setAnalysisOptions(prev => ({ ...prev, aspectMode: e.target.checked }))}
+                  className="w-4 h-4 accent-sky-500"
+                />
+                Aspect mode
+              </label>
+              {analysisOptions.aspectMode && (
+                <input
+                  type="text"
+                  defaultValue={analysisOptions.aspects.join(', ')}
+                  onBlur={(e) => {
+                    const aspects = e.target.value.split(',').map(a => a.trim().toLowerCase()).filter(Boolean);
+                    setAnalysisOptions(prev => ({ ...prev, aspects: aspects.length > 0 ? [...new Set(aspects)] : DEFAULT_ANALYSIS_OPTIONS.aspects }));
+                  }}
+                  placeholder="shipping, price, staff, quality"
+                  title="Comma-separated aspects to extract"
+                  className="flex-1 px-3 py-1.5 border-2 border-black rounded-lg text-sm font-medium bg-white outline-none focus:ring-2 focus:ring-sky-500"
+                />
+              )}
+            </div>
+
+            {/* Languages */}
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3 p-3 bg-sky-50 border-2 border-black rounded-lg">
+              <label className="flex items-center gap-2 text-sm font-bold text-black whitespace-nowrap">
+                Explanations in
+                <select
+                  value={analysisOptions.outputLanguage}
+                  onChange={(e) => setAnalysisOptions(prev => ({ ...prev, outputLanguage: e.target.value }))}
+                  className="px-3 py-1.5 border-2 border-black rounded-lg text-sm font-medium bg-white outline-none focus:ring-2 focus:ring-sky-500"
+                >
+                  {OUTPUT_LANGUAGES.map(l => (
+                    <option key={l.code} value={l.name}>{l.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm font-bold text-black whitespace-nowrap cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={analysisOptions.translate}
+                  onChange={(e) => setAnalysisOptions(prev => ({ ...prev, translate: e.target.checked }))}
+                  className="w-4 h-4 accent-sky-500"
+                />
+                Translate non-English texts to English
+              </label>
+            </div>
+
+            {/* Emotion Taxonomy */}
+            <div className="mb-6 flex flex-col gap-3 p-3 bg-sky-50 border-2 border-black rounded-lg">
+              <label className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm font-bold text-black">
+                <span className="whitespace-nowrap">Emotion taxonomy</span>
+                <select
+                  value={analysisOptions.taxonomy.id}
+                  onChange={(e) => handleTaxonomySelect(e.target.value as TaxonomyId)}
+                  className="flex-1 px-3 py-1.5 border-2 border-black rounded-lg text-sm font-medium bg-white outline-none focus:ring-2 focus:ring-sky-500"
+                >
+                  {TAXONOMY_OPTIONS.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+              </label>
+              {analysisOptions.taxonomy.id === 'custom' ? (
+                <textarea
+                  value={customTaxonomyText}
+                  onChange={(e) => setCustomTaxonomyText(e.target.value)}
+                  onBlur={() => applyEmotionTaxonomy(parseCustomTaxonomy(customTaxonomyText))}
+                  placeholder={"One emotion per line, e.g.\nDelight 😍\nConfusion 😕"}
+                  title="One label per line, optionally followed by an emoji"
+                  className="w-full h-28 px-3 py-2 border-2 border-black rounded-lg text-sm font-medium bg-white outline-none focus:ring-2 focus:ring-sky-500 resize-y"
+                />
+              ) : (
+                <p className="text-xs font-medium text-gray-600">
+                  {analysisOptions.taxonomy.labels.map(l => `${l.emoji} ${l.label}`).join(' · ')}
+                </p>
+              )}
+            </div>
+
             {inputMode === 'single' ? (
               <div className="space-y-4">
                 <div className="relative">
@@ -478,14 +1323,14 @@ export default function App() {
                   type="file" 
                   ref={fileInputRef} 
                   onChange={handleFileUpload}
-                  accept=".txt,.csv" 
+                  accept=".txt,.csv,.tsv,.json" 
                   className="hidden" 
                 />
                 <div className="w-16 h-16 bg-white text-sky-600 border-2 border-black rounded-xl flex items-center justify-center mx-auto mb-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] group-hover:scale-110 transition-transform">
                   <Upload size={28} />
                 </div>
-                <h4 className="text-black font-bold text-lg mb-1">Click to upload CSV or TXT</h4>
-                <p className="text-gray-500 font-medium">Batch process multiple lines at once (Max 100 rows)</p>
+                <h4 className="text-black font-bold text-lg mb-1">Click to upload CSV, TSV or TXT</h4>
+                <p className="text-gray-500 font-medium">Large files are streamed and analyzed as they are read · JSON exports are restored</p>
               </div>
             )}
 
@@ -527,22 +1372,114 @@ export default function App() {
               </div>
             )}
 
+            {/* Ingestion Progress: reading the file, tracked apart from analysis */}
+            {ingest && (batchProgress.isProcessing || ingest.skipped > 0 || ingest.problems.length > 0) && (
+              <div className="mt-6 space-y-2">
+                <div className="flex justify-between text-sm font-bold text-black">
+                  <span className="flex items-center gap-2 truncate">
+                    {ingest.done ? <CheckCircle size={14} className="text-green-700" /> : <Loader2 className="animate-spin" size={14} />}
+                    {ingest.done ? 'Read' : 'Reading'} {ingest.fileName}
+                  </span>
+                  <div className="flex gap-3 shrink-0">
+                    <span>{ingest.rows.toLocaleString()} rows queued</span>
+                    {ingest.skipped > 0 && <span className="text-red-600">{ingest.skipped.toLocaleString()} skipped</span>}
+                    <span>{Math.round(ingest.bytesRead / Math.max(1, ingest.totalBytes) * 100)}%</span>
+                  </div>
+                </div>
+                <div className="h-3 bg-white rounded-full overflow-hidden border-2 border-black">
+                  <div
+                    className="h-full bg-sky-300 transition-all duration-300 ease-out"
+                    style={{ width: `${ingest.bytesRead / Math.max(1, ingest.totalBytes) * 100}%` }}
+                  ></div>
+                </div>
+                {ingest.problems.length > 0 && (
+                  <details className="text-xs font-medium text-red-900">
+                    <summary className="cursor-pointer font-bold">Rows with problems</summary>
+                    <div className="mt-1 max-h-32 overflow-y-auto p-2 bg-red-50 border-2 border-red-500 rounded-lg space-y-1">
+                      {ingest.problems.map((p, idx) => (
+                        <p key={idx}><span className="font-bold">Line {p.line}:</span> {p.reason}</p>
+                      ))}
+                      {ingest.skipped > ingest.problems.length && <p className="font-bold">Only the first {ingest.problems.length} are listed.</p>}
+                    </div>
+                  </details>
+                )}
+              </div>
+            )}
+
             {/* Batch Progress */}
             {batchProgress.isProcessing && (
               <div className="mt-6 space-y-2">
                 <div className="flex justify-between text-sm font-bold text-black">
-                  <span className="flex items-center gap-2"><Loader2 className="animate-spin" size={14} /> Processing...</span>
+                  {job?.status === 'paused' ? (
+                    <span className="flex items-center gap-2 text-sky-700"><Pause size={14} /> Paused (in-flight chunks finishing)</span>
+                  ) : batchProgress.retryAt ? (
+                    <span className="flex items-center gap-2 text-orange-600">
+                      <RefreshCw className="animate-spin" size={14} />
+                      Retrying in {Math.max(0, Math.ceil((batchProgress.retryAt - now) / 1000))}s (attempt {batchProgress.retryAttempt}/{batchProgress.retryMaxAttempts})
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-2"><Loader2 className="animate-spin" size={14} /> Processing...</span>
+                  )}
                   <div className="flex gap-3">
                      <span className="text-green-700">{batchProgress.processed - batchProgress.errors} Success</span>
+                     {!!batchProgress.cacheHits && <span className="text-sky-700">{batchProgress.cacheHits} Cached</span>}
                      {batchProgress.errors > 0 && <span className="text-red-600">{batchProgress.errors} Failed</span>}
                      <span>Total: {batchProgress.total}</span>
                   </div>
                 </div>
-                <div className="h-5 bg-white rounded-full overflow-hidden border-2 border-black">
-                  <div 
-                    className={`h-full border-r-2 border-black transition-all duration-300 ease-out ${batchProgress.errors > 0 ? 'bg-orange-400' : 'bg-sky-500'}`}
-                    style={{ width: `${(batchProgress.processed / batchProgress.total) * 100}%` }}
-                  ></div>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 h-5 bg-white rounded-full overflow-hidden border-2 border-black">
+                    <div 
+                      className={`h-full border-r-2 border-black transition-all duration-300 ease-out ${batchProgress.errors > 0 ? 'bg-orange-400' : 'bg-sky-500'}`}
+                      style={{ width: `${batchProgress.total > 0 ? (batchProgress.processed / batchProgress.total) * 100 : 0}%` }}
+                    ></div>
+                  </div>
+                  {job?.status === 'paused' ? (
+                    <button onClick={handleResume} title="Resume" className="p-1.5 bg-white border-2 border-black rounded-lg hover:bg-sky-100 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none">
+                      <Play size={14} />
+                    </button>
+                  ) : (
+                    <button onClick={handlePause} title="Pause after the current chunks" className="p-1.5 bg-white border-2 border-black rounded-lg hover:bg-sky-100 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none">
+                      <Pause size={14} />
+                    </button>
+                  )}
+                  <button onClick={handleCancel} title="Cancel" className="p-1.5 bg-white border-2 border-red-600 text-red-600 rounded-lg hover:bg-red-50 shadow-[2px_2px_0px_0px_rgba(220,38,38,1)] active:shadow-none">
+                    <Square size={14} />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Final state of the last run */}
+            {!batchProgress.isProcessing && job && job.status !== 'completed' && (job.pendingItems.length > 0 || job.moreInput || failures.length > 0) && (
+              <div className="mt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-orange-50 border-2 border-orange-500 rounded-xl">
+                <span className="text-sm font-bold text-orange-900">
+                  <span className="uppercase font-black mr-2">{job.status === 'cancelled' ? 'Cancelled' : 'Partially failed'}</span>
+                  {job.pendingItems.length > 0 && `${job.pendingItems.length} row${job.pendingItems.length === 1 ? '' : 's'} pending. `}
+                  {job.moreInput && 'The rest of the file has not been read yet. '}
+                  {failures.length > 0 && `${failures.length} text${failures.length === 1 ? '' : 's'} failed.`}
+                </span>
+                <div className="flex gap-2">
+                  {(job.pendingItems.length > 0 || job.moreInput) && (
+                    <button
+                      onClick={handleResumePending}
+                      disabled={isProcessing}
+                      className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-black hover:bg-orange-100 text-black rounded-lg text-sm font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none disabled:opacity-50"
+                    >
+                      <Play size={16} />
+                      Resume
+                    </button>
+                  )}
+                  {failures.length > 0 && (
+                    <button
+                      onClick={handleRetryFailed}
+                      disabled={isProcessing}
+                      className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-black hover:bg-orange-100 text-black rounded-lg text-sm font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none disabled:opacity-50"
+                    >
+                      <RefreshCw size={16} />
+                      Retry failed items
+                    </button>
+                  )}
                 </div>
               </div>
             )}
@@ -551,24 +1488,116 @@ export default function App() {
           {/* Charts Row */}
           {results.length > 0 && (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 animate-in fade-in slide-in-from-bottom-4 duration-500 print-break-inside">
+              <SummaryPanel
+                summary={executiveSummary}
+                resultCount={statResults.length}
+                engineLabel={activeProvider.label}
+                isSummarizing={isSummarizing}
+                onSummarize={handleSummarize}
+                onQuoteClick={showResult}
+              />
+              <ThemePanel
+                themeSet={themeSet}
+                stats={themes}
+                unthemedCount={statResults.filter(r => !r.theme).length}
+                activeTheme={activeTheme}
+                engineLabel={activeProvider.label}
+                canRefine={!!activeProvider.refineThemes}
+                isRefining={isRefiningThemes}
+                onDiscover={handleDiscoverThemes}
+                onRefine={handleRefineThemes}
+                onSelect={filterByTheme}
+              />
+              <KeywordPanel results={statResults} activeKeyword={activeKeyword} onSelect={handleKeywordFilter} />
               <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)]">
                 <h3 className="text-lg font-extrabold text-black mb-4 flex items-center gap-2">
                   <Activity size={20} /> Sentiment Distribution
                 </h3>
-                <SentimentDistributionChart results={results} />
+                <SentimentDistributionChart results={statResults} />
               </div>
               <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)]">
                 <h3 className="text-lg font-extrabold text-black mb-4 flex items-center gap-2">
                    <BrainCircuit size={20} /> Specific Emotions
                 </h3>
-                <EmotionBarChart results={results} />
+                <EmotionBarChart results={statResults} taxonomy={analysisOptions.taxonomy} />
               </div>
                <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] lg:col-span-2">
                 <h3 className="text-lg font-extrabold text-black mb-4 flex items-center gap-2">
                    <Activity size={20} /> Comparative Confidence Analysis
                 </h3>
-                <ComparativeSentimentChart results={results} />
+                <ComparativeSentimentChart results={statResults} />
               </div>
+              <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] lg:col-span-2">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <h3 className="text-lg font-extrabold text-black flex items-center gap-2">
+                     <TrendingUp size={20} /> Sentiment Over Time
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-2 no-print">
+                    <select
+                      value={trendDateKey}
+                      onChange={(e) => setTrendDateKey(e.target.value)}
+                      title="Which time each result is placed at"
+                      className="px-2 py-1 rounded-lg text-xs font-bold border-2 border-black bg-white text-black outline-none focus:ring-2 focus:ring-sky-500"
+                    >
+                      <option value="">Analysis time</option>
+                      {dateFields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+                    </select>
+                    <select
+                      value={trendBucket}
+                      onChange={(e) => setTrendBucket(e.target.value as TrendBucket)}
+                      title="Bucket size"
+                      className="px-2 py-1 rounded-lg text-xs font-bold border-2 border-black bg-white text-black outline-none focus:ring-2 focus:ring-sky-500"
+                    >
+                      {TREND_BUCKETS.map(b => <option key={b.value} value={b.value}>By {b.label}</option>)}
+                    </select>
+                    <select
+                      value={trendWindow}
+                      onChange={(e) => setTrendWindow(Number(e.target.value))}
+                      title="Buckets in the rolling average"
+                      className="px-2 py-1 rounded-lg text-xs font-bold border-2 border-black bg-white text-black outline-none focus:ring-2 focus:ring-sky-500"
+                    >
+                      {[3, 5, 7, 14].map(n => <option key={n} value={n}>Rolling {n}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <SentimentTrendChart points={trend.points} />
+                <p className="mt-2 text-xs font-bold text-gray-500">
+                  Buckets are UTC {trendBucket === 'hour' ? 'hours' : `${trendBucket}s`}: times without a zone are read as local time, so late local entries can count toward the next UTC day. Dates without a time count on their own calendar day.
+                </p>
+                {trend.undated > 0 && (
+                  <p className="mt-2 text-xs font-bold text-gray-500">
+                    {trend.undated} result{trend.undated === 1 ? ' has' : 's have'} no {trendDateField?.label} and {trend.undated === 1 ? 'is' : 'are'} not shown.
+                  </p>
+                )}
+              </div>
+              <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] lg:col-span-2">
+                <h3 className="text-lg font-extrabold text-black mb-4 flex items-center gap-2">
+                   <Activity size={20} /> Sentiment by Language
+                </h3>
+                <LanguageSentimentChart results={statResults} />
+              </div>
+              {groupField && (
+                <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] lg:col-span-2">
+                  <h3 className="text-lg font-extrabold text-black mb-4 flex items-center gap-2">
+                     <Layers size={20} /> Sentiment by {groupField.label}
+                  </h3>
+                  <GroupedStats groups={groups} />
+                  <div className="mt-4">
+                    <GroupSentimentChart groups={groups} />
+                  </div>
+                </div>
+              )}
+              {metadataFields.length > 0 && (
+                <EvaluationPanel results={statResults} metadataFields={metadataFields} taxonomy={analysisOptions.taxonomy} />
+              )}
+              {hasAspects && (
+                <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] lg:col-span-2">
+                  <h3 className="text-lg font-extrabold text-black mb-4 flex items-center gap-2">
+                     <Filter size={20} /> Sentiment by Aspect
+                  </h3>
+                  <AspectSentimentChart results={statResults} />
+                </div>
+              )}
             </div>
           )}
 
@@ -581,9 +1610,9 @@ export default function App() {
                   {(['ALL', SentimentType.POSITIVE, SentimentType.NEGATIVE, SentimentType.NEUTRAL] as const).map((type) => (
                     <button
                       key={type}
-                      onClick={() => setFilter(type)}
+                      onClick={() => setFilters(prev => ({ ...prev, sentiment: type }))}
                       className={`px-4 py-1.5 rounded-lg text-sm font-bold border-2 transition-all whitespace-nowrap ${
-                        filter === type 
+                        filters.sentiment === type 
                           ? 'bg-black text-white border-black shadow-[2px_2px_0px_0px_rgba(255,255,255,0.5)]' 
                           : 'bg-white text-black border-black hover:bg-sky-200'
                       }`}
@@ -591,11 +1620,68 @@ export default function App() {
                       {type === 'ALL' ? 'All Results' : type}
                     </button>
                   ))}
+                  <select
+                    value={filters.emotion}
+                    onChange={(e) => setFilters(prev => ({ ...prev, emotion: e.target.value }))}
+                    title="Filter by emotion"
+                    className="px-3 py-1.5 rounded-lg text-sm font-bold border-2 border-black bg-white text-black outline-none focus:ring-2 focus:ring-sky-500"
+                  >
+                    <option value="ALL">All Emotions</option>
+                    {emotionLabelsOf(analysisOptions.taxonomy).map(l => (
+                      <option key={l.label} value={l.label}>
+                        {l.emoji} {l.label} ({results.filter(r => r.emotion === l.label).length})
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={filters.language}
+                    onChange={(e) => setFilters(prev => ({ ...prev, language: e.target.value }))}
+                    title="Filter by language"
+                    className="px-3 py-1.5 rounded-lg text-sm font-bold border-2 border-black bg-white text-black outline-none focus:ring-2 focus:ring-sky-500"
+                  >
+                    <option value="ALL">All Languages</option>
+                    {languages.map(code => (
+                      <option key={code} value={code}>
+                        {languageName(code)} ({results.filter(r => (r.language || UNDETERMINED_LANGUAGE) === code).length})
+                      </option>
+                    ))}
+                  </select>
+                  {metadataFields.length > 0 && (
+                    <>
+                      <select
+                        value={groupBy ?? ''}
+                        onChange={(e) => setGroupBy(e.target.value || null)}
+                        title="Group stats and charts by a metadata column"
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold border-2 border-black bg-white text-black outline-none focus:ring-2 focus:ring-sky-500"
+                      >
+                        <option value="">No Grouping</option>
+                        {metadataFields.map(f => <option key={f.key} value={f.key}>Group by {f.label}</option>)}
+                      </select>
+                      <details className="relative">
+                        <summary className="list-none flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-bold border-2 border-black bg-white text-black cursor-pointer hover:bg-sky-200 whitespace-nowrap">
+                          <Columns3 size={16} /> Columns ({shownMetadata.length})
+                        </summary>
+                        <div className="absolute z-20 mt-2 w-56 max-h-64 overflow-y-auto p-2 bg-white border-2 border-black rounded-lg shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] space-y-1">
+                          {metadataFields.map(f => (
+                            <label key={f.key} className="flex items-center gap-2 px-2 py-1 text-xs font-bold text-black rounded hover:bg-sky-50 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={visibleMetadata.includes(f.key)}
+                                onChange={(e) => setVisibleMetadata(prev => e.target.checked ? [...prev, f.key] : prev.filter(k => k !== f.key))}
+                                className="w-4 h-4 accent-sky-500"
+                              />
+                              <span className="truncate">{f.label}</span>
+                            </label>
+                          ))}
+                        </div>
+                      </details>
+                    </>
+                  )}
                </div>
                
-               {results.length > 0 && (
+               {(results.length > 0 || failures.length > 0) && (
                  <button 
-                   onClick={() => setResults([])} 
+                   onClick={() => { setResults([]); setFailures([]); setExecutiveSummary(null); setThemeSet(null); }} 
                    className="flex items-center gap-2 text-sm text-red-600 hover:text-red-700 font-bold border-2 border-red-600 px-4 py-2 rounded-lg bg-white hover:bg-red-50 shadow-[2px_2px_0px_0px_rgba(220,38,38,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] transition-all whitespace-nowrap"
                  >
                    <RefreshCw size={16} /> Reset
@@ -603,13 +1689,44 @@ export default function App() {
                )}
             </div>
 
+            <FilterBuilder
+              filters={filters}
+              metadataFields={metadataFields}
+              taxonomy={analysisOptions.taxonomy}
+              languages={languages}
+              themes={themeSet ? themeSet.themes.map(t => t.name) : []}
+              presets={filterPresets}
+              matchCount={filteredResults.length}
+              onChange={setFilters}
+              onSavePreset={(name) => setFilterPresets(saveFilterPreset(name, filters))}
+              onDeletePreset={(id) => setFilterPresets(deleteFilterPreset(id))}
+              onCopyLink={() => {
+                navigator.clipboard.writeText(filtersToUrl(filters));
+                showToast("Link copied to clipboard", "success");
+              }}
+            />
+
             <ResultsTable 
               results={filteredResults} 
-              onDelete={(id) => setResults(prev => prev.filter(r => r.id !== id))} 
+              failures={failures}
+              metadataFields={shownMetadata}
+              totalCount={results.length}
+              onDismissFailure={handleDismissFailure}
+              onDelete={handleDeleteResult}
               onCopy={handleCopy}
+              taxonomy={analysisOptions.taxonomy}
+              reviewer={reviewer}
+              onReviewerChange={handleReviewerChange}
+              onReview={handleReview}
+              onClearReview={handleClearReview}
+              focusRequest={focusRequest}
+              activeKeyword={activeKeyword}
+              onKeywordClick={handleKeywordFilter}
             />
           </section>
 
+          <RunHistory runs={runs} />
+
         </div>
       </main>
     </div>
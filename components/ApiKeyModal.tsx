@@ -1,62 +1,179 @@
-
 import React, { useState, useEffect } from 'react';
 import { X, CheckCircle, AlertCircle } from './Icons';
+import { ProviderId, ProviderSettings, RetryPolicy, ThroughputLimits } from '../types';
+import { PROVIDERS, getProvider } from '../services/analysisService';
+import { OPENAI_DEFAULT_BASE_URL } from '../services/openAiCompatibleService';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
-  onSave: (key: string) => void;
+  settings: ProviderSettings;
+  retryPolicy: RetryPolicy;
+  limits: ThroughputLimits;
+  onSave: (settings: ProviderSettings, retryPolicy: RetryPolicy, limits: ThroughputLimits) => void;
   onClose: () => void;
 }
 
-export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onSave, onClose }) => {
-  const [key, setKey] = useState('');
+export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, settings, retryPolicy, limits, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [maxAttempts, setMaxAttempts] = useState(retryPolicy.maxAttempts);
+  const [draftLimits, setDraftLimits] = useState<ThroughputLimits>(limits);
   const [isValidFormat, setIsValidFormat] = useState(true);
 
-  // Validate format on change
+  // Start from the current settings every time the modal opens
   useEffect(() => {
-    if (key.length > 0 && !key.startsWith('AIza')) {
+    if (isOpen) {
+      setDraft(settings);
+      setMaxAttempts(retryPolicy.maxAttempts);
+      setDraftLimits(limits);
+    }
+  }, [isOpen, settings, retryPolicy, limits]);
+
+  // Validate format on change (only Gemini keys have a known prefix)
+  useEffect(() => {
+    if (draft.provider === 'gemini' && draft.apiKey.length > 0 && !draft.apiKey.startsWith('AIza')) {
         setIsValidFormat(false);
     } else {
         setIsValidFormat(true);
     }
-  }, [key]);
+  }, [draft.provider, draft.apiKey]);
 
   if (!isOpen) return null;
 
+  const provider = getProvider(draft.provider);
+  const isBuiltInEngine = draft.provider === 'fake' || draft.provider === 'lexicon';
+  const canSave = isValidFormat && (!provider.requiresApiKey || !!draft.apiKey.trim());
+
+  const handleProviderChange = (id: ProviderId) => {
+    setDraft(prev => ({
+      ...prev,
+      provider: id,
+      model: getProvider(id).defaultModel,
+      baseUrl: id === 'openai' ? (prev.baseUrl || OPENAI_DEFAULT_BASE_URL) : prev.baseUrl,
+    }));
+  };
+
+  const inputClass = "w-full px-4 py-3 border-2 border-black rounded-lg focus:ring-2 focus:ring-sky-500 focus:ring-offset-1 outline-none transition-all mb-4 font-mono text-sm shadow-[4px_4px_0px_0px_rgba(0,0,0,0.1)] focus:shadow-none bg-white";
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-sky-900/50 backdrop-blur-sm p-4">
       <div className="bg-sky-50 rounded-xl shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200 border-2 border-black">
         <div className="p-6">
           <div className="flex justify-between items-center mb-6 border-b-2 border-black pb-4">
-            <h2 className="text-xl font-black text-black">Set API Key</h2>
+            <h2 className="text-xl font-black text-black">Analysis Settings</h2>
             <button onClick={onClose} className="text-black hover:bg-sky-200 p-1 rounded transition-colors border-2 border-transparent hover:border-black">
               <X size={24} />
             </button>
           </div>
-          
+
           <p className="text-sm text-slate-800 font-medium mb-6">
-            To use the Gemini 2.5 Flash model for sentiment analysis, please provide your Google GenAI API Key.
+            Choose which service analyzes your texts. Use an OpenAI-compatible endpoint (e.g. a local Ollama server) to keep data off third-party clouds.
           </p>
 
           <label className="block text-sm font-bold text-black mb-2">
-            Gemini API Key
+            Provider
           </label>
-          <div className="relative">
-             <input
-                type="password"
-                value={key}
-                onChange={(e) => setKey(e.target.value)}
-                placeholder="AIzaSy..."
-                className={`w-full px-4 py-3 border-2 rounded-lg focus:ring-2 focus:ring-sky-500 focus:ring-offset-1 outline-none transition-all mb-2 font-mono text-sm shadow-[4px_4px_0px_0px_rgba(0,0,0,0.1)] focus:shadow-none bg-white ${!isValidFormat ? 'border-red-500 text-red-600 focus:ring-red-500' : 'border-black'}`}
+          <select
+            value={draft.provider}
+            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+            className={`${inputClass} font-sans font-bold`}
+          >
+            {Object.values(PROVIDERS).map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+
+          {!isBuiltInEngine && (
+            <>
+              <label className="block text-sm font-bold text-black mb-2">
+                Model
+              </label>
+              <input
+                type="text"
+                value={draft.model}
+                onChange={(e) => setDraft(prev => ({ ...prev, model: e.target.value }))}
+                placeholder={provider.defaultModel}
+                className={inputClass}
               />
-              {!isValidFormat && (
-                <div className="flex items-center gap-1 text-xs font-bold text-red-600 mb-6 animate-in slide-in-from-top-1">
-                    <AlertCircle size={12} />
-                    <span>Key usually starts with "AIza"</span>
-                </div>
-              )}
-          </div>
-          
+            </>
+          )}
+
+          {draft.provider === 'openai' && (
+            <>
+              <label className="block text-sm font-bold text-black mb-2">
+                Base URL
+              </label>
+              <input
+                type="text"
+                value={draft.baseUrl}
+                onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+                placeholder={OPENAI_DEFAULT_BASE_URL}
+                className={inputClass}
+              />
+            </>
+          )}
+
+          {!isBuiltInEngine && (
+            <>
+              <label className="block text-sm font-bold text-black mb-2">
+                API Key {!provider.requiresApiKey && <span className="text-gray-500 font-medium">(optional)</span>}
+              </label>
+              <div className="relative">
+                 <input
+                    type="password"
+                    value={draft.apiKey}
+                    onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+                    placeholder={draft.provider === 'gemini' ? "AIzaSy..." : "sk-..."}
+                    className={`${inputClass} mb-2 ${!isValidFormat ? 'border-red-500 text-red-600 focus:ring-red-500' : ''}`}
+                  />
+                  {!isValidFormat && (
+                    <div className="flex items-center gap-1 text-xs font-bold text-red-600 mb-6 animate-in slide-in-from-top-1">
+                        <AlertCircle size={12} />
+                        <span>Key usually starts with "AIza"</span>
+                    </div>
+                  )}
+              </div>
+            </>
+          )}
+
+          {!isBuiltInEngine && (
+            <>
+              <label className="block text-sm font-bold text-black mb-2">
+                Max attempts per batch <span className="text-gray-500 font-medium">(retries on 429 / 503)</span>
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={maxAttempts}
+                onChange={(e) => setMaxAttempts(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                className={inputClass}
+              />
+
+              <div className="grid grid-cols-3 gap-3">
+                {([
+                  ['maxConcurrency', 'Parallel', 1, 10],
+                  ['requestsPerMinute', 'Req / min', 1, 1000],
+                  ['tokensPerMinute', 'Tokens / min', 1000, 4000000],
+                ] as const).map(([field, label, min, max]) => (
+                  <div key={field}>
+                    <label className="block text-xs font-bold text-black mb-2">{label}</label>
+                    <input
+                      type="number"
+                      min={min}
+                      max={max}
+                      value={draftLimits[field]}
+                      onChange={(e) => {
+                        const value = Math.min(max, Math.max(min, Number(e.target.value) || min));
+                        setDraftLimits(prev => ({ ...prev, [field]: value }));
+                      }}
+                      className={`${inputClass} px-2`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
           {isValidFormat && <div className="mb-6"></div>}
 
           <div className="flex justify-end gap-3">
@@ -68,16 +185,21 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onSave, onClos
             </button>
             <button
               onClick={() => {
-                if (key.trim()) {
-                  onSave(key.trim());
+                if (canSave) {
+                  onSave({
+                    ...draft,
+                    apiKey: draft.apiKey.trim(),
+                    model: draft.model.trim() || provider.defaultModel,
+                    baseUrl: draft.baseUrl.trim(),
+                  }, { ...retryPolicy, maxAttempts }, draftLimits);
                   onClose();
                 }
               }}
-              disabled={!key.trim() || !isValidFormat}
+              disabled={!canSave}
               className="flex items-center gap-2 px-6 py-2 bg-white hover:bg-sky-100 text-black border-2 border-black rounded-lg font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none disabled:translate-y-0"
             >
               <CheckCircle size={18} />
-              Save Key
+              Save Settings
             </button>
           </div>
         </div>
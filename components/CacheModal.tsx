@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Trash2, Loader2, Search } from './Icons';
+import { CacheEntry, clearCache, deleteCacheEntry, listCacheEntries } from '../services/analysisCache';
+
+interface CacheModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCleared: (message: string) => void;
+}
+
+export const CacheModal: React.FC<CacheModalProps> = ({ isOpen, onClose, onCleared }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await listCacheEntries());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The cache could not be read.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, load]);
+
+  if (!isOpen) return null;
+
+  const handleDelete = async (key: string) => {
+    setError(null);
+    try {
+      await deleteCacheEntry(key);
+      setEntries(prev => prev.filter(e => e.key !== key));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The cache entry could not be deleted.');
+    }
+  };
+
+  const handleClear = async () => {
+    setError(null);
+    try {
+      await clearCache();
+      setEntries([]);
+      onCleared('Analysis cache cleared');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The cache could not be cleared.');
+    }
+  };
+
+  const visible = query.trim()
+    ? entries.filter(e => e.text.toLowerCase().includes(query.trim().toLowerCase()))
+    : entries;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-sky-900/50 backdrop-blur-sm p-4">
+      <div className="bg-sky-50 rounded-xl shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-3xl overflow-hidden animate-in fade-in zoom-in duration-200 border-2 border-black">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6 border-b-2 border-black pb-4">
+            <h2 className="text-xl font-black text-black">Analysis Cache</h2>
+            <button onClick={onClose} className="text-black hover:bg-sky-200 p-1 rounded transition-colors border-2 border-transparent hover:border-black">
+              <X size={24} />
+            </button>
+          </div>
+
+          <p className="text-sm text-slate-800 font-medium mb-4">
+            Texts analyzed before with the same engine, model and prompt are answered from this browser's cache without an API call.
+          </p>
+
+          <div className="flex items-center gap-3 mb-4">
+            <div className="flex-1 flex items-center gap-2 px-3 py-2 border-2 border-black rounded-lg bg-white">
+              <Search size={16} className="text-gray-500" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search cached texts..."
+                className="flex-1 text-sm font-medium outline-none bg-transparent"
+              />
+            </div>
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="flex items-center gap-2 text-sm text-red-600 hover:text-red-700 font-bold border-2 border-red-600 px-4 py-2 rounded-lg bg-white hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed shadow-[2px_2px_0px_0px_rgba(220,38,38,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] transition-all whitespace-nowrap"
+            >
+              <Trash2 size={16} /> Clear all ({entries.length})
+            </button>
+          </div>
+
+          <div className="max-h-[50vh] overflow-y-auto border-2 border-black rounded-lg bg-white">
+            {isLoading ? (
+              <div className="p-8 flex justify-center text-sky-600"><Loader2 size={24} className="animate-spin" /></div>
+            ) : error ? (
+              <p className="p-6 text-sm font-bold text-red-700">{error}</p>
+            ) : visible.length === 0 ? (
+              <p className="p-6 text-sm font-bold text-gray-400 text-center">The cache is empty.</p>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="bg-sky-200 text-black text-xs font-black uppercase tracking-wider border-b-2 border-black sticky top-0">
+                  <tr>
+                    <th className="px-4 py-2">Text</th>
+                    <th className="px-4 py-2">Result</th>
+                    <th className="px-4 py-2">Engine</th>
+                    <th className="px-4 py-2">Cached</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y-2 divide-gray-200">
+                  {visible.map(entry => (
+                    <tr key={entry.key} className="align-top">
+                      <td className="px-4 py-2 font-medium text-black max-w-xs truncate" title={entry.text}>{entry.text}</td>
+                      <td className="px-4 py-2 font-bold whitespace-nowrap">{entry.output.sentiment} · {entry.output.emotionEmoji} {entry.output.emotion}</td>
+                      <td className="px-4 py-2 text-xs font-bold text-gray-600 whitespace-nowrap" title={`Prompt ${entry.promptVersion}`}>{entry.provider} · {entry.model}</td>
+                      <td className="px-4 py-2 text-xs font-bold text-gray-600 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          onClick={() => handleDelete(entry.key)}
+                          className="text-black hover:text-red-600 hover:bg-red-100 p-1 rounded-lg border-2 border-transparent hover:border-black transition-all"
+                          title="Remove from cache"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,10 +2,17 @@
 import React from 'react';
 import { 
   PieChart, Pie, Cell, Tooltip, ResponsiveContainer, Legend, 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, ScatterChart, Scatter, ZAxis 
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, ScatterChart, Scatter, ZAxis,
+  ComposedChart, Line, ReferenceDot
 } from 'recharts';
-import { AnalysisResult, SentimentType } from '../types';
+import { AnalysisResult, EmotionTaxonomy, SentimentType } from '../types';
 import { BarChart2 } from './Icons';
+import { emotionLabelsOf, mapEmotion } from '../services/emotionTaxonomy';
+import { UNDETERMINED_LANGUAGE, languageName } from '../services/languageDetection';
+import { ResultGroup } from '../services/metadata';
+import { TrendPoint } from '../services/sentimentTrend';
+import { CalibrationBin } from '../services/evaluation';
+import { ThemeStat } from '../services/themeClustering';
 
 interface Props {
   results: AnalysisResult[];
@@ -17,6 +24,8 @@ const COLORS = {
   [SentimentType.NEGATIVE]: '#dc2626', // Red 600
 };
 
+const MAX_SCATTER_POINTS = 1000;
+
 const CustomTooltip = ({ active, payload, label }: any) => {
   if (active && payload && payload.length) {
     return (
@@ -95,31 +104,32 @@ export const SentimentDistributionChart: React.FC<Props> = ({ results }) => {
   );
 };
 
-export const EmotionBarChart: React.FC<Props> = ({ results }) => {
+export const EmotionBarChart: React.FC<Props & { taxonomy: EmotionTaxonomy }> = ({ results, taxonomy }) => {
+  // Group by taxonomy label so "Frustration" and "Annoyance" don't fragment the chart
   const emotionCounts: Record<string, number> = {};
-  
+
   results.forEach(r => {
-    const emotion = r.emotion || 'Unknown';
-    emotionCounts[emotion] = (emotionCounts[emotion] || 0) + 1;
+    const { label } = mapEmotion(r.emotion, taxonomy);
+    emotionCounts[label] = (emotionCounts[label] || 0) + 1;
   });
 
-  const data = Object.entries(emotionCounts)
-    .map(([name, value]) => ({ name, value }))
-    .sort((a, b) => b.value - a.value)
-    .slice(0, 7);
+  const data = emotionLabelsOf(taxonomy)
+    .filter(l => emotionCounts[l.label])
+    .map(l => ({ name: `${l.emoji} ${l.label}`, value: emotionCounts[l.label] }))
+    .sort((a, b) => b.value - a.value);
 
   if (results.length === 0) return <EmptyChartPlaceholder />;
 
   return (
-    <div className="h-64 w-full font-sans">
+    <div className="w-full font-sans" style={{ height: Math.max(256, data.length * 32) }}>
       <ResponsiveContainer width="100%" height="100%">
         <BarChart data={data} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
           <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e5e7eb" />
-          <XAxis type="number" hide />
+          <XAxis type="number" hide allowDecimals={false} />
           <YAxis 
             dataKey="name" 
             type="category" 
-            width={100} 
+            width={120} 
             tick={{ fill: 'black', fontWeight: 'bold', fontSize: 12 }} 
             axisLine={false}
             tickLine={false}
@@ -140,8 +150,10 @@ export const ComparativeSentimentChart: React.FC<Props> = ({ results }) => {
   
   if (results.length === 0) return <EmptyChartPlaceholder />;
 
-  const data = results.map((r, index) => ({
-    index: index + 1,
+  // Large runs are thinned out evenly; thousands of SVG points add nothing but lag
+  const step = Math.max(1, Math.ceil(results.length / MAX_SCATTER_POINTS));
+  const data = results.filter((_, index) => index % step === 0).map((r, index) => ({
+    index: index * step + 1,
     confidence: r.confidence,
     sentiment: r.sentiment,
     text: r.text,
@@ -169,6 +181,192 @@ export const ComparativeSentimentChart: React.FC<Props> = ({ results }) => {
   );
 };
 
+type SentimentRow = { name: string; Positive: number; Neutral: number; Negative: number };
+
+const rowTotal = (row: SentimentRow) => row.Positive + row.Neutral + row.Negative;
+
+// Horizontal stacked bars with one row per group (aspect, language...)
+// With `onSelect`, clicking a row's bar reports its name; other rows fade while one is `selected`
+const SentimentStackChart = ({ data, selected, onSelect }: { data: SentimentRow[]; selected?: string | null; onSelect?: (name: string) => void }) => (
+  <div className="w-full font-sans" style={{ height: Math.max(256, data.length * 32 + 60) }}>
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={data} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e5e7eb" />
+        <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+        <YAxis 
+          dataKey="name" 
+          type="category" 
+          width={100} 
+          tick={{ fill: 'black', fontWeight: 'bold', fontSize: 12 }} 
+          axisLine={false}
+          tickLine={false}
+        />
+        <Tooltip content={<CustomTooltip />} />
+        <Legend verticalAlign="bottom" height={36} iconType="circle" />
+        {[SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE].map(sentiment => (
+          <Bar
+            key={sentiment}
+            dataKey={sentiment as string}
+            stackId="sentiment"
+            fill={COLORS[sentiment]}
+            stroke="black"
+            strokeWidth={2}
+            barSize={20}
+            cursor={onSelect ? 'pointer' : undefined}
+            onClick={onSelect ? (entry: any) => onSelect(entry.payload?.name ?? entry.name) : undefined}
+          >
+            {data.map(row => (
+              <Cell key={row.name} fillOpacity={selected && row.name !== selected ? 0.3 : 1} />
+            ))}
+          </Bar>
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+export const AspectSentimentChart: React.FC<Props> = ({ results }) => {
+  // Count each aspect mention by its own sentiment
+  const byAspect: Record<string, SentimentRow> = {};
+
+  results.forEach(r => {
+    (r.aspects || []).forEach(a => {
+      if (!byAspect[a.aspect]) byAspect[a.aspect] = { name: a.aspect, Positive: 0, Neutral: 0, Negative: 0 };
+      byAspect[a.aspect][a.sentiment]++;
+    });
+  });
+
+  const data = Object.values(byAspect).sort((a, b) => rowTotal(b) - rowTotal(a));
+
+  if (data.length === 0) return <EmptyChartPlaceholder />;
+
+  return <SentimentStackChart data={data} />;
+};
+
+export const LanguageSentimentChart: React.FC<Props> = ({ results }) => {
+  const byLanguage: Record<string, SentimentRow> = {};
+
+  results.forEach(r => {
+    const code = r.language || UNDETERMINED_LANGUAGE;
+    if (!byLanguage[code]) byLanguage[code] = { name: languageName(code), Positive: 0, Neutral: 0, Negative: 0 };
+    byLanguage[code][r.sentiment]++;
+  });
+
+  const data = Object.values(byLanguage).sort((a, b) => rowTotal(b) - rowTotal(a));
+
+  if (data.length === 0) return <EmptyChartPlaceholder />;
+
+  return <SentimentStackChart data={data} />;
+};
+
+// Groups arrive already ordered (chronologically for dates, by size otherwise)
+export const GroupSentimentChart: React.FC<{ groups: ResultGroup[] }> = ({ groups }) => {
+  const data: SentimentRow[] = groups.map(g => {
+    const row: SentimentRow = { name: g.label, Positive: 0, Neutral: 0, Negative: 0 };
+    g.results.forEach(r => { row[r.sentiment]++; });
+    return row;
+  });
+
+  if (data.length === 0) return <EmptyChartPlaceholder />;
+
+  return <SentimentStackChart data={data} />;
+};
+
+// Themes arrive largest first; clicking one filters the table to its members
+export const ThemeSentimentChart: React.FC<{ stats: ThemeStat[]; selected: string | null; onSelect: (name: string) => void }> = ({ stats, selected, onSelect }) => {
+  const data: SentimentRow[] = stats.map(({ name, Positive, Neutral, Negative }) => ({ name, Positive, Neutral, Negative }));
+
+  if (data.length === 0) return <EmptyChartPlaceholder />;
+
+  return <SentimentStackChart data={data} selected={selected} onSelect={onSelect} />;
+};
+
+const TrendTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const point: TrendPoint = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border-2 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] rounded-lg max-w-[240px]">
+        <p className="font-bold text-black mb-1">{point.label}</p>
+        <p className="text-xs font-bold text-gray-600 mb-1">{point.total} item{point.total === 1 ? '' : 's'}</p>
+        <p className="text-sm font-medium" style={{ color: COLORS[SentimentType.POSITIVE] }}>Positive: {point.positiveShare}%</p>
+        <p className="text-sm font-medium" style={{ color: COLORS[SentimentType.NEUTRAL] }}>Neutral: {point.neutralShare}%</p>
+        <p className="text-sm font-medium" style={{ color: COLORS[SentimentType.NEGATIVE] }}>Negative: {point.negativeShare}%</p>
+        <p className="text-sm font-medium text-sky-700">Avg. confidence: {point.avgConfidence}%</p>
+        <p className="text-sm font-medium text-black">Rolling negative: {point.rollingNegative}%</p>
+        {point.anomaly && <p className="mt-1 text-xs font-black text-red-700 uppercase">Negative spike</p>}
+      </div>
+    );
+  }
+  return null;
+};
+
+// Sentiment share per time bucket (stacked), with confidence, rolling negative share and spike markers
+export const SentimentTrendChart: React.FC<{ points: TrendPoint[] }> = ({ points }) => {
+  if (points.length === 0) return <EmptyChartPlaceholder />;
+
+  const labels = new Map<string, string>(points.map(p => [p.key, p.label]));
+
+  return (
+    <div className="h-80 w-full font-sans">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={points} margin={{ top: 20, right: 20, bottom: 5, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+          <XAxis dataKey="key" tickFormatter={(key: string) => labels.get(key) || key} tick={{ fontSize: 11 }} minTickGap={16} />
+          <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+          <Tooltip content={<TrendTooltip />} />
+          <Legend verticalAlign="bottom" height={36} iconType="circle" />
+          <Bar dataKey="positiveShare" name="Positive" stackId="share" fill={COLORS[SentimentType.POSITIVE]} stroke="black" strokeWidth={1} />
+          <Bar dataKey="neutralShare" name="Neutral" stackId="share" fill={COLORS[SentimentType.NEUTRAL]} stroke="black" strokeWidth={1} />
+          <Bar dataKey="negativeShare" name="Negative" stackId="share" fill={COLORS[SentimentType.NEGATIVE]} stroke="black" strokeWidth={1} />
+          <Line dataKey="avgConfidence" name="Avg. Confidence" stroke="#0ea5e9" strokeWidth={3} dot={false} type="monotone" />
+          <Line dataKey="rollingNegative" name="Rolling Negative" stroke="black" strokeWidth={3} strokeDasharray="6 3" dot={false} type="monotone" />
+          {/* Spikes are marked on top of their bar */}
+          {points.filter(p => p.anomaly).map(p => (
+            <ReferenceDot key={p.key} x={p.key} y={100} r={7} fill="#facc15" stroke="black" strokeWidth={2} />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const CalibrationTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const bin: CalibrationBin = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border-2 border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] rounded-lg max-w-[220px]">
+        <p className="font-bold text-black mb-1">Confidence {bin.label}</p>
+        <p className="text-xs font-bold text-gray-600 mb-1">{bin.count} item{bin.count === 1 ? '' : 's'}</p>
+        <p className="text-sm font-medium text-sky-700">Avg. confidence: {bin.avgConfidence}%</p>
+        <p className="text-sm font-medium text-black">Accuracy: {bin.accuracy}%</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+// Reliability diagram: in a well-calibrated model each bar reaches its confidence line
+export const CalibrationChart: React.FC<{ bins: CalibrationBin[] }> = ({ bins }) => {
+  const data = bins.filter(b => b.count > 0);
+  if (data.length === 0) return <EmptyChartPlaceholder />;
+
+  return (
+    <div className="h-72 w-full font-sans">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 20, bottom: 5, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+          <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+          <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+          <Tooltip content={<CalibrationTooltip />} />
+          <Legend verticalAlign="bottom" height={36} iconType="circle" />
+          <Bar dataKey="accuracy" name="Accuracy" fill="#86efac" stroke="black" strokeWidth={2} radius={[4, 4, 0, 0]} />
+          <Line dataKey="avgConfidence" name="Avg. Confidence" stroke="#0ea5e9" strokeWidth={3} type="monotone" />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
 const EmptyChartPlaceholder = () => (
   <div className="h-64 flex flex-col items-center justify-center text-gray-400 font-bold bg-white rounded-xl border-2 border-dashed border-gray-300">
     <BarChart2 size={32} className="mb-2 opacity-50" />
@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalysisResult, EmotionTaxonomy, MetadataField } from '../types';
+import { BinaryMetrics, EvaluationConfig, LabelMetrics, SENTIMENT_SCALES, SentimentScale, evaluateResults, guessEvaluationConfig } from '../services/evaluation';
+import { CalibrationChart } from './Charts';
+import { Target } from './Icons';
+
+interface Props {
+  results: AnalysisResult[];
+  metadataFields: MetadataField[];
+  taxonomy: EmotionTaxonomy;
+}
+
+const MAX_MISCLASSIFIED = 50;
+
+const selectClass = 'px-2 py-1 rounded-lg text-xs font-bold border-2 border-black bg-white text-black outline-none focus:ring-2 focus:ring-sky-500';
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const Metric: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="px-4 py-3 bg-sky-50 border-2 border-black rounded-lg" title={hint}>
+    <p className="text-[10px] font-black uppercase tracking-wider text-gray-600">{label}</p>
+    <p className="text-2xl font-black text-black font-mono">{value}</p>
+  </div>
+);
+
+const ClassTable: React.FC<{ metrics: LabelMetrics }> = ({ metrics }) => (
+  <div className="overflow-x-auto border-2 border-black rounded-lg">
+    <table className="w-full text-left text-sm">
+      <thead className="bg-sky-200 text-black text-xs font-black uppercase tracking-wider border-b-2 border-black">
+        <tr>
+          <th className="px-4 py-2">Class</th>
+          <th className="px-4 py-2 text-right">Precision</th>
+          <th className="px-4 py-2 text-right">Recall</th>
+          <th className="px-4 py-2 text-right">F1</th>
+          <th className="px-4 py-2 text-right">Support</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y-2 divide-gray-200">
+        {metrics.classes.map(c => (
+          <tr key={c.label}>
+            <td className="px-4 py-2 font-bold text-black">{c.label}</td>
+            <td className="px-4 py-2 text-right font-mono font-bold">{pct(c.precision)}</td>
+            <td className="px-4 py-2 text-right font-mono font-bold">{pct(c.recall)}</td>
+            <td className="px-4 py-2 text-right font-mono font-bold">{pct(c.f1)}</td>
+            <td className="px-4 py-2 text-right font-mono font-bold">{c.support}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Rows are the ground truth, columns the prediction; cell shading grows with the row share
+const ConfusionTable: React.FC<{ metrics: LabelMetrics }> = ({ metrics }) => {
+  const { labels, counts } = metrics.confusion;
+  return (
+    <div className="overflow-x-auto border-2 border-black rounded-lg">
+      <table className="text-sm">
+        <thead className="bg-sky-200 text-black text-xs font-black uppercase tracking-wider border-b-2 border-black">
+          <tr>
+            <th className="px-3 py-2 text-left normal-case">Actual ↓ / Predicted →</th>
+            {labels.map(label => <th key={label} className="px-3 py-2 text-right">{label}</th>)}
+          </tr>
+        </thead>
+        <tbody className="divide-y-2 divide-gray-200">
+          {labels.map((label, row) => {
+            const total = counts[row].reduce((acc, n) => acc + n, 0);
+            return (
+              <tr key={label}>
+                <td className="px-3 py-2 font-bold text-black">{label}</td>
+                {counts[row].map((count, col) => {
+                  const share = total > 0 ? count / total : 0;
+                  const color = row === col ? '22, 163, 74' : '220, 38, 38';
+                  return (
+                    <td
+                      key={labels[col]}
+                      className="px-3 py-2 text-right font-mono font-bold"
+                      style={{ backgroundColor: count > 0 ? `rgba(${color}, ${0.1 + share * 0.6})` : undefined }}
+                      title={`${count} of ${total} ${label} predicted as ${labels[col]}`}
+                    >
+                      {count}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const SarcasmMetrics: React.FC<{ metrics: BinaryMetrics }> = ({ metrics }) => (
+  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+    <Metric label="Accuracy" value={pct(metrics.accuracy)} />
+    <Metric label="Precision" value={pct(metrics.precision)} hint="Of the texts flagged sarcastic, how many were" />
+    <Metric label="Recall" value={pct(metrics.recall)} hint="Of the sarcastic texts, how many were flagged" />
+    <Metric label="F1" value={pct(metrics.f1)} />
+    <p className="col-span-2 md:col-span-4 text-xs font-bold text-gray-600">
+      {metrics.truePositive} caught · {metrics.falseNegative} missed · {metrics.falsePositive} false alarms · {metrics.trueNegative} correctly not flagged
+    </p>
+  </div>
+);
+
+/**
+ * Measures the engine against a labeled dataset: import it with the
+ * ground-truth columns kept as metadata, then point the panel at them.
+ */
+export const EvaluationPanel: React.FC<Props> = ({ results, metadataFields, taxonomy }) => {
+  const [config, setConfig] = useState<EvaluationConfig>(() => guessEvaluationConfig(metadataFields));
+
+  // A new import (or workspace) may bring different columns; fall back to a fresh guess for missing ones
+  useEffect(() => {
+    const keys = metadataFields.map(f => f.key);
+    setConfig(prev => {
+      const guess = guessEvaluationConfig(metadataFields);
+      return {
+        sentimentKey: keys.includes(prev.sentimentKey) ? prev.sentimentKey : guess.sentimentKey,
+        sentimentScale: keys.includes(prev.sentimentKey) ? prev.sentimentScale : guess.sentimentScale,
+        emotionKey: prev.emotionKey && keys.includes(prev.emotionKey) ? prev.emotionKey : guess.emotionKey,
+        sarcasmKey: prev.sarcasmKey && keys.includes(prev.sarcasmKey) ? prev.sarcasmKey : guess.sarcasmKey,
+      };
+    });
+  }, [metadataFields]);
+
+  const report = useMemo(
+    () => config.sentimentKey ? evaluateResults(results, config, taxonomy) : null,
+    [results, config, taxonomy]
+  );
+
+  const columnSelect = (label: string, value: string | null, onChange: (key: string | null) => void, optional: boolean) => (
+    <label className="flex items-center gap-2 text-xs font-bold text-black">
+      {label}
+      <select value={value || ''} onChange={(e) => onChange(e.target.value || null)} className={selectClass}>
+        <option value="">{optional ? 'Not labeled' : 'Choose column'}</option>
+        {metadataFields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+      </select>
+    </label>
+  );
+
+  const sentiment = report?.sentiment;
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] lg:col-span-2 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-extrabold text-black flex items-center gap-2">
+          <Target size={20} /> Evaluation
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 no-print">
+          {columnSelect('Sentiment truth', config.sentimentKey, key => setConfig(prev => ({ ...prev, sentimentKey: key || '', sentimentScale: 'auto' })), false)}
+          <label className="flex items-center gap-2 text-xs font-bold text-black">
+            Numeric labels
+            <select
+              value={config.sentimentScale}
+              onChange={(e) => setConfig(prev => ({ ...prev, sentimentScale: e.target.value as SentimentScale }))}
+              className={selectClass}
+            >
+              {SENTIMENT_SCALES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+          </label>
+          {columnSelect('Emotion truth', config.emotionKey, key => setConfig(prev => ({ ...prev, emotionKey: key })), true)}
+          {columnSelect('Sarcasm truth', config.sarcasmKey, key => setConfig(prev => ({ ...prev, sarcasmKey: key })), true)}
+        </div>
+      </div>
+
+      {!report || !sentiment || sentiment.evaluated === 0 ? (
+        <p className="text-sm font-bold text-gray-500">
+          Import a labeled CSV keeping its ground-truth columns as metadata, then choose the column holding the expected sentiment
+          (positive / neutral / negative, -1 / 0 / 1, or 0 / 1 for negative / positive).
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Metric label="Accuracy" value={pct(sentiment.accuracy)} />
+            <Metric label="Macro F1" value={pct(sentiment.macroF1)} hint="Average F1 over the classes present in the labels" />
+            <Metric label="Calibration error" value={`${report.expectedCalibrationError.toFixed(1)} pts`} hint="Gap between confidence and accuracy, weighted by bin size (ECE)" />
+            <Metric label="Evaluated" value={sentiment.evaluated.toLocaleString()} hint={report.skipped > 0 ? `${report.skipped} results had no readable label` : undefined} />
+          </div>
+          {config.sentimentScale === 'auto' && report.sentimentScale === 'binary' && (
+            <p className="text-xs font-bold text-gray-500">The sentiment column only holds 0 and 1, so 0 is read as negative and 1 as positive. Change Numeric labels if 0 means neutral.</p>
+          )}
+          {report.skipped > 0 && (
+            <p className="text-xs font-bold text-gray-500">{report.skipped} result{report.skipped === 1 ? '' : 's'} without a readable label {report.skipped === 1 ? 'was' : 'were'} left out.</p>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <h4 className="text-sm font-black uppercase tracking-wider text-black">Per class</h4>
+              <ClassTable metrics={sentiment} />
+            </div>
+            <div className="space-y-2">
+              <h4 className="text-sm font-black uppercase tracking-wider text-black">Confusion matrix</h4>
+              <ConfusionTable metrics={sentiment} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-black uppercase tracking-wider text-black">Confidence calibration</h4>
+            <CalibrationChart bins={report.calibration} />
+          </div>
+
+          {report.emotion && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-black uppercase tracking-wider text-black">
+                Emotion · {pct(report.emotion.accuracy)} accuracy · {pct(report.emotion.macroF1)} macro F1 ({report.emotion.evaluated} labeled)
+              </h4>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <ClassTable metrics={report.emotion} />
+                <ConfusionTable metrics={report.emotion} />
+              </div>
+            </div>
+          )}
+
+          {report.sarcasm && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-black uppercase tracking-wider text-black">Sarcasm detection ({report.sarcasm.evaluated} labeled)</h4>
+              <SarcasmMetrics metrics={report.sarcasm} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-black uppercase tracking-wider text-black">
+              Misclassified ({report.misclassified.length}) · most confident first
+            </h4>
+            {report.misclassified.length === 0 ? (
+              <p className="text-sm font-bold text-green-700">Every labeled sentiment was predicted correctly.</p>
+            ) : (
+              <ul className="divide-y-2 divide-gray-200 border-2 border-black rounded-lg max-h-96 overflow-y-auto">
+                {report.misclassified.slice(0, MAX_MISCLASSIFIED).map(({ result, expected, predicted }) => (
+                  <li key={result.id} className="px-4 py-2 text-sm">
+                    <p className="text-black font-medium">{result.text}</p>
+                    <p className="text-xs font-bold text-gray-600 mt-1">
+                      expected <span className="text-green-700">{expected}</span> · predicted <span className="text-red-600">{predicted}</span> at {(result.confidence * 100).toFixed(0)}%
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {report.misclassified.length > MAX_MISCLASSIFIED && (
+              <p className="text-xs font-bold text-gray-500">
+                Showing the first {MAX_MISCLASSIFIED}; filter the table by the truth column to see the rest.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download } from './Icons';
+import { MetadataField } from '../types';
+import { EXPORT_FORMATS, ExportOptions, exportColumns, loadExportOptions } from '../services/tableExport';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  metadataFields: MetadataField[];
+  totalCount: number;    // All results
+  filteredCount: number; // Results matching the dashboard filters
+  onClose: () => void;
+  onExport: (options: ExportOptions) => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, metadataFields, totalCount, filteredCount, onClose, onExport }) => {
+  const [options, setOptions] = useState<ExportOptions>(() => loadExportOptions(metadataFields));
+
+  // Reopening picks up the last used options and any newly imported columns
+  useEffect(() => {
+    if (isOpen) setOptions(loadExportOptions(metadataFields));
+  }, [isOpen, metadataFields]);
+
+  if (!isOpen) return null;
+
+  const columns = exportColumns(metadataFields);
+  const selected = new Set<string>(options.columns);
+  const toggleColumn = (id: string) => {
+    const next = selected.has(id) ? options.columns.filter(c => c !== id) : [...options.columns, id];
+    // Output follows the order of the list, not the order of clicking
+    setOptions({ ...options, columns: columns.map(c => c.id).filter(c => next.includes(c)) });
+  };
+  const spreadsheet = options.format === 'csv' || options.format === 'tsv';
+  const rowCount = options.filteredOnly ? filteredCount : totalCount;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-sky-900/50 backdrop-blur-sm p-4">
+      <div className="bg-sky-50 rounded-xl shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-2xl overflow-hidden animate-in fade-in zoom-in duration-200 border-2 border-black">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6 border-b-2 border-black pb-4">
+            <h2 className="text-xl font-black text-black">Export Results</h2>
+            <button onClick={onClose} className="text-black hover:bg-sky-200 p-1 rounded transition-colors border-2 border-transparent hover:border-black">
+              <X size={24} />
+            </button>
+          </div>
+
+          <div className="space-y-5">
+            <div>
+              <p className="text-xs font-black uppercase tracking-wider text-gray-600 mb-2">Format</p>
+              <div className="flex flex-wrap gap-2">
+                {EXPORT_FORMATS.map(format => (
+                  <button
+                    key={format.value}
+                    onClick={() => setOptions({ ...options, format: format.value })}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-bold border-2 border-black transition-all ${options.format === format.value ? 'bg-black text-white' : 'bg-white text-black hover:bg-sky-200'}`}
+                  >
+                    {format.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-black uppercase tracking-wider text-gray-600">Columns ({options.columns.length})</p>
+                <div className="flex gap-3 text-xs font-bold">
+                  <button onClick={() => setOptions({ ...options, columns: columns.map(c => c.id) })} className="text-sky-700 hover:underline">All</button>
+                  <button onClick={() => setOptions({ ...options, columns: [] })} className="text-sky-700 hover:underline">None</button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-1 max-h-56 overflow-y-auto p-2 bg-white border-2 border-black rounded-lg">
+                {columns.map(column => (
+                  <label key={column.id} className="flex items-center gap-2 px-2 py-1 text-sm font-bold text-black rounded hover:bg-sky-50 cursor-pointer">
+                    <input type="checkbox" checked={selected.has(column.id)} onChange={() => toggleColumn(column.id)} className="w-4 h-4 accent-sky-500" />
+                    <span className="truncate">{column.label}</span>
+                    {column.id.startsWith('meta:') && <span className="text-[10px] font-black uppercase text-gray-400">meta</span>}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm font-bold text-black cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.filteredOnly}
+                  onChange={(e) => setOptions({ ...options, filteredOnly: e.target.checked })}
+                  className="w-4 h-4 accent-sky-500"
+                />
+                Only rows matching the current filters ({filteredCount.toLocaleString()} of {totalCount.toLocaleString()})
+              </label>
+              <label className={`flex items-center gap-2 text-sm font-bold cursor-pointer ${spreadsheet ? 'text-black' : 'text-gray-400'}`}>
+                <input
+                  type="checkbox"
+                  checked={options.bom}
+                  disabled={!spreadsheet}
+                  onChange={(e) => setOptions({ ...options, bom: e.target.checked })}
+                  className="w-4 h-4 accent-sky-500"
+                />
+                Add a UTF-8 byte order mark (helps Excel show accents and emoji)
+              </label>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-8">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-black hover:bg-sky-200 rounded-lg border-2 border-transparent hover:border-black">
+              Cancel
+            </button>
+            <button
+              onClick={() => onExport(options)}
+              disabled={options.columns.length === 0 || rowCount === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-sky-400 border-2 border-black text-black rounded-lg text-sm font-bold hover:bg-sky-300 disabled:opacity-50 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+            >
+              <Download size={16} /> Export {rowCount.toLocaleString()} {rowCount === 1 ? 'row' : 'rows'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { EmotionTaxonomy, FilterCondition, FilterField, FilterPreset, MetadataField, ResultFilters, SentimentType } from '../types';
+import { OPERATORS, FilterFieldOption, countActiveFilters, createCondition, filterFieldOptions } from '../services/resultFilters';
+import { emotionLabelsOf } from '../services/emotionTaxonomy';
+import { languageName } from '../services/languageDetection';
+import { SlidersHorizontal, Plus, Trash2, Save, Link, X } from './Icons';
+
+interface Props {
+  filters: ResultFilters;
+  metadataFields: MetadataField[];
+  taxonomy: EmotionTaxonomy;
+  languages: string[]; // Language codes present in the results
+  themes: string[];    // Names of the discovered themes
+  presets: FilterPreset[];
+  matchCount: number;
+  onChange: (filters: ResultFilters) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  onCopyLink: () => void;
+}
+
+const inputClass = 'px-2 py-1 border-2 border-black rounded-lg text-xs font-bold bg-white text-black outline-none focus:ring-2 focus:ring-sky-500';
+
+export const FilterBuilder: React.FC<Props> = ({
+  filters, metadataFields, taxonomy, languages, themes, presets, matchCount, onChange, onSavePreset, onDeletePreset, onCopyLink,
+}) => {
+  const [presetName, setPresetName] = useState('');
+  const options = filterFieldOptions(metadataFields);
+  const optionFor = (field: FilterField): FilterFieldOption =>
+    options.find(o => o.field === field) || { field, label: field, kind: 'text' };
+
+  const { advanced } = filters;
+  const setConditions = (conditions: FilterCondition[]) => onChange({ ...filters, advanced: { ...advanced, conditions } });
+  const updateCondition = (id: string, change: Partial<FilterCondition>) =>
+    setConditions(advanced.conditions.map(c => c.id === id ? { ...c, ...change } : c));
+
+  // Switching the field resets operator and value to what the new field accepts
+  const changeField = (id: string, field: FilterField) => {
+    const fresh = createCondition(optionFor(field));
+    setConditions(advanced.conditions.map(c => c.id === id ? { ...fresh, id } : c));
+  };
+
+  const choicesFor = (field: FilterField): { value: string; label: string }[] => {
+    switch (field) {
+      case 'sentiment': return Object.values(SentimentType).map(s => ({ value: s, label: s }));
+      case 'emotion': return emotionLabelsOf(taxonomy).map(l => ({ value: l.label, label: `${l.emoji} ${l.label}` }));
+      case 'language': return languages.map(code => ({ value: code, label: languageName(code) }));
+      case 'theme': return themes.map(name => ({ value: name, label: name }));
+      default: return [];
+    }
+  };
+
+  const renderValue = (condition: FilterCondition) => {
+    const { kind } = optionFor(condition.field);
+    switch (kind) {
+      case 'choice':
+        return (
+          <select value={condition.value} onChange={(e) => updateCondition(condition.id, { value: e.target.value })} className={inputClass}>
+            <option value="">Any</option>
+            {choicesFor(condition.field).map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+          </select>
+        );
+      case 'flag':
+        return (
+          <select value={condition.value} onChange={(e) => updateCondition(condition.id, { value: e.target.value })} className={inputClass}>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        );
+      case 'range':
+      case 'date': {
+        const type = kind === 'date' ? 'date' : 'number';
+        return (
+          <span className="flex items-center gap-1">
+            <input type={type} value={condition.value} placeholder="min" onChange={(e) => updateCondition(condition.id, { value: e.target.value })} className={`${inputClass} w-28`} />
+            <span className="text-xs font-bold">and</span>
+            <input type={type} value={condition.valueTo || ''} placeholder="max" onChange={(e) => updateCondition(condition.id, { valueTo: e.target.value })} className={`${inputClass} w-28`} />
+          </span>
+        );
+      }
+      default:
+        return (
+          <input
+            type="text"
+            value={condition.value}
+            placeholder="value"
+            onChange={(e) => updateCondition(condition.id, { value: e.target.value })}
+            className={`${inputClass} w-40`}
+          />
+        );
+    }
+  };
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <details className="bg-white rounded-xl border-2 border-black no-print" open={advanced.conditions.length > 0 || undefined}>
+      <summary className="px-4 py-3 cursor-pointer text-sm font-extrabold text-black flex items-center gap-2">
+        <SlidersHorizontal size={16} /> Advanced Filters
+        {activeCount > 0 && <span className="text-xs font-bold text-gray-500">({activeCount} active · {matchCount.toLocaleString()} matching)</span>}
+      </summary>
+      <div className="px-4 pb-4 pt-3 border-t-2 border-black space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs font-bold text-black">
+          Match
+          <select
+            value={advanced.match}
+            onChange={(e) => onChange({ ...filters, advanced: { ...advanced, match: e.target.value as 'all' | 'any' } })}
+            className={inputClass}
+          >
+            <option value="all">all (AND)</option>
+            <option value="any">any (OR)</option>
+          </select>
+          of these conditions, together with the quick filters above.
+        </div>
+
+        {advanced.conditions.map(condition => {
+          const option = optionFor(condition.field);
+          return (
+            <div key={condition.id} className="flex flex-wrap items-center gap-2">
+              <select value={condition.field} onChange={(e) => changeField(condition.id, e.target.value as FilterField)} className={inputClass}>
+                {options.map(o => <option key={o.field} value={o.field}>{o.label}</option>)}
+              </select>
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(condition.id, { operator: e.target.value as FilterCondition['operator'] })}
+                className={inputClass}
+              >
+                {OPERATORS[option.kind].map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+              </select>
+              {renderValue(condition)}
+              <button
+                onClick={() => setConditions(advanced.conditions.filter(c => c.id !== condition.id))}
+                className="p-1 rounded border-2 border-transparent hover:border-black hover:text-red-600"
+                title="Remove condition"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => setConditions([...advanced.conditions, createCondition(options[0])])}
+            className="flex items-center gap-1 px-3 py-1 bg-white border-2 border-black rounded-lg text-xs font-bold hover:bg-sky-100"
+          >
+            <Plus size={14} /> Add condition
+          </button>
+          {advanced.conditions.length > 0 && (
+            <button
+              onClick={() => setConditions([])}
+              className="flex items-center gap-1 px-3 py-1 bg-white border-2 border-black rounded-lg text-xs font-bold hover:bg-red-50"
+            >
+              <X size={14} /> Clear conditions
+            </button>
+          )}
+          <label className="flex items-center gap-2 ml-auto text-xs font-bold text-black cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters.applyToStats}
+              onChange={(e) => onChange({ ...filters, applyToStats: e.target.checked })}
+              className="w-4 h-4 accent-sky-500"
+            />
+            Stats & charts follow the filter
+          </label>
+        </div>
+
+        {/* Presets & sharing */}
+        <div className="flex flex-wrap items-center gap-2 pt-3 border-t-2 border-gray-200">
+          {presets.map(preset => (
+            <span key={preset.id} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 bg-sky-100 border-2 border-black rounded-lg text-xs font-bold">
+              <button onClick={() => onChange(preset.filters)} title="Apply preset">{preset.name}</button>
+              <button onClick={() => onDeletePreset(preset.id)} className="hover:text-red-600" title="Delete preset"><X size={12} /></button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') savePreset(); }}
+            placeholder="Preset name"
+            className={`${inputClass} w-36`}
+          />
+          <button
+            onClick={savePreset}
+            disabled={!presetName.trim()}
+            className="flex items-center gap-1 px-3 py-1 bg-white border-2 border-black rounded-lg text-xs font-bold hover:bg-sky-100 disabled:opacity-50"
+          >
+            <Save size={14} /> Save preset
+          </button>
+          <button
+            onClick={onCopyLink}
+            className="flex items-center gap-1 px-3 py-1 bg-white border-2 border-black rounded-lg text-xs font-bold hover:bg-sky-100"
+            title="Copy a link to this filtered view"
+          >
+            <Link size={14} /> Copy link
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { SentimentType } from '../types';
+import { ResultGroup } from '../services/metadata';
+
+interface Props {
+  groups: ResultGroup[];
+}
+
+const percent = (count: number, total: number) => total > 0 ? `${(count / total * 100).toFixed(0)}%` : '0%';
+
+export const GroupedStats: React.FC<Props> = ({ groups }) => (
+  <div className="overflow-x-auto border-2 border-black rounded-lg">
+    <table className="w-full text-left text-sm">
+      <thead className="bg-sky-200 text-black text-xs font-black uppercase tracking-wider border-b-2 border-black">
+        <tr>
+          <th className="px-4 py-2">Group</th>
+          <th className="px-4 py-2 text-right">Items</th>
+          <th className="px-4 py-2 text-right">Positive</th>
+          <th className="px-4 py-2 text-right">Negative</th>
+          <th className="px-4 py-2 text-right">Avg. Confidence</th>
+          <th className="px-4 py-2 text-right">Sarcasm</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y-2 divide-gray-200">
+        {groups.map(group => {
+          const total = group.results.length;
+          const count = (sentiment: SentimentType) => group.results.filter(r => r.sentiment === sentiment).length;
+          const confidence = group.results.reduce((acc, r) => acc + r.confidence, 0) / Math.max(1, total);
+          return (
+            <tr key={group.key}>
+              <td className="px-4 py-2 font-bold text-black">{group.label}</td>
+              <td className="px-4 py-2 text-right font-mono font-bold">{total}</td>
+              <td className="px-4 py-2 text-right font-mono font-bold text-green-700">{percent(count(SentimentType.POSITIVE), total)}</td>
+              <td className="px-4 py-2 text-right font-mono font-bold text-red-600">{percent(count(SentimentType.NEGATIVE), total)}</td>
+              <td className="px-4 py-2 text-right font-mono font-bold">{(confidence * 100).toFixed(0)}%</td>
+              <td className="px-4 py-2 text-right font-mono font-bold text-purple-700">{group.results.filter(r => r.isSarcastic).length}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
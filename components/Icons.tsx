@@ -19,7 +19,31 @@ import {
   RefreshCw,
   Sparkles,
   Zap,
-  Copy
+  Copy,
+  Pause,
+  Play,
+  Square,
+  Database,
+  Plus,
+  Pencil,
+  FolderOpen,
+  History,
+  Check,
+  Columns3,
+  Layers,
+  TrendingUp,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  SlidersHorizontal,
+  Save,
+  Link,
+  Undo2,
+  UserCheck,
+  Target,
+  Printer,
+  Tags,
+  Hash
 } from "lucide-react";
 
 export {
@@ -42,5 +66,29 @@ export {
   RefreshCw,
   Sparkles,
   Zap,
-  Copy
+  Copy,
+  Pause,
+  Play,
+  Square,
+  Database,
+  Plus,
+  Pencil,
+  FolderOpen,
+  History,
+  Check,
+  Columns3,
+  Layers,
+  TrendingUp,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  SlidersHorizontal,
+  Save,
+  Link,
+  Undo2,
+  UserCheck,
+  Target,
+  Printer,
+  Tags,
+  Hash
 };
@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Upload, AlertCircle, Loader2 } from './Icons';
+import {
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  CsvDelimiter,
+  CsvEncoding,
+  decodeText,
+  detectDelimiter,
+  CsvParseResult,
+  guessTextColumn,
+  parseCsv,
+  selectRows,
+  toTable,
+} from '../services/csvParser';
+import { METADATA_TYPES, inferMetadataType } from '../services/metadata';
+import { CsvIngestConfig } from '../services/csvIngest';
+import { MetadataField, MetadataType } from '../types';
+
+interface ImportDialogProps {
+  file: File | null; // The dialog is open while a file is set
+  onCancel: () => void;
+  onImport: (file: File, config: CsvIngestConfig, fields: MetadataField[]) => void;
+}
+
+// How one non-text column is carried into the results
+interface ColumnMapping {
+  include: boolean;
+  type: MetadataType;
+}
+
+const PREVIEW_ROWS = 5;
+const MAX_REPORTED_PROBLEMS = 50;
+const SAMPLE_BYTES = 1024 * 1024; // Settings are worked out on the head of the file; the rest is streamed
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ file, onCancel, onImport }) => {
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [encoding, setEncoding] = useState<CsvEncoding | 'auto'>('auto');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter | 'auto'>('auto');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [textColumn, setTextColumn] = useState<number | null>(null); // null = best guess
+  const [mappingOverrides, setMappingOverrides] = useState<Record<number, ColumnMapping>>({});
+
+  // Every new file starts from auto-detection
+  useEffect(() => {
+    setBuffer(null);
+    setReadError(null);
+    setEncoding('auto');
+    setDelimiter('auto');
+    setHasHeader(true);
+    setTextColumn(null);
+    setMappingOverrides({});
+    if (!file) return;
+    file.slice(0, SAMPLE_BYTES).arrayBuffer()
+      .then(setBuffer)
+      .catch(() => setReadError('The file could not be read.'));
+  }, [file]);
+
+  const isSample = !!file && file.size > SAMPLE_BYTES;
+  const decoded = useMemo(
+    () => buffer ? decodeText(buffer, encoding === 'auto' ? undefined : encoding, isSample) : null,
+    [buffer, encoding, isSample]
+  );
+  const activeDelimiter = useMemo(
+    () => delimiter !== 'auto' ? delimiter : decoded ? detectDelimiter(decoded.text) : ',',
+    [decoded, delimiter]
+  );
+  const parsed = useMemo((): CsvParseResult | null => {
+    if (!decoded) return null;
+    const result = parseCsv(decoded.text, activeDelimiter);
+    // The last row of a sample is usually cut off mid-record
+    if (!isSample) return result;
+    const lastLine = result.lines[result.lines.length - 1];
+    return {
+      rows: result.rows.slice(0, -1),
+      lines: result.lines.slice(0, -1),
+      malformed: result.malformed.filter(m => m.line < lastLine),
+    };
+  }, [decoded, activeDelimiter, isSample]);
+  const table = useMemo(() => parsed ? toTable(parsed, hasHeader) : null, [parsed, hasHeader]);
+  const column = table ? Math.min(textColumn ?? guessTextColumn(table), Math.max(0, table.headers.length - 1)) : 0;
+  const selection = useMemo(() => table ? selectRows(table, column) : null, [table, column]);
+
+  // Every other column is kept as metadata by default, with an inferred type
+  const inferredTypes = useMemo(
+    () => table ? table.headers.map((_, idx) => inferMetadataType(table.rows.map(r => r[idx] || ''))) : [],
+    [table]
+  );
+  const mappingFor = (idx: number): ColumnMapping => mappingOverrides[idx] || { include: true, type: inferredTypes[idx] || 'string' };
+  const updateMapping = (idx: number, change: Partial<ColumnMapping>) =>
+    setMappingOverrides(prev => ({ ...prev, [idx]: { ...mappingFor(idx), ...change } }));
+
+  const handleImport = () => {
+    if (!file || !table || !decoded) return;
+    const columns = table.headers
+      .map((header, index) => ({ index, field: { key: header, label: header, type: mappingFor(index).type } }))
+      .filter(({ index }) => index !== column && mappingFor(index).include);
+    onImport(file, {
+      format: 'csv',
+      encoding: decoded.encoding,
+      delimiter: activeDelimiter,
+      hasHeader,
+      textColumn: column,
+      width: table.headers.length,
+      columns,
+    }, columns.map(c => c.field));
+  };
+
+  if (!file) return null;
+
+  const problems = [...(parsed?.malformed || []), ...(selection?.skipped || [])].sort((a, b) => a.line - b.line);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-sky-900/50 backdrop-blur-sm p-4">
+      <div className="bg-sky-50 rounded-xl shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-4xl max-h-[90vh] overflow-y-auto animate-in fade-in zoom-in duration-200 border-2 border-black">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6 border-b-2 border-black pb-4">
+            <h2 className="text-xl font-black text-black truncate">Import {file.name}</h2>
+            <button onClick={onCancel} className="text-black hover:bg-sky-200 p-1 rounded transition-colors border-2 border-transparent hover:border-black">
+              <X size={24} />
+            </button>
+          </div>
+
+          {readError ? (
+            <p className="text-sm font-bold text-red-700">{readError}</p>
+          ) : !table || !selection ? (
+            <div className="p-8 flex justify-center text-sky-600"><Loader2 size={24} className="animate-spin" /></div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-4">
+                <label className="text-xs font-bold text-black">
+                  Delimiter
+                  <select
+                    value={delimiter}
+                    onChange={(e) => setDelimiter(e.target.value as CsvDelimiter | 'auto')}
+                    className="mt-1 w-full px-2 py-1.5 border-2 border-black rounded-lg text-sm font-medium bg-white outline-none focus:ring-2 focus:ring-sky-500"
+                  >
+                    <option value="auto">Auto ({CSV_DELIMITERS.find(d => d.value === activeDelimiter)?.label})</option>
+                    {CSV_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                  </select>
+                </label>
+                <label className="text-xs font-bold text-black">
+                  Encoding
+                  <select
+                    value={encoding}
+                    onChange={(e) => setEncoding(e.target.value as CsvEncoding | 'auto')}
+                    className="mt-1 w-full px-2 py-1.5 border-2 border-black rounded-lg text-sm font-medium bg-white outline-none focus:ring-2 focus:ring-sky-500"
+                  >
+                    <option value="auto">Auto ({CSV_ENCODINGS.find(e => e.value === decoded?.encoding)?.label})</option>
+                    {CSV_ENCODINGS.map(e => <option key={e.value} value={e.value}>{e.label}</option>)}
+                  </select>
+                </label>
+                <label className="text-xs font-bold text-black">
+                  Text column
+                  <select
+                    value={column}
+                    onChange={(e) => setTextColumn(Number(e.target.value))}
+                    className="mt-1 w-full px-2 py-1.5 border-2 border-black rounded-lg text-sm font-medium bg-white outline-none focus:ring-2 focus:ring-sky-500"
+                  >
+                    {table.headers.map((header, idx) => <option key={idx} value={idx}>{header}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-xs font-bold text-black sm:mt-5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={hasHeader}
+                    onChange={(e) => setHasHeader(e.target.checked)}
+                    className="w-4 h-4 accent-sky-500"
+                  />
+                  First row is a header
+                </label>
+              </div>
+
+              {/* Preview */}
+              <div className="overflow-x-auto border-2 border-black rounded-lg bg-white mb-4">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-sky-200 text-black font-black uppercase tracking-wider border-b-2 border-black">
+                    <tr>
+                      {table.headers.map((header, idx) => (
+                        <th key={idx} className={`px-3 py-2 whitespace-nowrap ${idx === column ? 'bg-sky-400' : ''}`}>{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y-2 divide-gray-200">
+                    {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIdx) => (
+                      <tr key={rowIdx} className="align-top">
+                        {table.headers.map((_, idx) => (
+                          <td key={idx} className={`px-3 py-2 font-medium max-w-xs truncate ${idx === column ? 'bg-sky-50 font-bold' : ''}`} title={row[idx]}>
+                            {row[idx] ?? ''}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Metadata columns */}
+              {table.headers.length > 1 && (
+                <div className="mb-4">
+                  <h3 className="text-xs font-black text-black uppercase tracking-wider mb-2">Keep as metadata</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                    {table.headers.map((header, idx) => idx === column ? null : (
+                      <div key={idx} className="flex items-center gap-2 px-2 py-1.5 bg-white border-2 border-black rounded-lg">
+                        <label className="flex-1 min-w-0 flex items-center gap-2 text-xs font-bold text-black cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={mappingFor(idx).include}
+                            onChange={(e) => updateMapping(idx, { include: e.target.checked })}
+                            className="w-4 h-4 accent-sky-500"
+                          />
+                          <span className="truncate" title={header}>{header}</span>
+                        </label>
+                        <select
+                          value={mappingFor(idx).type}
+                          onChange={(e) => updateMapping(idx, { type: e.target.value as MetadataType })}
+                          disabled={!mappingFor(idx).include}
+                          className="px-1 py-0.5 border-2 border-black rounded text-xs font-medium bg-white outline-none disabled:opacity-50"
+                        >
+                          {METADATA_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Report */}
+              <p className="text-sm font-bold text-black mb-2">
+                {isSample && <span className="text-sky-700">In the first {formatSize(SAMPLE_BYTES)} of {formatSize(file.size)}: </span>}
+                {selection.selected.length} row{selection.selected.length === 1 ? '' : 's'} ready to analyze
+                {selection.skipped.length > 0 && <span className="text-red-700"> · {selection.skipped.length} skipped</span>}
+                {parsed && parsed.malformed.length > 0 && <span className="text-orange-700"> · {parsed.malformed.length} formatting issue{parsed.malformed.length === 1 ? '' : 's'}</span>}
+              </p>
+              {problems.length > 0 && (
+                <div className="max-h-32 overflow-y-auto p-3 bg-red-50 border-2 border-red-500 rounded-lg mb-4 text-xs font-medium text-red-900 space-y-1">
+                  {problems.slice(0, MAX_REPORTED_PROBLEMS).map((p, idx) => (
+                    <p key={idx} className="flex items-start gap-1.5">
+                      <AlertCircle size={12} className="mt-0.5 shrink-0" />
+                      <span><span className="font-bold">Line {p.line}:</span> {p.reason}</span>
+                    </p>
+                  ))}
+                  {problems.length > MAX_REPORTED_PROBLEMS && <p className="font-bold">…and {problems.length - MAX_REPORTED_PROBLEMS} more.</p>}
+                </div>
+              )}
+
+              {isSample && (
+                <p className="text-xs font-medium text-gray-600 mb-4">
+                  The rest of the file is read in the background while rows are analyzed; rows skipped there are reported with the progress.
+                </p>
+              )}
+
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={onCancel}
+                  className="px-4 py-2 bg-white border-2 border-black text-black rounded-lg text-sm font-bold hover:bg-sky-100 transition-all"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={selection.selected.length === 0}
+                  className="flex items-center gap-2 px-6 py-2 bg-sky-500 hover:bg-sky-400 disabled:opacity-50 disabled:cursor-not-allowed text-white border-2 border-black rounded-lg text-sm font-bold transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] active:translate-y-1 active:shadow-none"
+                >
+                  <Upload size={16} /> {isSample ? 'Stream and analyze all rows' : `Analyze ${selection.selected.length} rows`}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
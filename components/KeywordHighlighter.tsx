@@ -1,13 +1,16 @@
 import React from 'react';
 import { SentimentType } from '../types';
+import { normalizeKeyword } from '../services/keywordAnalytics';
 
 interface Props {
   text: string;
   keywords: string[];
   sentiment: SentimentType;
+  activeKeyword?: string | null;             // Normalized keyword the table is filtered to
+  onKeywordClick?: (keyword: string) => void; // Makes highlights clickable; gets the normalized keyword
 }
 
-export const KeywordHighlighter: React.FC<Props> = ({ text, keywords, sentiment }) => {
+export const KeywordHighlighter: React.FC<Props> = ({ text, keywords, sentiment, activeKeyword, onKeywordClick }) => {
   if (!keywords || keywords.length === 0) {
     return <span className="text-black font-medium">{text}</span>;
   }
@@ -34,6 +37,19 @@ export const KeywordHighlighter: React.FC<Props> = ({ text, keywords, sentiment
     <div className="leading-[2.5rem] text-black">
       {parts.map((part, index) => {
         const isKeyword = sortedKeywords.some(k => k.toLowerCase() === part.toLowerCase());
+        const key = isKeyword && onKeywordClick ? normalizeKeyword(part) : '';
+        if (key) {
+          return (
+            <button
+              key={index}
+              onClick={() => onKeywordClick!(key)}
+              className={`inline-block px-1.5 py-0.5 mx-1 text-sm font-bold rounded-md transition-transform hover:-translate-y-0.5 cursor-pointer ${getHighlightStyle()} ${key === activeKeyword ? 'ring-2 ring-offset-1 ring-sky-500' : ''}`}
+              title={key === activeKeyword ? 'Influential factor · click to clear the keyword filter' : 'Influential factor · click to show every result mentioning it'}
+            >
+              {part}
+            </button>
+          );
+        }
         if (isKeyword) {
           return (
             <span
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult } from '../types';
+import { KEYWORD_RANKINGS, KeywordRanking, KeywordStat, keywordStats, rankKeywords } from '../services/keywordAnalytics';
+import { Hash } from './Icons';
+
+interface Props {
+  results: AnalysisResult[];
+  activeKeyword: string | null; // Normalized keyword the table is filtered to
+  onSelect: (keyword: string) => void;
+}
+
+const CLOUD_SIZE = 40;
+const LIST_SIZE = 15;
+
+// Average sentiment of the results mentioning a keyword, from -1 (all confidently negative) to 1
+const lean = (stat: KeywordStat) => stat.impact / stat.count;
+
+const leanClass = (stat: KeywordStat) => {
+  const value = lean(stat);
+  if (value <= -0.2) return 'text-red-700';
+  if (value >= 0.2) return 'text-green-700';
+  return 'text-gray-600';
+};
+
+export const KeywordPanel: React.FC<Props> = ({ results, activeKeyword, onSelect }) => {
+  const [ranking, setRanking] = useState<KeywordRanking>('frequency');
+  const stats = useMemo(() => keywordStats(results), [results]);
+
+  // The cloud shows the most frequent keywords alphabetically, sized by how many results mention them
+  const cloud = useMemo(() => stats.slice(0, CLOUD_SIZE).sort((a, b) => a.label.localeCompare(b.label)), [stats]);
+  const maxCount = cloud.reduce((max, s) => Math.max(max, s.count), 1);
+  const ranked = rankKeywords(stats, ranking, LIST_SIZE);
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] lg:col-span-2">
+      <h3 className="text-lg font-extrabold text-black mb-4 flex items-center gap-2">
+        <Hash size={20} /> Keywords
+      </h3>
+
+      {stats.length === 0 ? (
+        <p className="text-sm font-medium text-slate-700">No keywords were extracted from these results.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <p className="text-xs font-bold text-gray-500 mb-3">
+              {stats.length.toLocaleString()} distinct keywords, merged across case, plurals and stop-words. Size is frequency, color the average sentiment.
+            </p>
+            <div className="flex flex-wrap items-baseline justify-center gap-x-3 gap-y-1 p-4 bg-sky-50 border-2 border-black rounded-lg">
+              {cloud.map(stat => (
+                <button
+                  key={stat.keyword}
+                  onClick={() => onSelect(stat.keyword)}
+                  className={`font-black leading-tight hover:underline ${leanClass(stat)} ${stat.keyword === activeKeyword ? 'bg-sky-200 rounded px-1 ring-2 ring-sky-500' : ''}`}
+                  style={{ fontSize: `${12 + Math.round(Math.sqrt(stat.count / maxCount) * 20)}px` }}
+                  title={`${stat.label}: ${stat.count} results (${stat.positive} positive, ${stat.neutral} neutral, ${stat.negative} negative)`}
+                >
+                  {stat.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap gap-2 mb-3 no-print">
+              {KEYWORD_RANKINGS.map(r => (
+                <button
+                  key={r.value}
+                  onClick={() => setRanking(r.value)}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold border-2 border-black transition-all ${ranking === r.value ? 'bg-black text-white' : 'bg-white text-black hover:bg-sky-100'}`}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
+            {ranked.length === 0 ? (
+              <p className="text-sm font-medium text-gray-500">No keyword leans this way.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[10px] font-black uppercase tracking-wider text-gray-500">
+                    <th className="pb-1">Keyword</th>
+                    <th className="pb-1 text-right">Results</th>
+                    <th className="pb-1 pl-3">Sentiment mix</th>
+                    <th className="pb-1 text-right" title="Sum of +confidence for positive and -confidence for negative mentions">Impact</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ranked.map(stat => (
+                    <tr
+                      key={stat.keyword}
+                      onClick={() => onSelect(stat.keyword)}
+                      className={`cursor-pointer border-t border-gray-200 ${stat.keyword === activeKeyword ? 'bg-sky-200' : 'hover:bg-sky-50'}`}
+                      title="Show every result mentioning this keyword"
+                    >
+                      <td className="py-1 pr-2 font-bold text-black">{stat.label}</td>
+                      <td className="py-1 text-right font-bold text-gray-700">{stat.count.toLocaleString()}</td>
+                      <td className="py-1 pl-3">
+                        <div className="flex w-24 h-3 rounded-full overflow-hidden border-2 border-black">
+                          <div className="bg-green-500" style={{ width: `${stat.positive / stat.count * 100}%` }} />
+                          <div className="bg-gray-400" style={{ width: `${stat.neutral / stat.count * 100}%` }} />
+                          <div className="bg-red-500" style={{ width: `${stat.negative / stat.count * 100}%` }} />
+                        </div>
+                      </td>
+                      <td className={`py-1 text-right font-black ${leanClass(stat)}`}>{stat.impact > 0 ? '+' : ''}{stat.impact.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download, Printer } from './Icons';
+import { REPORT_SECTIONS, ReportOptions, ReportSection, loadReportOptions } from '../services/reportBuilder';
+
+interface ReportDialogProps {
+  isOpen: boolean;
+  defaultTitle: string;  // Used when the dialog opens
+  totalCount: number;    // All results
+  filteredCount: number; // Results matching the dashboard filters
+  onClose: () => void;
+  onDownload: (options: ReportOptions) => void;
+  onPrint: (options: ReportOptions) => void;
+}
+
+const MAX_EXAMPLES = 25;
+
+export const ReportDialog: React.FC<ReportDialogProps> = ({ isOpen, defaultTitle, totalCount, filteredCount, onClose, onDownload, onPrint }) => {
+  const [options, setOptions] = useState<ReportOptions>(() => loadReportOptions(defaultTitle));
+
+  useEffect(() => {
+    if (isOpen) setOptions(loadReportOptions(defaultTitle));
+  }, [isOpen, defaultTitle]);
+
+  if (!isOpen) return null;
+
+  const toggleSection = (section: ReportSection) => {
+    const next = options.sections.includes(section)
+      ? options.sections.filter(s => s !== section)
+      : [...options.sections, section];
+    setOptions({ ...options, sections: REPORT_SECTIONS.map(s => s.value).filter(s => next.includes(s)) });
+  };
+  const rowCount = options.filteredOnly ? filteredCount : totalCount;
+  const ready = rowCount > 0 && options.title.trim() !== '';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-sky-900/50 backdrop-blur-sm p-4">
+      <div className="bg-sky-50 rounded-xl shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-xl overflow-hidden animate-in fade-in zoom-in duration-200 border-2 border-black">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6 border-b-2 border-black pb-4">
+            <h2 className="text-xl font-black text-black">Create Report</h2>
+            <button onClick={onClose} className="text-black hover:bg-sky-200 p-1 rounded transition-colors border-2 border-transparent hover:border-black">
+              <X size={24} />
+            </button>
+          </div>
+
+          <div className="space-y-5">
+            <div>
+              <label className="block text-xs font-black uppercase tracking-wider text-gray-600 mb-2">Title</label>
+              <input
+                type="text"
+                value={options.title}
+                onChange={(e) => setOptions({ ...options, title: e.target.value })}
+                className="w-full px-3 py-2 bg-white border-2 border-black rounded-lg text-sm font-bold focus:outline-none focus:ring-2 focus:ring-sky-400"
+              />
+            </div>
+
+            <div>
+              <p className="text-xs font-black uppercase tracking-wider text-gray-600 mb-2">Sections</p>
+              <div className="space-y-1 p-2 bg-white border-2 border-black rounded-lg">
+                <label className="flex items-center gap-2 px-2 py-1 text-sm font-bold text-gray-400">
+                  <input type="checkbox" checked disabled className="w-4 h-4 accent-sky-500" />
+                  Title page
+                </label>
+                {REPORT_SECTIONS.map(section => (
+                  <label key={section.value} className="flex items-center gap-2 px-2 py-1 text-sm font-bold text-black rounded hover:bg-sky-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={options.sections.includes(section.value)}
+                      onChange={() => toggleSection(section.value)}
+                      className="w-4 h-4 accent-sky-500"
+                    />
+                    {section.label}
+                    {section.value === 'examples' && options.sections.includes('examples') && (
+                      <span className="ml-auto flex items-center gap-2 text-xs text-gray-600">
+                        per sentiment
+                        <input
+                          type="number"
+                          min={1}
+                          max={MAX_EXAMPLES}
+                          value={options.exampleCount}
+                          onChange={(e) => setOptions({ ...options, exampleCount: Math.min(MAX_EXAMPLES, Math.max(1, Number(e.target.value) || 1)) })}
+                          className="w-16 px-2 py-0.5 border-2 border-black rounded text-sm font-bold text-black"
+                        />
+                      </span>
+                    )}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm font-bold text-black cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.filteredOnly}
+                onChange={(e) => setOptions({ ...options, filteredOnly: e.target.checked })}
+                className="w-4 h-4 accent-sky-500"
+              />
+              Only results matching the current filters ({filteredCount.toLocaleString()} of {totalCount.toLocaleString()})
+            </label>
+
+            <p className="text-xs font-medium text-slate-700">
+              The HTML file is self-contained (charts are embedded as images), so it can be shared as is.
+              Print uses your browser's dialog; choose "Save as PDF" as the destination for a PDF.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-3 mt-8">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-black hover:bg-sky-200 rounded-lg border-2 border-transparent hover:border-black">
+              Cancel
+            </button>
+            <button
+              onClick={() => onPrint(options)}
+              disabled={!ready}
+              className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-black text-black rounded-lg text-sm font-bold hover:bg-sky-100 disabled:opacity-50 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+            >
+              <Printer size={16} /> Print / Save PDF
+            </button>
+            <button
+              onClick={() => onDownload(options)}
+              disabled={!ready}
+              className="flex items-center gap-2 px-4 py-2 bg-sky-400 border-2 border-black text-black rounded-lg text-sm font-bold hover:bg-sky-300 disabled:opacity-50 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+            >
+              <Download size={16} /> Download HTML
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,41 +1,415 @@
-
-import React from 'react';
-import { AnalysisResult, SentimentType } from '../types';
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { AnalysisResult, EmotionTaxonomy, ItemFailure, MetadataField, ReviewLabels, SentimentType } from '../types';
 import { KeywordHighlighter } from './KeywordHighlighter';
-import { Trash2, Zap, Copy, FileText } from './Icons';
+import { Trash2, Zap, Copy, FileText, AlertCircle, Search, ArrowUp, ArrowDown, ArrowUpDown, X, Pencil, Check, UserCheck, Undo2 } from './Icons';
+import { languageName } from '../services/languageDetection';
+import { formatMetadataValue } from '../services/metadata';
+import { isOverridden } from '../services/review';
+import { DEFAULT_SORT, ResultSort, SortKey, searchResults, sortResults } from '../services/resultQuery';
+import { useVirtualRows } from './useVirtualRows';
 
 interface Props {
   results: AnalysisResult[];
+  failures?: ItemFailure[];
+  metadataFields?: MetadataField[]; // Imported columns to show, in order
+  totalCount?: number;              // Results before the dashboard filters, for the count line
+  onDismissFailure?: (id: string) => void;
   onDelete: (id: string) => void;
   onCopy: (text: string) => void;
+  // Human review; the controls only show when onReview is given
+  taxonomy?: EmotionTaxonomy;
+  reviewer?: string;
+  onReviewerChange?: (name: string) => void;
+  onReview?: (id: string, labels?: ReviewLabels) => void; // No labels confirms the prediction
+  onClearReview?: (id: string) => void;
+  focusRequest?: { id: string; at: number } | null; // Scrolls to and highlights a result; `at` makes repeats count
+  activeKeyword?: string | null;                    // Keyword the results are filtered to, marked in the rows
+  onKeywordClick?: (keyword: string) => void;       // Highlighted keywords are clickable when given
 }
 
-export const ResultsTable: React.FC<Props> = ({ results, onDelete, onCopy }) => {
-  const getBadgeColor = (sentiment: SentimentType) => {
-    switch (sentiment) {
-      case SentimentType.POSITIVE: return 'bg-green-100 text-green-900 border-green-900';
-      case SentimentType.NEGATIVE: return 'bg-red-100 text-red-900 border-red-900';
-      default: return 'bg-gray-100 text-gray-900 border-gray-900';
-    }
-  };
+interface RowProps {
+  metadataFields: MetadataField[];
+  measureRef: (el: HTMLElement | null) => void;
+}
 
-  const getSentimentEmoji = (sentiment: SentimentType) => {
-    switch (sentiment) {
-      case SentimentType.POSITIVE: return '😃';
-      case SentimentType.NEGATIVE: return '😡';
-      default: return '😐';
-    }
+const ESTIMATED_ROW_HEIGHT = 150;
+
+const getBadgeColor = (sentiment: SentimentType) => {
+  switch (sentiment) {
+    case SentimentType.POSITIVE: return 'bg-green-100 text-green-900 border-green-900';
+    case SentimentType.NEGATIVE: return 'bg-red-100 text-red-900 border-red-900';
+    default: return 'bg-gray-100 text-gray-900 border-gray-900';
+  }
+};
+
+const getSentimentEmoji = (sentiment: SentimentType) => {
+  switch (sentiment) {
+    case SentimentType.POSITIVE: return '😃';
+    case SentimentType.NEGATIVE: return '😡';
+    default: return '😐';
+  }
+};
+
+const getBarColor = (sentiment: SentimentType) => {
+  switch (sentiment) {
+    case SentimentType.POSITIVE: return 'bg-green-500';
+    case SentimentType.NEGATIVE: return 'bg-red-500';
+    default: return 'bg-gray-500';
+  }
+};
+
+const FailureRow = memo(({ failure, metadataFields, measureRef, onDismiss }: RowProps & { failure: ItemFailure; onDismiss?: (id: string) => void }) => (
+  <tr ref={measureRef} className="bg-red-50">
+    <td colSpan={3} className="px-6 py-4 align-top border-r-2 border-black">
+      <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-bold shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] border-2 bg-red-200 text-red-900 border-red-900">
+        <AlertCircle size={14} />
+        Not analyzed
+      </span>
+    </td>
+    <td className="px-6 py-4 text-sm align-top whitespace-normal border-r-2 border-black">
+      <p className="text-black font-medium mb-2">{failure.text}</p>
+      <p className="text-xs text-red-800 font-bold">{failure.reason}</p>
+    </td>
+    {metadataFields.map(field => (
+      <td key={field.key} className="px-4 py-4 text-xs font-medium align-top border-r-2 border-black">
+        {formatMetadataValue(failure.metadata?.[field.key], field.type)}
+      </td>
+    ))}
+    <td className="px-6 py-4 text-right align-top no-print">
+      {onDismiss && (
+        <button
+          onClick={() => onDismiss(failure.id)}
+          className="text-black hover:text-red-600 hover:bg-red-100 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
+          title="Dismiss failure"
+        >
+          <Trash2 size={16} />
+        </button>
+      )}
+    </td>
+  </tr>
+));
+
+interface ResultRowProps extends RowProps {
+  result: AnalysisResult;
+  taxonomy?: EmotionTaxonomy;
+  onDelete: (id: string) => void;
+  onCopy: (text: string) => void;
+  onReview?: (id: string, labels?: ReviewLabels) => void;
+  onClearReview?: (id: string) => void;
+  focused?: boolean;
+  activeKeyword?: string | null;
+  onKeywordClick?: (keyword: string) => void;
+}
+
+const editClass = 'w-full px-2 py-1 border-2 border-black rounded-lg text-xs font-bold bg-white text-black outline-none focus:ring-2 focus:ring-sky-500';
+
+const ResultRow = memo(({ result, metadataFields, measureRef, taxonomy, onDelete, onCopy, onReview, onClearReview, focused, activeKeyword, onKeywordClick }: ResultRowProps) => {
+  const [draft, setDraft] = useState<ReviewLabels | null>(null);
+  const { review } = result;
+  const overridden = isOverridden(result);
+
+  const startEdit = () => setDraft({ sentiment: result.sentiment, emotion: result.emotion, isSarcastic: result.isSarcastic });
+  const saveEdit = () => {
+    if (draft) onReview?.(result.id, draft);
+    setDraft(null);
   };
 
-  const getBarColor = (sentiment: SentimentType) => {
-    switch (sentiment) {
-      case SentimentType.POSITIVE: return 'bg-green-500';
-      case SentimentType.NEGATIVE: return 'bg-red-500';
-      default: return 'bg-gray-500';
+  // The current label may not be in the taxonomy (e.g. a custom list changed since), so it's always offered
+  const emotionChoices = taxonomy
+    ? [...taxonomy.labels, ...(taxonomy.labels.some(l => l.label === result.emotion) ? [] : [{ label: result.emotion, emoji: result.emotionEmoji }])]
+    : [{ label: result.emotion, emoji: result.emotionEmoji }];
+
+  return (
+    <tr ref={measureRef} className={`${draft || focused ? 'bg-amber-50' : 'hover:bg-sky-50'} ${focused ? 'outline outline-4 -outline-offset-4 outline-amber-400' : ''} transition-colors group`}>
+      {/* Sentiment Column */}
+      <td className="px-6 py-4 align-top border-r-2 border-black">
+        {draft ? (
+          <div className="flex flex-col gap-2">
+            <select value={draft.sentiment} onChange={(e) => setDraft({ ...draft, sentiment: e.target.value as SentimentType })} className={editClass} aria-label="Sentiment">
+              {Object.values(SentimentType).map(s => <option key={s} value={s}>{getSentimentEmoji(s)} {s}</option>)}
+            </select>
+            <label className="flex items-center gap-1 text-xs font-bold text-purple-700 cursor-pointer">
+              <input type="checkbox" checked={draft.isSarcastic} onChange={(e) => setDraft({ ...draft, isSarcastic: e.target.checked })} className="w-4 h-4 accent-purple-600" />
+              Sarcastic
+            </label>
+          </div>
+        ) : (
+          <>
+            <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-bold shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] border-2 ${getBadgeColor(result.sentiment)}`}>
+              <span className="text-sm">{getSentimentEmoji(result.sentiment)}</span>
+              {result.sentiment}
+            </span>
+            {result.isSarcastic && (
+               <div className="mt-2 flex items-center gap-1 text-xs font-black text-purple-700 bg-purple-100 px-2 py-1 rounded border-2 border-purple-900 shadow-[1px_1px_0px_0px_rgba(0,0,0,1)]">
+                 <Zap size={10} /> SARCASM
+               </div>
+            )}
+          </>
+        )}
+        {review && (
+          <div className="mt-2 flex flex-col items-start gap-1">
+            <span
+              className="inline-flex items-center gap-1 text-[10px] font-black uppercase tracking-wider text-emerald-800 bg-emerald-100 px-2 py-0.5 rounded border-2 border-emerald-900"
+              title={`Reviewed by ${review.reviewer} on ${new Date(review.reviewedAt).toLocaleString()}`}
+            >
+              <UserCheck size={10} /> {overridden ? 'Corrected' : 'Reviewed'}
+            </span>
+            <span className="text-[10px] font-bold text-gray-500">by {review.reviewer}</span>
+            {overridden && (review.prediction.sentiment !== result.sentiment || review.prediction.isSarcastic !== result.isSarcastic) && (
+              <span className="text-[10px] font-bold text-gray-500" title="The engine's prediction">
+                model: {review.prediction.sentiment}{review.prediction.isSarcastic !== result.isSarcastic && (review.prediction.isSarcastic ? ', sarcastic' : ', not sarcastic')}
+              </span>
+            )}
+          </div>
+        )}
+      </td>
+
+      {/* Emotion Column */}
+      <td className="px-6 py-4 align-top border-r-2 border-black">
+         {draft ? (
+           <select value={draft.emotion} onChange={(e) => setDraft({ ...draft, emotion: e.target.value })} className={editClass} aria-label="Emotion">
+             {emotionChoices.map(l => <option key={l.label} value={l.label}>{l.emoji} {l.label}</option>)}
+           </select>
+         ) : (
+           <div className="flex flex-col items-start gap-1">
+             <span className="inline-flex items-center gap-2 text-sm font-bold text-slate-800 bg-slate-100 px-2 py-1 rounded border-2 border-slate-900 shadow-[2px_2px_0px_0px_rgba(0,0,0,0.2)]">
+               <span className="text-lg leading-none">{result.emotionEmoji}</span>
+               {result.emotion}
+             </span>
+             {result.rawEmotion && (
+               <span className="text-[10px] font-bold text-gray-500" title="Label returned by the engine before mapping">
+                 from "{result.rawEmotion}"
+               </span>
+             )}
+             {review && review.prediction.emotion !== result.emotion && (
+               <span className="text-[10px] font-bold text-gray-500" title="The engine's prediction">
+                 model: {review.prediction.emotionEmoji} {review.prediction.emotion}
+               </span>
+             )}
+           </div>
+         )}
+      </td>
+
+      {/* Confidence Score */}
+      <td className="px-6 py-4 align-top border-r-2 border-black">
+        <div className="flex flex-col gap-1">
+          <span className="text-sm font-bold text-black font-mono">
+            {(result.confidence * 100).toFixed(0)}%
+          </span>
+          <div className="w-20 h-3 bg-white rounded-full overflow-hidden border-2 border-black">
+            <div 
+              className={`h-full border-r-2 border-black ${getBarColor(result.sentiment)}`}
+              style={{ width: `${result.confidence * 100}%` }}
+            ></div>
+          </div>
+          <span className="mt-1 text-[10px] font-black uppercase tracking-wider text-gray-500" title="Analysis engine">
+            {result.engine}
+          </span>
+          {result.language && (
+            <span className="text-[10px] font-black uppercase tracking-wider text-gray-500" title={languageName(result.language)}>
+              {result.language}
+            </span>
+          )}
+          {result.theme && (
+            <span className="mt-1 max-w-[8rem] truncate text-[10px] font-bold text-sky-800" title={`Theme: ${result.theme}`}>
+              {result.theme}
+            </span>
+          )}
+        </div>
+      </td>
+
+      {/* Main Text Content */}
+      <td className="px-6 py-4 text-sm align-top whitespace-normal border-r-2 border-black relative">
+        <div className="mb-3">
+          <KeywordHighlighter 
+            text={result.text} 
+            keywords={result.keywords} 
+            sentiment={result.sentiment} 
+            activeKeyword={activeKeyword}
+            onKeywordClick={onKeywordClick}
+          />
+          {result.translation && (
+            <p className="mt-2 text-xs text-gray-600 font-medium">
+              <span className="font-black uppercase tracking-wider text-gray-500 mr-1">EN</span>
+              {result.translation}
+            </p>
+          )}
+        </div>
+        
+        {result.aspects && result.aspects.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {result.aspects.map((aspect, idx) => (
+              <span
+                key={`${aspect.aspect}-${idx}`}
+                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-bold border-2 ${getBadgeColor(aspect.sentiment)}`}
+                title={`"${aspect.span}" (${(aspect.confidence * 100).toFixed(0)}% confidence)`}
+              >
+                {getSentimentEmoji(aspect.sentiment)} {aspect.aspect}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {result.explanation && (
+          <div className="flex gap-2 items-start mt-2 p-2 bg-sky-50 rounded border-l-4 border-sky-400">
+            <FileText size={14} className="mt-0.5 text-sky-600 shrink-0" />
+            <p className="text-xs text-slate-700 font-medium italic">
+              "{result.explanation}"
+            </p>
+          </div>
+        )}
+      </td>
+
+      {/* Imported metadata */}
+      {metadataFields.map(field => (
+        <td key={field.key} className="px-4 py-4 text-xs font-medium text-slate-700 align-top border-r-2 border-black">
+          {formatMetadataValue(result.metadata?.[field.key], field.type)}
+        </td>
+      ))}
+
+      {/* Actions */}
+      <td className="px-6 py-4 text-right align-top no-print">
+         <div className="flex gap-1 justify-end opacity-100">
+          {draft ? (
+            <>
+              <button
+                onClick={saveEdit}
+                className="text-black hover:bg-emerald-200 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
+                title="Save label"
+              >
+                <Check size={16} />
+              </button>
+              <button
+                onClick={() => setDraft(null)}
+                className="text-black hover:bg-sky-200 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
+                title="Cancel"
+              >
+                <X size={16} />
+              </button>
+            </>
+          ) : (
+            <>
+              {onReview && (
+                <button
+                  onClick={startEdit}
+                  className="text-black hover:bg-sky-200 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
+                  title="Correct labels"
+                >
+                  <Pencil size={16} />
+                </button>
+              )}
+              {onReview && !review && (
+                <button
+                  onClick={() => onReview(result.id)}
+                  className="text-black hover:bg-emerald-200 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
+                  title="Mark as reviewed"
+                >
+                  <UserCheck size={16} />
+                </button>
+              )}
+              {onClearReview && review && (
+                <button
+                  onClick={() => onClearReview(result.id)}
+                  className="text-black hover:bg-amber-200 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
+                  title="Undo review and restore the model's labels"
+                >
+                  <Undo2 size={16} />
+                </button>
+              )}
+              <button 
+                 onClick={() => onCopy(result.text)}
+                 className="text-black hover:bg-sky-200 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
+                 title="Copy Text"
+               >
+                 <Copy size={16} />
+               </button>
+               <button 
+                onClick={() => onDelete(result.id)}
+                className="text-black hover:text-red-600 hover:bg-red-50 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
+                title="Delete result"
+               >
+                 <Trash2 size={16} />
+               </button>
+            </>
+          )}
+         </div>
+      </td>
+    </tr>
+  );
+});
+
+interface SortHeaderProps {
+  label: string;
+  sortKey: SortKey;
+  sort: ResultSort;
+  onSort: (key: SortKey) => void;
+  className: string;
+}
+
+const SortHeader: React.FC<SortHeaderProps> = ({ label, sortKey, sort, onSort, className }) => {
+  const active = sort.key === sortKey;
+  const Arrow = !active ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <th className={className} aria-sort={active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <button onClick={() => onSort(sortKey)} className="flex items-center gap-1 uppercase font-extrabold tracking-wider hover:text-sky-700" title={`Sort by ${label}`}>
+        {label}
+        <Arrow size={12} className={active ? '' : 'opacity-40'} />
+      </button>
+    </th>
+  );
+};
+
+export const ResultsTable: React.FC<Props> = ({
+  results, failures = [], metadataFields = [], totalCount, onDismissFailure, onDelete, onCopy,
+  taxonomy, reviewer, onReviewerChange, onReview, onClearReview, focusRequest, activeKeyword, onKeywordClick,
+}) => {
+  const [query, setQuery] = useState('');
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const pendingFocus = useRef<string | null>(null);
+  const [sort, setSort] = useState<ResultSort>(DEFAULT_SORT);
+
+  const rows = useMemo(
+    () => sortResults(searchResults(results, query), sort, metadataFields),
+    [results, query, sort, metadataFields]
+  );
+  const shownFailures = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return needle ? failures.filter(f => f.text.toLowerCase().includes(needle)) : failures;
+  }, [failures, query]);
+
+  const keys = useMemo(() => [...shownFailures.map(f => f.id), ...rows.map(r => r.id)], [shownFailures, rows]);
+  const { containerRef, measure, scrollToTop, scrollToKey, start, end, before, after } = useVirtualRows(keys, ESTIMATED_ROW_HEIGHT);
+  const tableRef = useRef<HTMLDivElement>(null);
+
+  // A new search or sort starts at the top of the list
+  useEffect(() => { scrollToTop(); }, [query, sort, scrollToTop]);
+
+  // A focus request clears the search so the row is listed, then scrolls to it once it is
+  useEffect(() => {
+    if (!focusRequest) return;
+    pendingFocus.current = focusRequest.id;
+    setQuery('');
+    setFocusedId(focusRequest.id);
+    const timer = setTimeout(() => setFocusedId(null), 4000);
+    return () => clearTimeout(timer);
+  }, [focusRequest]);
+
+  useEffect(() => {
+    const id = pendingFocus.current;
+    if (id && scrollToKey(id)) {
+      pendingFocus.current = null;
+      tableRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
     }
-  };
+  }, [keys, focusedId, scrollToKey]);
 
-  if (results.length === 0) {
+  // Clicking the active column flips direction; a new column starts with the most useful end first
+  const handleSort = (key: SortKey) => setSort(prev =>
+    prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'sentiment' || key === 'emotion' ? 'asc' : 'desc' }
+  );
+
+  if (results.length === 0 && failures.length === 0) {
     return (
       <div className="text-center py-20 bg-white rounded-xl border-2 border-black border-dashed">
         <p className="text-black font-bold text-lg">No results match your filter.</p>
@@ -43,103 +417,102 @@ export const ResultsTable: React.FC<Props> = ({ results, onDelete, onCopy }) =>
     );
   }
 
+  const headerCell = 'px-6 py-4 border-r-2 border-black bg-sky-200';
+  const colSpan = 5 + metadataFields.length;
+
   return (
-    <div className="bg-white border-2 border-black rounded-xl overflow-hidden shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] print-break-inside">
-      <div className="overflow-x-auto">
+    <div ref={tableRef} className="bg-white border-2 border-black rounded-xl overflow-hidden shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] print-break-inside">
+      {/* Search & count */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3 border-b-2 border-black bg-sky-50 no-print">
+        <div className="relative w-full sm:w-80">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search text, keywords, explanations..."
+            className="w-full pl-9 pr-8 py-2 border-2 border-black rounded-lg text-sm font-medium bg-white outline-none focus:ring-2 focus:ring-sky-500"
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 hover:text-black" title="Clear search">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+        {onReviewerChange && (
+          <label className="flex items-center gap-2 text-xs font-bold text-black" title="Recorded on every label you confirm or correct">
+            <UserCheck size={14} /> Reviewer
+            <input
+              type="text"
+              value={reviewer || ''}
+              onChange={(e) => onReviewerChange(e.target.value)}
+              placeholder="Your name"
+              className="w-32 px-2 py-1 border-2 border-black rounded-lg text-xs font-bold bg-white outline-none focus:ring-2 focus:ring-sky-500"
+            />
+          </label>
+        )}
+        <span className="text-sm font-bold text-black">
+          {rows.length.toLocaleString()} {rows.length === 1 ? 'result' : 'results'}
+          {rows.length !== results.length && <span className="text-gray-500"> of {results.length.toLocaleString()} matching</span>}
+          {totalCount !== undefined && totalCount !== results.length && <span className="text-gray-500"> · {totalCount.toLocaleString()} total</span>}
+          {shownFailures.length > 0 && <span className="text-red-600"> · {shownFailures.length} not analyzed</span>}
+        </span>
+      </div>
+
+      <div ref={containerRef} className="overflow-auto max-h-[75vh]">
         <table className="w-full text-left border-collapse min-w-[800px]">
-          <thead>
+          <thead className="sticky top-0 z-10">
             <tr className="bg-sky-200 text-black border-b-2 border-black text-xs uppercase font-extrabold tracking-wider">
-              <th className="px-6 py-4 border-r-2 border-black w-32">Sentiment</th>
-              <th className="px-6 py-4 border-r-2 border-black w-32">Emotion</th>
-              <th className="px-6 py-4 border-r-2 border-black w-32">Score</th>
-              <th className="px-6 py-4 w-1/2 border-r-2 border-black">Analysis & Explanation</th>
-              <th className="px-6 py-4 text-right w-24 no-print">Actions</th>
+              <SortHeader label="Sentiment" sortKey="sentiment" sort={sort} onSort={handleSort} className={`${headerCell} w-32`} />
+              <SortHeader label="Emotion" sortKey="emotion" sort={sort} onSort={handleSort} className={`${headerCell} w-32`} />
+              <SortHeader label="Score" sortKey="confidence" sort={sort} onSort={handleSort} className={`${headerCell} w-32`} />
+              <th className={`${headerCell} w-1/2`}>
+                <div className="flex items-center gap-3">
+                  Analysis & Explanation
+                  <button onClick={() => handleSort('time')} className="flex items-center gap-1 normal-case font-bold text-gray-700 hover:text-sky-700" title="Sort by analysis time">
+                    {sort.key === 'time' ? (sort.direction === 'desc' ? 'Newest first' : 'Oldest first') : 'By time'}
+                    {sort.key === 'time' ? (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />) : <ArrowUpDown size={12} className="opacity-40" />}
+                  </button>
+                </div>
+              </th>
+              {metadataFields.map(field => (
+                <SortHeader key={field.key} label={field.label} sortKey={`meta:${field.key}`} sort={sort} onSort={handleSort} className="px-4 py-4 border-r-2 border-black whitespace-nowrap bg-sky-200" />
+              ))}
+              <th className="px-6 py-4 text-right w-32 no-print bg-sky-200">Actions</th>
             </tr>
           </thead>
           <tbody className="divide-y-2 divide-black">
-            {results.map((result) => (
-              <tr key={result.id} className="hover:bg-sky-50 transition-colors group">
-                {/* Sentiment Column */}
-                <td className="px-6 py-4 align-top border-r-2 border-black">
-                  <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-bold shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] border-2 ${getBadgeColor(result.sentiment)}`}>
-                    <span className="text-sm">{getSentimentEmoji(result.sentiment)}</span>
-                    {result.sentiment}
-                  </span>
-                  {result.isSarcastic && (
-                     <div className="mt-2 flex items-center gap-1 text-xs font-black text-purple-700 bg-purple-100 px-2 py-1 rounded border-2 border-purple-900 shadow-[1px_1px_0px_0px_rgba(0,0,0,1)]">
-                       <Zap size={10} /> SARCASM
-                     </div>
-                  )}
-                </td>
-
-                {/* Emotion Column */}
-                <td className="px-6 py-4 align-top border-r-2 border-black">
-                   <div className="flex flex-col items-start gap-1">
-                     <span className="inline-flex items-center gap-2 text-sm font-bold text-slate-800 bg-slate-100 px-2 py-1 rounded border-2 border-slate-900 shadow-[2px_2px_0px_0px_rgba(0,0,0,0.2)]">
-                       <span className="text-lg leading-none">{result.emotionEmoji}</span>
-                       {result.emotion}
-                     </span>
-                   </div>
-                </td>
-
-                {/* Confidence Score */}
-                <td className="px-6 py-4 align-top border-r-2 border-black">
-                  <div className="flex flex-col gap-1">
-                    <span className="text-sm font-bold text-black font-mono">
-                      {(result.confidence * 100).toFixed(0)}%
-                    </span>
-                    <div className="w-20 h-3 bg-white rounded-full overflow-hidden border-2 border-black">
-                      <div 
-                        className={`h-full border-r-2 border-black ${getBarColor(result.sentiment)}`}
-                        style={{ width: `${result.confidence * 100}%` }}
-                      ></div>
-                    </div>
-                  </div>
-                </td>
-
-                {/* Main Text Content */}
-                <td className="px-6 py-4 text-sm align-top whitespace-normal border-r-2 border-black relative">
-                  <div className="mb-3">
-                    <KeywordHighlighter 
-                      text={result.text} 
-                      keywords={result.keywords} 
-                      sentiment={result.sentiment} 
-                    />
-                  </div>
-                  
-                  {result.explanation && (
-                    <div className="flex gap-2 items-start mt-2 p-2 bg-sky-50 rounded border-l-4 border-sky-400">
-                      <FileText size={14} className="mt-0.5 text-sky-600 shrink-0" />
-                      <p className="text-xs text-slate-700 font-medium italic">
-                        "{result.explanation}"
-                      </p>
-                    </div>
-                  )}
-                </td>
-
-                {/* Actions */}
-                <td className="px-6 py-4 text-right align-top no-print">
-                   <div className="flex gap-1 justify-end opacity-100">
-                    <button 
-                       onClick={() => onCopy(result.text)}
-                       className="text-black hover:bg-sky-200 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
-                       title="Copy Text"
-                     >
-                       <Copy size={16} />
-                     </button>
-                     <button 
-                      onClick={() => onDelete(result.id)}
-                      className="text-black hover:text-red-600 hover:bg-red-50 p-2 rounded-lg border-2 border-transparent hover:border-black transition-all"
-                      title="Delete result"
-                     >
-                       <Trash2 size={16} />
-                     </button>
-                   </div>
-                </td>
-              </tr>
-            ))}
+            {before > 0 && <tr aria-hidden style={{ height: before }}><td colSpan={colSpan} /></tr>}
+            {keys.slice(start, end).map((key, offset) => {
+              const idx = start + offset;
+              if (idx < shownFailures.length) {
+                const failure = shownFailures[idx];
+                return <FailureRow key={key} failure={failure} metadataFields={metadataFields} measureRef={measure(key)} onDismiss={onDismissFailure} />;
+              }
+              const result = rows[idx - shownFailures.length];
+              return (
+                <ResultRow
+                  key={key}
+                  result={result}
+                  metadataFields={metadataFields}
+                  measureRef={measure(key)}
+                  taxonomy={taxonomy}
+                  onDelete={onDelete}
+                  onCopy={onCopy}
+                  onReview={onReview}
+                  onClearReview={onClearReview}
+                  focused={result.id === focusedId}
+                  activeKeyword={activeKeyword}
+                  onKeywordClick={onKeywordClick}
+                />
+              );
+            })}
+            {after > 0 && <tr aria-hidden style={{ height: after }}><td colSpan={colSpan} /></tr>}
           </tbody>
         </table>
+        {rows.length === 0 && shownFailures.length === 0 && (
+          <p className="py-12 text-center text-black font-bold">No results match "{query}".</p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,68 @@
+import React from 'react';
+import { JobStatus, RunRecord } from '../types';
+import { History } from './Icons';
+
+interface Props {
+  runs: RunRecord[];
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  running: 'bg-sky-100 text-sky-900 border-sky-900',
+  paused: 'bg-yellow-100 text-yellow-900 border-yellow-900',
+  completed: 'bg-green-100 text-green-900 border-green-900',
+  cancelled: 'bg-gray-100 text-gray-900 border-gray-900',
+  partially_failed: 'bg-orange-100 text-orange-900 border-orange-900',
+};
+
+const formatDuration = (ms: number): string =>
+  ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+
+export const RunHistory: React.FC<Props> = ({ runs }) => {
+  if (runs.length === 0) return null;
+
+  return (
+    <details className="bg-white rounded-xl border-2 border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] no-print">
+      <summary className="px-6 py-4 cursor-pointer text-lg font-extrabold text-black flex items-center gap-2">
+        <History size={20} /> Run History
+        <span className="text-sm font-bold text-gray-500">({runs.length})</span>
+      </summary>
+      <div className="overflow-x-auto border-t-2 border-black">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-sky-200 text-black text-xs font-black uppercase tracking-wider border-b-2 border-black">
+            <tr>
+              <th className="px-4 py-2">Started</th>
+              <th className="px-4 py-2">Status</th>
+              <th className="px-4 py-2">Items</th>
+              <th className="px-4 py-2">Engine</th>
+              <th className="px-4 py-2">Settings</th>
+              <th className="px-4 py-2">Duration</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y-2 divide-gray-200">
+            {runs.map(run => (
+              <tr key={run.id} className="align-top">
+                <td className="px-4 py-2 font-medium whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+                <td className="px-4 py-2">
+                  <span className={`px-2 py-0.5 rounded text-xs font-bold border-2 whitespace-nowrap ${STATUS_STYLES[run.status]}`}>
+                    {run.status.replace('_', ' ')}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-xs font-bold whitespace-nowrap">
+                  <span className="text-green-700">{run.succeeded} ok</span>
+                  {run.failed > 0 && <span className="text-red-600"> · {run.failed} failed</span>}
+                  {run.pending > 0 && <span className="text-gray-600"> · {run.pending} pending</span>}
+                  {run.cacheHits > 0 && <span className="text-sky-700"> · {run.cacheHits} cached</span>}
+                </td>
+                <td className="px-4 py-2 text-xs font-bold text-gray-700 whitespace-nowrap">{run.provider} · {run.model}</td>
+                <td className="px-4 py-2 text-xs font-medium text-gray-600" title={`Prompt ${run.promptVersion}`}>
+                  {run.taxonomy}{run.aspectMode ? ' · aspects' : ''} · {run.outputLanguage}
+                </td>
+                <td className="px-4 py-2 text-xs font-bold whitespace-nowrap">{formatDuration(run.finishedAt - run.startedAt)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { X, AlertCircle, Upload } from './Icons';
+import { EXPORT_SCHEMA_VERSION, ParsedExport } from '../services/sessionExport';
+
+interface SessionImportDialogProps {
+  pending: { fileName: string; parsed: ParsedExport } | null; // The dialog is open while set
+  currentCount: number; // Results already in the workspace
+  onCancel: () => void;
+  onApply: (mode: 'merge' | 'replace') => void;
+}
+
+const MAX_LISTED_INVALID = 20;
+
+export const SessionImportDialog: React.FC<SessionImportDialogProps> = ({ pending, currentCount, onCancel, onApply }) => {
+  if (!pending) return null;
+  const { fileName, parsed } = pending;
+  const { envelope, invalid, invalidRuns, warnings, fromVersion } = parsed;
+  const valid = envelope.results.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-sky-900/50 backdrop-blur-sm p-4">
+      <div className="bg-sky-50 rounded-xl shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] w-full max-w-xl overflow-hidden animate-in fade-in zoom-in duration-200 border-2 border-black">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6 border-b-2 border-black pb-4">
+            <h2 className="text-xl font-black text-black truncate" title={fileName}>Import {fileName}</h2>
+            <button onClick={onCancel} className="text-black hover:bg-sky-200 p-1 rounded transition-colors border-2 border-transparent hover:border-black">
+              <X size={24} />
+            </button>
+          </div>
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm mb-4">
+            <dt className="font-black text-gray-600">Results</dt>
+            <dd className="font-bold text-black">{valid.toLocaleString()} valid{invalid.length > 0 && <span className="text-red-600"> · {invalid.length} invalid</span>}</dd>
+            <dt className="font-black text-gray-600">Runs</dt>
+            <dd className="font-bold text-black">{envelope.runs.length.toLocaleString()} valid{invalidRuns.length > 0 && <span className="text-red-600"> · {invalidRuns.length} invalid</span>}</dd>
+            <dt className="font-black text-gray-600">Exported</dt>
+            <dd className="font-bold text-black">{new Date(envelope.exportedAt).toLocaleString()}</dd>
+            <dt className="font-black text-gray-600">Engine</dt>
+            <dd className="font-bold text-black">
+              {envelope.engine ? `${envelope.engine.provider} · ${envelope.engine.model} · prompt ${envelope.engine.promptVersion}` : 'Not recorded'}
+            </dd>
+            <dt className="font-black text-gray-600">Taxonomy</dt>
+            <dd className="font-bold text-black">{envelope.settings.taxonomy.name}</dd>
+            <dt className="font-black text-gray-600">Format</dt>
+            <dd className="font-bold text-black">
+              Version {fromVersion}{fromVersion < EXPORT_SCHEMA_VERSION && ` (upgraded to ${EXPORT_SCHEMA_VERSION})`}
+            </dd>
+          </dl>
+
+          {invalid.length > 0 && (
+            <div className="mb-4 p-3 bg-red-50 border-2 border-red-600 rounded-lg">
+              <p className="flex items-center gap-2 text-sm font-black text-red-700 mb-2">
+                <AlertCircle size={16} /> {invalid.length} record{invalid.length === 1 ? '' : 's'} will be skipped
+              </p>
+              <ul className="max-h-32 overflow-y-auto text-xs font-medium text-red-800 space-y-0.5">
+                {invalid.slice(0, MAX_LISTED_INVALID).map(({ index, reason }) => (
+                  <li key={index}>Record {index + 1}: {reason}</li>
+                ))}
+                {invalid.length > MAX_LISTED_INVALID && <li>…and {invalid.length - MAX_LISTED_INVALID} more</li>}
+              </ul>
+            </div>
+          )}
+
+          {invalidRuns.length > 0 && (
+            <div className="mb-4 p-3 bg-red-50 border-2 border-red-600 rounded-lg">
+              <p className="flex items-center gap-2 text-sm font-black text-red-700 mb-2">
+                <AlertCircle size={16} /> {invalidRuns.length} run history entr{invalidRuns.length === 1 ? 'y' : 'ies'} will be skipped
+              </p>
+              <ul className="max-h-24 overflow-y-auto text-xs font-medium text-red-800 space-y-0.5">
+                {invalidRuns.slice(0, MAX_LISTED_INVALID).map(({ index, reason }) => (
+                  <li key={index}>Run {index + 1}: {reason}</li>
+                ))}
+                {invalidRuns.length > MAX_LISTED_INVALID && <li>…and {invalidRuns.length - MAX_LISTED_INVALID} more</li>}
+              </ul>
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <div className="mb-4 p-3 bg-amber-50 border-2 border-amber-900 rounded-lg">
+              <p className="flex items-center gap-2 text-sm font-black text-amber-900 mb-2">
+                <AlertCircle size={16} /> Some settings could not be used
+              </p>
+              <ul className="text-xs font-medium text-amber-900 space-y-0.5">
+                {warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-sm text-slate-800 font-medium mb-6">
+            <strong>Merge</strong> adds these results to the {currentCount.toLocaleString()} already here (a result with the same id is replaced).{' '}
+            <strong>Replace</strong> swaps the workspace's results, run history and analysis settings for the file's.
+          </p>
+
+          <div className="flex justify-end gap-3">
+            <button onClick={onCancel} className="px-4 py-2 text-sm font-bold text-black hover:bg-sky-200 rounded-lg border-2 border-transparent hover:border-black">
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply('replace')}
+              disabled={valid === 0}
+              className="px-4 py-2 bg-white border-2 border-black text-black rounded-lg text-sm font-bold hover:bg-red-50 disabled:opacity-50 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+            >
+              Replace
+            </button>
+            <button
+              onClick={() => onApply('merge')}
+              disabled={valid === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-sky-400 border-2 border-black text-black rounded-lg text-sm font-bold hover:bg-sky-300 disabled:opacity-50 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+            >
+              <Upload size={16} /> Merge
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
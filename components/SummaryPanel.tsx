@@ -0,0 +1,131 @@
+import React from 'react';
+import { ExecutiveSummary, SentimentType, SummaryPoint } from '../types';
+import { PROVIDERS } from '../services/analysisService';
+import { Sparkles, Loader2, AlertCircle, RefreshCw } from './Icons';
+
+interface Props {
+  summary: ExecutiveSummary | null;
+  resultCount: number;  // Results the dashboard currently summarizes
+  engineLabel: string;  // Engine a new summary would be written by
+  isSummarizing: boolean;
+  onSummarize: () => void;
+  onQuoteClick: (resultId: string) => void;
+}
+
+const themeClass = (sentiment: SentimentType) => {
+  switch (sentiment) {
+    case SentimentType.POSITIVE: return 'bg-green-100 text-green-900 border-green-900';
+    case SentimentType.NEGATIVE: return 'bg-red-100 text-red-900 border-red-900';
+    default: return 'bg-gray-100 text-gray-900 border-gray-900';
+  }
+};
+
+const PointList: React.FC<{ title: string; points: SummaryPoint[]; tone: string; onQuoteClick: (id: string) => void }> = ({ title, points, tone, onQuoteClick }) => (
+  <div>
+    <p className={`text-xs font-black uppercase tracking-wider mb-2 ${tone}`}>{title}</p>
+    {points.length === 0 ? (
+      <p className="text-sm font-medium text-gray-500">None stood out.</p>
+    ) : (
+      <ol className="space-y-3 list-decimal list-inside">
+        {points.map((p, i) => (
+          <li key={i} className="text-sm font-bold text-black">
+            {p.point}
+            {p.quotes.length > 0 && (
+              <div className="mt-1 ml-5 space-y-1">
+                {p.quotes.map((q, j) => (
+                  <button
+                    key={j}
+                    onClick={() => onQuoteClick(q.resultId)}
+                    className="block w-full text-left text-xs font-medium italic text-slate-700 border-l-4 border-sky-400 pl-2 hover:bg-sky-50 hover:text-black"
+                    title="Show this result in the table"
+                  >
+                    “{q.text}”
+                  </button>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+export const SummaryPanel: React.FC<Props> = ({ summary, resultCount, engineLabel, isSummarizing, onSummarize, onQuoteClick }) => {
+  const stale = summary && summary.resultCount !== resultCount;
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] lg:col-span-2">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-extrabold text-black flex items-center gap-2">
+          <Sparkles size={20} /> Executive Summary
+        </h3>
+        <button
+          onClick={onSummarize}
+          disabled={isSummarizing || resultCount === 0}
+          className="flex items-center gap-2 px-3 py-1.5 bg-sky-400 border-2 border-black text-black rounded-lg text-sm font-bold hover:bg-sky-300 disabled:opacity-50 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] no-print"
+          title={`Sends counts and a small sample of texts to ${engineLabel}`}
+        >
+          {isSummarizing ? <Loader2 size={16} className="animate-spin" /> : summary ? <RefreshCw size={16} /> : <Sparkles size={16} />}
+          {isSummarizing ? 'Summarizing...' : summary ? 'Regenerate' : 'Summarize'}
+        </button>
+      </div>
+
+      {!summary ? (
+        <p className="text-sm font-medium text-slate-700">
+          Summarize writes a management-ready digest of the {resultCount.toLocaleString()} results shown: main themes, top complaints and praises
+          with quotes, sarcasm caveats and suggested actions. {engineLabel} only receives aggregated counts and a sample of representative texts.
+        </p>
+      ) : (
+        <div className="space-y-5">
+          <p className="text-xs font-bold text-gray-500">
+            Written by {PROVIDERS[summary.engine]?.label || summary.engine} · {summary.model} from {summary.resultCount.toLocaleString()} results · {new Date(summary.createdAt).toLocaleString()}
+          </p>
+          {stale && (
+            <p className="flex items-center gap-2 text-xs font-bold text-amber-900 bg-amber-100 border-2 border-amber-900 rounded-lg px-3 py-2">
+              <AlertCircle size={14} /> The results changed since this summary was written ({resultCount.toLocaleString()} now). Regenerate to update it.
+            </p>
+          )}
+
+          <p className="text-base font-medium text-black leading-relaxed">{summary.overview}</p>
+
+          {summary.themes.length > 0 && (
+            <div>
+              <p className="text-xs font-black uppercase tracking-wider text-gray-600 mb-2">Main themes</p>
+              <div className="flex flex-wrap gap-2">
+                {summary.themes.map((t, i) => (
+                  <span key={i} className={`px-3 py-1 rounded-md text-xs font-bold border-2 ${themeClass(t.sentiment)}`} title={t.description}>
+                    {t.name}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <PointList title="Top complaints" points={summary.complaints} tone="text-red-700" onQuoteClick={onQuoteClick} />
+            <PointList title="Top praises" points={summary.praises} tone="text-green-700" onQuoteClick={onQuoteClick} />
+          </div>
+
+          {summary.sarcasmCaveats.length > 0 && (
+            <div className="p-3 bg-amber-50 border-2 border-amber-900 rounded-lg">
+              <p className="text-xs font-black uppercase tracking-wider text-amber-900 mb-1">Sarcasm caveats</p>
+              <ul className="list-disc list-inside text-sm font-medium text-amber-900 space-y-0.5">
+                {summary.sarcasmCaveats.map((c, i) => <li key={i}>{c}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {summary.actions.length > 0 && (
+            <div>
+              <p className="text-xs font-black uppercase tracking-wider text-gray-600 mb-2">Suggested actions</p>
+              <ol className="list-decimal list-inside text-sm font-bold text-black space-y-1">
+                {summary.actions.map((a, i) => <li key={i}>{a}</li>)}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { ThemeSet } from '../types';
+import { PROVIDERS } from '../services/analysisService';
+import { ThemeStat } from '../services/themeClustering';
+import { ThemeSentimentChart } from './Charts';
+import { Tags, Sparkles, Loader2, RefreshCw } from './Icons';
+
+interface Props {
+  themeSet: ThemeSet | null;
+  stats: ThemeStat[];      // Per theme, counted over the results the dashboard shows
+  unthemedCount: number;   // Shown results that belong to no theme
+  activeTheme: string | null; // Theme the table is filtered to
+  engineLabel: string;
+  canRefine: boolean;      // The selected engine can name themes
+  isRefining: boolean;
+  onDiscover: () => void;
+  onRefine: () => void;
+  onSelect: (name: string) => void;
+}
+
+export const ThemePanel: React.FC<Props> = ({
+  themeSet, stats, unthemedCount, activeTheme, engineLabel, canRefine, isRefining, onDiscover, onRefine, onSelect,
+}) => (
+  <div className="bg-white rounded-xl border-2 border-black p-6 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] lg:col-span-2">
+    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+      <h3 className="text-lg font-extrabold text-black flex items-center gap-2">
+        <Tags size={20} /> Themes
+      </h3>
+      <div className="flex flex-wrap items-center gap-2 no-print">
+        <button
+          onClick={onDiscover}
+          disabled={isRefining}
+          className="flex items-center gap-2 px-3 py-1.5 bg-sky-400 border-2 border-black text-black rounded-lg text-sm font-bold hover:bg-sky-300 disabled:opacity-50 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+          title="Groups the results by which key phrases appear together, on this device"
+        >
+          {themeSet ? <RefreshCw size={16} /> : <Tags size={16} />}
+          {themeSet ? 'Rediscover' : 'Discover themes'}
+        </button>
+        {themeSet && themeSet.themes.length > 0 && (
+          <button
+            onClick={onRefine}
+            disabled={isRefining || !canRefine}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white border-2 border-black text-black rounded-lg text-sm font-bold hover:bg-sky-100 disabled:opacity-50 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+            title={canRefine
+              ? `Sends each theme's key phrases and a few sample texts to ${engineLabel} for names and descriptions`
+              : `${engineLabel} cannot name themes; choose a model-backed provider`}
+          >
+            {isRefining ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+            {isRefining ? 'Naming...' : 'Name with model'}
+          </button>
+        )}
+      </div>
+    </div>
+
+    {!themeSet ? (
+      <p className="text-sm font-medium text-slate-700">
+        Discover themes groups the results by key phrases that tend to appear together, without sending anything anywhere.
+        A model-backed engine can then give the themes readable names and merge the ones about the same topic.
+      </p>
+    ) : themeSet.themes.length === 0 ? (
+      <p className="text-sm font-medium text-slate-700">
+        No recurring themes were found: too few key phrases are shared between results.
+      </p>
+    ) : (
+      <div className="space-y-4">
+        <p className="text-xs font-bold text-gray-500">
+          {themeSet.themes.length} themes · found {new Date(themeSet.createdAt).toLocaleString()}
+          {themeSet.refinedBy && ` · named by ${PROVIDERS[themeSet.refinedBy.engine]?.label || themeSet.refinedBy.engine} · ${themeSet.refinedBy.model}`}
+          {unthemedCount > 0 && ` · ${unthemedCount.toLocaleString()} results in no theme`}
+        </p>
+
+        <ThemeSentimentChart stats={stats} selected={activeTheme} onSelect={onSelect} />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {stats.map(theme => {
+            const size = theme.Positive + theme.Neutral + theme.Negative;
+            const active = theme.name === activeTheme;
+            return (
+              <button
+                key={theme.name}
+                onClick={() => onSelect(theme.name)}
+                className={`text-left p-3 rounded-lg border-2 border-black transition-all ${active ? 'bg-sky-200 shadow-none' : 'bg-white hover:bg-sky-50 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]'}`}
+                title="Show only this theme's results in the table"
+              >
+                <span className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-black text-black">{theme.name}</span>
+                  <span className="text-xs font-bold text-gray-600 whitespace-nowrap">{size.toLocaleString()} results</span>
+                </span>
+                {theme.description && <span className="block mt-1 text-xs font-medium text-slate-700">{theme.description}</span>}
+                <span className="flex flex-wrap gap-1 mt-2">
+                  {theme.keywords.map(k => (
+                    <span key={k} className="px-1.5 py-0.5 rounded bg-gray-100 border border-gray-400 text-[11px] font-bold text-gray-700">{k}</span>
+                  ))}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { FolderOpen, Plus, Pencil, Copy, Trash2, Check, X } from './Icons';
+import { WorkspaceSummary } from '../services/workspaceStore';
+
+interface Props {
+  workspaces: WorkspaceSummary[];
+  activeId: string | null;
+  disabled: boolean; // Switching is blocked while a run is writing into the active workspace
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const WorkspaceList: React.FC<Props> = ({ workspaces, activeId, disabled, onSelect, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (workspace: WorkspaceSummary) => {
+    setEditingId(workspace.id);
+    setDraftName(workspace.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3 px-2">
+        <h3 className="text-xs font-black text-sky-900 uppercase tracking-wider">Workspaces</h3>
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="p-1 rounded border-2 border-transparent hover:border-black hover:bg-white text-sky-900 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          title="New workspace"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+      <div className="space-y-1">
+        {workspaces.map(workspace => {
+          const isActive = workspace.id === activeId;
+          return (
+            <div
+              key={workspace.id}
+              className={`group flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold border-2 transition-all ${isActive ? 'bg-white text-black border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]' : 'text-sky-700 border-transparent hover:border-black hover:bg-white hover:text-black'}`}
+            >
+              <FolderOpen size={16} className="shrink-0" />
+              {editingId === workspace.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 px-1 border-2 border-black rounded text-sm font-bold outline-none"
+                  />
+                  <button onClick={commitRename} className="hover:text-green-700" title="Save name"><Check size={14} /></button>
+                  <button onClick={() => setEditingId(null)} className="hover:text-red-600" title="Cancel"><X size={14} /></button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => !isActive && onSelect(workspace.id)}
+                    disabled={disabled && !isActive}
+                    className="flex-1 min-w-0 text-left truncate disabled:cursor-not-allowed"
+                    title={`${workspace.name} · ${workspace.resultCount} results · saved ${new Date(workspace.updatedAt).toLocaleString()}`}
+                  >
+                    {workspace.name}
+                    <span className="ml-1 text-[10px] font-black text-gray-400">{workspace.resultCount}</span>
+                  </button>
+                  <div className="hidden group-hover:flex items-center gap-1">
+                    <button onClick={() => startRename(workspace)} className="hover:text-sky-600" title="Rename"><Pencil size={13} /></button>
+                    <button onClick={() => onDuplicate(workspace.id)} disabled={disabled} className="hover:text-sky-600 disabled:opacity-50" title="Duplicate"><Copy size={13} /></button>
+                    <button onClick={() => onDelete(workspace.id)} disabled={disabled} className="hover:text-red-600 disabled:opacity-50" title="Delete"><Trash2 size={13} /></button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
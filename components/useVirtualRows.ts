@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const OVERSCAN_PX = 800; // Rendered above and below the viewport so fast scrolling doesn't show gaps
+
+/**
+ * Windowing for rows of varying height inside a scroll container. Rows are
+ * measured once rendered; unmeasured rows count as `estimate` pixels. Returns
+ * the slice to render and the spacer heights that stand in for the rest.
+ */
+export const useVirtualRows = (keys: string[], estimate: number) => {
+  // A callback ref, since the container may mount after the hook (e.g. once there are rows)
+  const [container, containerRef] = useState<HTMLDivElement | null>(null);
+  const heights = useRef(new Map<string, number>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(800);
+  const [, setMeasured] = useState(0);
+  const frame = useRef<number | null>(null);
+
+  useEffect(() => {
+    const el = container;
+    if (!el) return;
+    const onScroll = () => {
+      if (frame.current !== null) return;
+      frame.current = requestAnimationFrame(() => {
+        frame.current = null;
+        setScrollTop(el.scrollTop);
+      });
+    };
+    const observer = new ResizeObserver(() => setViewport(el.clientHeight));
+    observer.observe(el);
+    el.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      observer.disconnect();
+      el.removeEventListener('scroll', onScroll);
+      if (frame.current !== null) cancelAnimationFrame(frame.current);
+      frame.current = null;
+    };
+  }, [container]);
+
+  // Ref callback for a rendered row, stable per key so memoized rows stay memoized;
+  // a changed height re-renders once per frame
+  const callbacks = useRef(new Map<string, (el: HTMLElement | null) => void>());
+  const measure = useCallback((key: string) => {
+    let callback = callbacks.current.get(key);
+    if (!callback) {
+      callback = (el: HTMLElement | null) => {
+        if (!el) return;
+        const height = el.getBoundingClientRect().height;
+        if (Math.abs((heights.current.get(key) ?? -1) - height) < 1) return;
+        heights.current.set(key, height);
+        requestAnimationFrame(() => setMeasured(n => n + 1));
+      };
+      callbacks.current.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  // Forget rows that are gone (deleted, filtered out, a new import) so both maps stay the size of the list
+  useEffect(() => {
+    const current = new Set<string>(keys);
+    callbacks.current.forEach((_, key) => { if (!current.has(key)) callbacks.current.delete(key); });
+    heights.current.forEach((_, key) => { if (!current.has(key)) heights.current.delete(key); });
+  }, [keys]);
+
+  const scrollToTop = useCallback(() => {
+    if (container) container.scrollTop = 0;
+    setScrollTop(0);
+  }, [container]);
+
+  // Puts the row with `key` at the top; unmeasured rows above it count as `estimate`
+  const keysRef = useRef(keys);
+  keysRef.current = keys;
+  const scrollToKey = useCallback((key: string): boolean => {
+    const index = keysRef.current.indexOf(key);
+    if (index < 0 || !container) return false;
+    let top = 0;
+    for (let idx = 0; idx < index; idx++) top += heights.current.get(keysRef.current[idx]) ?? estimate;
+    container.scrollTop = top;
+    setScrollTop(top);
+    return true;
+  }, [container, estimate]);
+
+  const heightOf = (key: string) => heights.current.get(key) ?? estimate;
+
+  let start = 0;
+  let before = 0;
+  while (start < keys.length && before + heightOf(keys[start]) < scrollTop - OVERSCAN_PX) {
+    before += heightOf(keys[start]);
+    start++;
+  }
+  let end = start;
+  let bottom = before;
+  while (end < keys.length && bottom < scrollTop + viewport + OVERSCAN_PX) {
+    bottom += heightOf(keys[end]);
+    end++;
+  }
+  let after = 0;
+  for (let idx = end; idx < keys.length; idx++) after += heightOf(keys[idx]);
+
+  return { containerRef, measure, scrollToTop, scrollToKey, start, end, before, after };
+};
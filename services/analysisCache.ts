@@ -0,0 +1,100 @@
+import { AnalysisOptions, ProviderId, ProviderSettings } from "../types";
+import { PROMPT_VERSION } from "./analysisProvider";
+import { EngineOutput, resolveProvider } from "./analysisService";
+import { clearStore, deleteRecord, getAllRecords, getRecords, putRecords } from "./indexedDb";
+
+const STORE = 'analysisCache';
+
+// Which engine, model and prompt a cached result belongs to
+export interface CacheScope {
+  provider: ProviderId;
+  model: string;
+  promptVersion: string;
+}
+
+export interface CacheEntry extends CacheScope {
+  key: string;
+  text: string;
+  output: EngineOutput;
+  createdAt: number;
+}
+
+// Whitespace and Unicode form differences should not cause a cache miss
+export const normalizeCacheText = (text: string): string =>
+  text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+// Small stable string hash (djb2), used to fingerprint analysis options
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * The prompt version covers both the prompt template (PROMPT_VERSION) and
+ * every option that changes what is asked for, so e.g. switching taxonomy or
+ * enabling aspect mode never returns results produced for another prompt.
+ */
+export const promptVersionFor = (options: AnalysisOptions): string => {
+  const fingerprint = JSON.stringify({
+    aspects: options.aspectMode ? options.aspects : null,
+    taxonomy: options.taxonomy.labels.map(l => l.label),
+    translate: options.translate,
+    outputLanguage: options.outputLanguage,
+  });
+  return `v${PROMPT_VERSION}-${hashString(fingerprint)}`;
+};
+
+// Scope of the engine that will actually run (the offline lexicon when no key is set)
+export const cacheScopeFor = (settings: ProviderSettings, options: AnalysisOptions): CacheScope => {
+  const provider = resolveProvider(settings);
+  return {
+    provider: provider.id,
+    model: provider.id === settings.provider ? settings.model || provider.defaultModel : provider.defaultModel,
+    promptVersion: promptVersionFor(options),
+  };
+};
+
+const cacheKey = (text: string, scope: CacheScope): string =>
+  `${scope.provider}|${scope.model}|${scope.promptVersion}|${normalizeCacheText(text)}`;
+
+/**
+ * Looks up every text; the result is index-aligned with `texts` (undefined = miss).
+ * The cache is best effort: if IndexedDB is unavailable everything is a miss.
+ */
+export const lookupCached = async (texts: string[], scope: CacheScope): Promise<(EngineOutput | undefined)[]> => {
+  try {
+    const entries = await getRecords<CacheEntry>(STORE, texts.map(text => cacheKey(text, scope)));
+    return entries.map(entry => entry?.output);
+  } catch (error) {
+    console.warn("Analysis cache lookup failed", error);
+    return texts.map(() => undefined);
+  }
+};
+
+// Stores outputs produced by the scoped engine itself (fallback outputs are skipped)
+export const storeCached = async (items: { text: string; output: EngineOutput }[], scope: CacheScope): Promise<void> => {
+  const entries: CacheEntry[] = items
+    .filter(item => item.output.engine === scope.provider)
+    .map(item => ({
+      ...scope,
+      key: cacheKey(item.text, scope),
+      text: normalizeCacheText(item.text),
+      output: item.output,
+      createdAt: Date.now(),
+    }));
+  try {
+    await putRecords(STORE, entries);
+  } catch (error) {
+    console.warn("Analysis cache write failed", error);
+  }
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> =>
+  (await getAllRecords<CacheEntry>(STORE)).sort((a, b) => b.createdAt - a.createdAt);
+
+export const deleteCacheEntry = (key: string): Promise<void> => deleteRecord(STORE, key);
+
+export const clearCache = (): Promise<void> => clearStore(STORE);
@@ -0,0 +1,490 @@
+import { AnalysisOptions, AnalysisResult, AspectSentiment, ExecutiveSummary, ProviderId, ProviderSettings, SentimentType, SummaryPoint, SummaryTheme } from "../types";
+import { DEFAULT_TAXONOMY } from "./emotionTaxonomy";
+import { normalizeLanguageCode } from "./languageDetection";
+
+// One text sent to a provider; `id` must be echoed back on its result
+export interface AnalysisInput {
+  id: string;
+  text: string;
+}
+
+// What a provider returns per text; the service stamps `engine`, the app adds id/text/timestamp
+export type AnalysisOutput = Omit<AnalysisResult, 'id' | 'timestamp' | 'text' | 'engine'> & {
+  inputId: string; // The `AnalysisInput.id` this result claims to belong to
+};
+
+// Phrase counts across the batch, split by the sentiment of the texts they appear in
+export interface DigestKeyword {
+  keyword: string;
+  count: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+}
+
+// A representative text; `ref` stands in for the result id in the prompt
+export interface DigestSample {
+  ref: string;
+  resultId: string;
+  text: string;
+  sentiment: SentimentType;
+  emotion: string;
+  isSarcastic: boolean;
+  confidence: number;
+  keywords: string[];
+}
+
+// Aggregated view of a batch that a summary is written from
+export interface SummaryDigest {
+  total: number;
+  sentiments: Record<SentimentType, number>;
+  averageConfidence: number;
+  sarcastic: number;
+  sarcasticPositive: number; // Sarcastic texts scored positive, which often hide complaints
+  emotions: { label: string; count: number }[];
+  keywords: DigestKeyword[];
+  aspects: { aspect: string; positive: number; negative: number; neutral: number }[];
+  samples: DigestSample[];
+}
+
+// What a provider returns for a summary; the service stamps engine, model and counts
+export type SummaryDraft = Omit<ExecutiveSummary, 'engine' | 'model' | 'resultCount' | 'createdAt'>;
+
+// A locally discovered theme sent for naming; `ref` identifies it in the reply
+export interface ThemeClusterInput {
+  ref: string;
+  keywords: string[];
+  size: number;
+  sentiments: Record<SentimentType, number>;
+  samples: string[];
+}
+
+// The model's take on one cluster; `mergeInto` names another cluster's ref about the same topic
+export interface ThemeRefinement {
+  ref: string;
+  name: string;
+  description: string;
+  mergeInto?: string;
+}
+
+export type AnalysisErrorCode =
+  | 'AUTH_ERROR'
+  | 'RATE_LIMIT'
+  | 'SERVER_ERROR'
+  | 'SAFETY_BLOCK'
+  | 'PARSE_ERROR'
+  | 'INVALID_REQUEST'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+// Provider-neutral error class, every provider maps its failures onto these codes
+export class AnalysisError extends Error {
+  constructor(
+    message: string,
+    public code: AnalysisErrorCode,
+    public solution?: string,
+    public status?: number,
+    public retryAfterMs?: number // Server supplied hint for when to try again
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  analyzeBatch: (
+    inputs: AnalysisInput[],
+    settings: ProviderSettings,
+    options: AnalysisOptions,
+    signal?: AbortSignal
+  ) => Promise<AnalysisOutput[]>;
+  summarize: (
+    digest: SummaryDigest,
+    settings: ProviderSettings,
+    options: AnalysisOptions,
+    signal?: AbortSignal
+  ) => Promise<SummaryDraft>;
+  // Only model-backed providers can name and merge themes
+  refineThemes?: (
+    clusters: ThemeClusterInput[],
+    settings: ProviderSettings,
+    options: AnalysisOptions,
+    signal?: AbortSignal
+  ) => Promise<ThemeRefinement[]>;
+}
+
+export const DEFAULT_ASPECTS = ['shipping', 'price', 'staff', 'quality'];
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  aspectMode: false,
+  aspects: DEFAULT_ASPECTS,
+  taxonomy: DEFAULT_TAXONOMY,
+  translate: false,
+  outputLanguage: 'English',
+};
+
+// Bump whenever the prompt or response schema changes meaning; part of the analysis cache key
+export const PROMPT_VERSION = 1;
+
+export const SYSTEM_INSTRUCTION = "You are an expert NLP sentiment analysis engine. Detect nuance, sarcasm, and specific emotions accurately.";
+
+const buildAspectInstruction = (options: AnalysisOptions): string => !options.aspectMode ? '' : `
+    8. Aspect analysis: for each of these aspects that the text actually mentions, ${JSON.stringify(options.aspects)},
+       return an entry in "aspects" with the aspect name (exactly as listed), its own sentiment (Positive, Negative, Neutral),
+       a confidence score (0.0 to 1.0) and "span", the exact substring of the text that supports it.
+       Omit aspects the text does not mention; return an empty list if none apply.
+  `;
+
+const buildTranslationInstruction = (options: AnalysisOptions): string => !options.translate ? '' : `
+    9. Translation: if the text is not in English, put a faithful English translation in "translation"; leave it empty for English texts.
+  `;
+
+export const buildAnalysisPrompt = (inputs: AnalysisInput[], options: AnalysisOptions): string => `
+    Analyze the sentiment of the following texts.
+    Each text has an "id". Return exactly one result per text and copy its "id" unchanged into the result.
+    Texts may be written in any language. Judge each one in its original language (idioms, sarcasm and
+    intensity included) rather than as if it were English, and quote key phrases in the original language.
+    Write every explanation in ${options.outputLanguage}.
+    For each text:
+    0. Detect the language of the text and return it as an ISO 639-1 code in "language" (e.g. "en", "de", "ja").
+    1. Identify the Sentiment (Positive, Negative, Neutral).
+    2. Identify the Primary Emotion, choosing exactly one of: ${options.taxonomy.labels.map(l => l.label).join(', ')}.
+    3. Select a single Emoji that best represents that emotion.
+    4. Detect if it is Sarcastic (boolean).
+    5. Provide a confidence score (0.0 to 1.0).
+    6. Extract key phrases that drove the analysis.
+    7. Provide a concise explanation (1 sentence) for the classification.
+    ${buildAspectInstruction(options)}
+    ${buildTranslationInstruction(options)}
+
+    Texts to analyze:
+    ${JSON.stringify(inputs)}
+  `;
+
+export const SUMMARY_SYSTEM_INSTRUCTION = "You are a customer insights analyst writing concise, evidence-based executive summaries.";
+
+export const buildSummaryPrompt = (digest: SummaryDigest, options: AnalysisOptions): string => `
+    Write an executive summary of customer feedback for management.
+    Below are aggregated sentiment analysis results for ${digest.total} texts: sentiment and emotion counts,
+    the most frequent key phrases with how often each appears in positive, negative and neutral texts,
+    aspect sentiment counts and a sample of representative texts, each with a "ref".
+    Base every statement on this data and do not invent numbers. Write in ${options.outputLanguage}.
+    Return a JSON object with:
+    - "overview": 2-3 sentences on the overall sentiment and what drives it.
+    - "themes": up to 6 main themes, each with "name" (2-4 words), "description" (1 sentence) and "sentiment" (Positive, Negative, Neutral).
+    - "complaints": up to 5 top complaints, most important first, each with "point" (1 sentence) and "quotes".
+    - "praises": up to 5 top praises, most important first, each with "point" and "quotes".
+      "quotes" lists 1-3 supporting sample texts as { "ref", "text" }: the sample's ref and a verbatim excerpt of it.
+    - "sarcasmCaveats": sentences on where sarcasm may distort the numbers or the quotes; empty if it doesn't.
+    - "actions": up to 5 concrete suggested actions, most impactful first.
+
+    Aggregated results:
+    ${JSON.stringify({ ...digest, samples: digest.samples.map(({ resultId, ...sample }) => sample) })}
+  `;
+
+export const buildThemePrompt = (clusters: ThemeClusterInput[], options: AnalysisOptions): string => `
+    Below are clusters of customer feedback found by keyword co-occurrence. Each has a "ref", its key phrases,
+    its size, sentiment counts and a few sample texts.
+    For each cluster return an object with:
+    - "ref": the cluster's ref, copied unchanged.
+    - "name": a short theme name (2-4 words) a manager would understand, written in ${options.outputLanguage}.
+    - "description": one sentence on what the texts in the cluster are about, written in ${options.outputLanguage}.
+    - "mergeInto": the ref of another cluster about the same topic if the two should be one theme, otherwise "".
+    Return a JSON array with exactly one object per cluster.
+
+    Clusters:
+    ${JSON.stringify(clusters)}
+  `;
+
+/**
+ * cleans the response string to ensure it is valid JSON
+ * sometimes models return markdown code blocks ```json ... ```
+ */
+const cleanJsonString = (str: string): string => {
+  let clean = str.replace(/```json\n?|```/g, '').trim();
+  // Attempt to find the first '[' and last ']' to handle extra text
+  const start = clean.indexOf('[');
+  const end = clean.lastIndexOf(']');
+  if (start !== -1 && end !== -1) {
+    clean = clean.substring(start, end + 1);
+  }
+  return clean;
+};
+
+const SENTIMENTS = Object.values(SentimentType) as string[];
+
+const normalizeSentiment = (value: unknown): SentimentType =>
+  SENTIMENTS.includes(value as string) ? value as SentimentType : SentimentType.NEUTRAL;
+
+const normalizeAspects = (value: unknown): AspectSentiment[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter(a => a && typeof a.aspect === 'string' && a.aspect.trim())
+    .map(a => ({
+      aspect: a.aspect.trim().toLowerCase(),
+      sentiment: normalizeSentiment(a.sentiment),
+      confidence: typeof a.confidence === 'number' ? a.confidence : 0.5,
+      span: typeof a.span === 'string' ? a.span : '',
+    }));
+};
+
+/**
+ * Parses the raw model text into normalized results.
+ * Shared by every LLM-backed provider so they all return the same shape.
+ */
+export const parseAnalysisResponse = (jsonText: string | undefined): AnalysisOutput[] => {
+  if (!jsonText) {
+    throw new AnalysisError(
+      "Received empty response from AI model.",
+      "SERVER_ERROR",
+      "The model returned an empty result. Please try again."
+    );
+  }
+
+  let parsedData;
+  try {
+    parsedData = JSON.parse(cleanJsonString(jsonText));
+  } catch (e) {
+    console.error("JSON Parse Error", jsonText);
+    throw new AnalysisError(
+      "Failed to process model response.",
+      "PARSE_ERROR",
+      "The AI returned malformed JSON. This is usually temporary, please retry."
+    );
+  }
+
+  if (!Array.isArray(parsedData)) {
+    throw new AnalysisError(
+      "Invalid response structure.",
+      "PARSE_ERROR",
+      "Expected a list of results but got something else."
+    );
+  }
+
+  return parsedData.map((item) => ({
+    inputId: item.id !== undefined && item.id !== null ? String(item.id) : '',
+    sentiment: (item.sentiment as SentimentType) || SentimentType.NEUTRAL,
+    emotion: item.emotion || "Neutral",
+    emotionEmoji: item.emotionEmoji || "😐",
+    isSarcastic: !!item.isSarcastic,
+    confidence: typeof item.confidence === 'number' ? item.confidence : 0.5,
+    keywords: Array.isArray(item.keywords) ? item.keywords : [],
+    explanation: item.explanation || "No explanation provided.",
+    language: normalizeLanguageCode(item.language), // Empty codes are filled in by the offline detector
+    translation: typeof item.translation === 'string' && item.translation.trim() ? item.translation.trim() : undefined,
+    aspects: normalizeAspects(item.aspects),
+  }));
+};
+
+/**
+ * Parses the model's theme names. Unknown refs are dropped; a merge target
+ * must be another known cluster.
+ */
+export const parseThemeResponse = (jsonText: string | undefined, clusters: ThemeClusterInput[]): ThemeRefinement[] => {
+  if (!jsonText) {
+    throw new AnalysisError(
+      "Received empty response from AI model.",
+      "SERVER_ERROR",
+      "The model returned no theme names. Please try again."
+    );
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(cleanJsonString(jsonText));
+  } catch (e) {
+    console.error("JSON Parse Error", jsonText);
+    throw new AnalysisError(
+      "Failed to process model response.",
+      "PARSE_ERROR",
+      "The AI returned malformed theme names. This is usually temporary, please retry."
+    );
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new AnalysisError(
+      "Invalid response structure.",
+      "PARSE_ERROR",
+      "Expected a list of themes but got something else."
+    );
+  }
+
+  const refs = new Set<string>(clusters.map(c => c.ref));
+  return parsed
+    .filter(item => item && refs.has(String(item.ref)) && typeof item.name === 'string' && item.name.trim())
+    .map(item => ({
+      ref: String(item.ref),
+      name: item.name.trim(),
+      description: typeof item.description === 'string' ? item.description.trim() : '',
+      mergeInto: refs.has(String(item.mergeInto)) && String(item.mergeInto) !== String(item.ref) ? String(item.mergeInto) : undefined,
+    }));
+};
+
+const stringList = (value: unknown, max: number): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()).map(v => v.trim()).slice(0, max) : [];
+
+/**
+ * Quotes must point at a sample that was sent, so every quote links to a real
+ * result. The excerpt is kept when it really occurs in that text; otherwise the
+ * sample text itself is quoted, so a paraphrase is never passed off as a quote.
+ */
+const toSummaryPoints = (value: unknown, digest: SummaryDigest): SummaryPoint[] => {
+  if (!Array.isArray(value)) return [];
+  const samples = new Map<string, DigestSample>(digest.samples.map(s => [s.ref, s]));
+  return value
+    .filter(p => p && typeof p.point === 'string' && p.point.trim())
+    .slice(0, 5)
+    .map(p => ({
+      point: p.point.trim(),
+      quotes: (Array.isArray(p.quotes) ? p.quotes : [])
+        .filter((q: any) => q && samples.has(String(q.ref)))
+        .slice(0, 3)
+        .map((q: any) => {
+          const sample = samples.get(String(q.ref))!;
+          const excerpt = typeof q.text === 'string' ? q.text.trim() : '';
+          return {
+            resultId: sample.resultId,
+            text: excerpt && sample.text.toLowerCase().includes(excerpt.toLowerCase()) ? excerpt : sample.text,
+          };
+        }),
+    }));
+};
+
+/**
+ * Parses the model's summary object. Shared by every LLM-backed provider.
+ */
+export const parseSummaryResponse = (jsonText: string | undefined, digest: SummaryDigest): SummaryDraft => {
+  if (!jsonText) {
+    throw new AnalysisError(
+      "Received empty response from AI model.",
+      "SERVER_ERROR",
+      "The model returned an empty summary. Please try again."
+    );
+  }
+
+  let parsed: any;
+  try {
+    let clean = jsonText.replace(/```json\n?|```/g, '').trim();
+    const start = clean.indexOf('{');
+    const end = clean.lastIndexOf('}');
+    if (start !== -1 && end !== -1) clean = clean.substring(start, end + 1);
+    parsed = JSON.parse(clean);
+  } catch (e) {
+    console.error("JSON Parse Error", jsonText);
+    throw new AnalysisError(
+      "Failed to process model response.",
+      "PARSE_ERROR",
+      "The AI returned a malformed summary. This is usually temporary, please retry."
+    );
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) || typeof parsed.overview !== 'string') {
+    throw new AnalysisError(
+      "Invalid response structure.",
+      "PARSE_ERROR",
+      "Expected a summary object but got something else."
+    );
+  }
+
+  const themes: SummaryTheme[] = (Array.isArray(parsed.themes) ? parsed.themes : [])
+    .filter((t: any) => t && typeof t.name === 'string' && t.name.trim())
+    .slice(0, 6)
+    .map((t: any) => ({
+      name: t.name.trim(),
+      description: typeof t.description === 'string' ? t.description.trim() : '',
+      sentiment: normalizeSentiment(t.sentiment),
+    }));
+
+  return {
+    overview: parsed.overview.trim(),
+    themes,
+    complaints: toSummaryPoints(parsed.complaints, digest),
+    praises: toSummaryPoints(parsed.praises, digest),
+    sarcasmCaveats: stringList(parsed.sarcasmCaveats, 5),
+    actions: stringList(parsed.actions, 5),
+  };
+};
+
+/**
+ * Extracts a retry-after hint in milliseconds, either attached by the provider
+ * (e.g. from a Retry-After header) or embedded in the error message
+ * (Gemini reports `"retryDelay": "23s"` on 429s).
+ */
+const extractRetryAfterMs = (error: any, msg: string): number | undefined => {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const match = msg.match(/retry(?:Delay"?\s*:\s*"?| in |-after:?\s*)(\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps SDK/HTTP errors to user friendly codes.
+ * `serviceName` and `model` are only used to make the messages specific.
+ */
+export const toAnalysisError = (error: any, serviceName: string, model: string): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+
+  const msg = error?.message || '';
+  const status = error?.status || error?.response?.status; // generic attempt to find status
+
+  if (error?.name === 'AbortError') {
+    return new AnalysisError("Analysis cancelled.", "CANCELLED", "The run was cancelled. Pending rows can be resumed.");
+  }
+
+  if (msg.includes('401') || msg.includes('403') || msg.includes('API key') || status === 401 || status === 403) {
+    return new AnalysisError(
+      "Invalid API Key or Permissions.",
+      "AUTH_ERROR",
+      `Please verify your API key. Ensure it is valid, active, and has access to the ${serviceName} API.`,
+      status
+    );
+  }
+
+  if (msg.includes('429') || msg.includes('Quota') || status === 429) {
+    return new AnalysisError(
+      "Rate limit exceeded.",
+      "RATE_LIMIT",
+      "You are sending requests too quickly. Please wait a moment before trying again, or reduce the batch size.",
+      429,
+      extractRetryAfterMs(error, msg)
+    );
+  }
+
+  if (msg.includes('503') || msg.includes('Overloaded') || status === 503) {
+    return new AnalysisError(
+      "AI Service Unavailable.",
+      "SERVER_ERROR",
+      `The ${serviceName} service is currently overloaded. Please try again in a few minutes.`,
+      503,
+      extractRetryAfterMs(error, msg)
+    );
+  }
+
+  if (status === 400 || msg.includes('400')) {
+    return new AnalysisError(
+      "Invalid Request.",
+      "INVALID_REQUEST",
+      "The request was malformed. Please check your input text for unsupported characters or format.",
+      400
+    );
+  }
+
+  if (status === 404 || msg.includes('404')) {
+    return new AnalysisError(
+      "Model Not Found.",
+      "INVALID_REQUEST",
+      `The model '${model}' was not found. It may be deprecated or not available in your region.`,
+      404
+    );
+  }
+
+  return new AnalysisError(
+    "An unexpected network or API error occurred.",
+    "UNKNOWN",
+    "Check your internet connection and try again. If the issue persists, check the console for logs.",
+    status
+  );
+};
@@ -0,0 +1,239 @@
+import { AnalysisOptions, AnalysisResult, ExecutiveSummary, ProviderId, ProviderSettings, RetryPolicy } from "../types";
+import {
+  AnalysisError,
+  AnalysisErrorCode,
+  AnalysisInput,
+  AnalysisOutput,
+  AnalysisProvider,
+  DEFAULT_ANALYSIS_OPTIONS,
+  SummaryDraft,
+  ThemeClusterInput,
+  ThemeRefinement,
+} from "./analysisProvider";
+import { geminiProvider } from "./geminiService";
+import { openAiCompatibleProvider } from "./openAiCompatibleService";
+import { lexiconProvider } from "./lexiconService";
+import { fakeProvider } from "./fakeService";
+import { RetryInfo, withRetry } from "./retryPolicy";
+import { cancelledError } from "./jobControl";
+import { Throttle, estimateRequestTokens } from "./batchScheduler";
+import { applyTaxonomy } from "./emotionTaxonomy";
+import { detectLanguage } from "./languageDetection";
+import { buildSummaryDigest } from "./executiveSummary";
+
+export type EngineOutput = Omit<AnalysisResult, 'id' | 'timestamp' | 'text'>;
+
+export const PROVIDERS: Record<ProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  lexicon: lexiconProvider,
+  fake: fakeProvider,
+};
+
+export const getProvider = (id: ProviderId): AnalysisProvider => PROVIDERS[id] || geminiProvider;
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  apiKey: '',
+  model: geminiProvider.defaultModel,
+  baseUrl: '',
+};
+
+// Errors for which the offline lexicon engine takes over instead of failing the chunk
+const FALLBACK_CODES: AnalysisErrorCode[] = ['SERVER_ERROR', 'SAFETY_BLOCK'];
+
+// True when the selected provider can run with the given settings
+export const isProviderReady = (settings: ProviderSettings): boolean =>
+  !getProvider(settings.provider).requiresApiKey || !!settings.apiKey;
+
+// The provider that will actually run: the offline lexicon when the selected one lacks a key
+export const resolveProvider = (settings: ProviderSettings): AnalysisProvider =>
+  isProviderReady(settings) ? getProvider(settings.provider) : lexiconProvider;
+
+// Extra requests for items the model dropped or duplicated before giving up on them
+const MAX_REALIGN_REQUESTS = 2;
+
+export type ItemOutcome =
+  | { status: 'ok'; output: EngineOutput }
+  | { status: 'failed'; reason: string };
+
+/**
+ * Matches provider outputs to inputs by id, never by position.
+ * Inputs with exactly one result are aligned; inputs with none or several
+ * are reported back so they can be re-requested. Unknown ids are ignored.
+ */
+export const alignOutputs = (
+  inputs: AnalysisInput[],
+  outputs: AnalysisOutput[]
+): { aligned: Map<string, AnalysisOutput>; missing: AnalysisInput[]; duplicated: AnalysisInput[] } => {
+  const byId = new Map<string, AnalysisOutput[]>();
+  outputs.forEach(o => byId.set(o.inputId, [...(byId.get(o.inputId) || []), o]));
+
+  const aligned = new Map<string, AnalysisOutput>();
+  const missing: AnalysisInput[] = [];
+  const duplicated: AnalysisInput[] = [];
+  inputs.forEach(input => {
+    const matches = byId.get(input.id) || [];
+    if (matches.length === 1) aligned.set(input.id, matches[0]);
+    else if (matches.length === 0) missing.push(input);
+    else duplicated.push(input);
+  });
+  return { aligned, missing, duplicated };
+};
+
+// Records an outcome per input in `outcomes` as requests complete, so a later failure keeps what was aligned
+const runProvider = async (
+  provider: AnalysisProvider,
+  inputs: AnalysisInput[],
+  outcomes: Map<string, ItemOutcome>,
+  settings: ProviderSettings,
+  analysis: AnalysisOptions,
+  call: <T>(task: () => Promise<T>, tokens: number) => Promise<T>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let pending = inputs;
+  for (let request = 0; request <= MAX_REALIGN_REQUESTS && pending.length > 0; request++) {
+    if (signal?.aborted) throw cancelledError();
+    const batch = pending;
+    const outputs = await call(() => provider.analyzeBatch(batch, settings, analysis, signal), estimateRequestTokens(batch.map(input => input.text)));
+    const { aligned, missing, duplicated } = alignOutputs(batch, outputs);
+
+    aligned.forEach(({ inputId, ...output }, id) => {
+      const text = batch.find(input => input.id === id)!.text;
+      outcomes.set(id, {
+        status: 'ok',
+        output: {
+          ...applyTaxonomy(output, analysis.taxonomy),
+          language: output.language || detectLanguage(text),
+          engine: provider.id,
+        },
+      });
+    });
+    missing.forEach(input => outcomes.set(input.id, { status: 'failed', reason: 'The model returned no result for this text.' }));
+    duplicated.forEach(input => outcomes.set(input.id, { status: 'failed', reason: 'The model returned conflicting results for this text.' }));
+
+    pending = [...missing, ...duplicated];
+    if (pending.length > 0) {
+      console.warn(`${provider.label}: ${missing.length} missing and ${duplicated.length} duplicated results, re-requesting.`);
+    }
+  }
+};
+
+export interface AnalyzeOptions {
+  analysis?: AnalysisOptions; // What to extract; defaults to overall sentiment only
+  fallback?: boolean;
+  retry?: RetryPolicy; // Without a policy each chunk is attempted once
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal; // Aborts in-flight requests and backoff waits
+  throttle?: Throttle; // Awaited before every provider request, retries and re-requests included
+}
+
+// Whether a provider failure is handed to the offline lexicon engine instead of being reported
+const shouldFallBack = (err: unknown, provider: AnalysisProvider, options: AnalyzeOptions): err is AnalysisError =>
+  options.fallback !== false
+  && provider.id !== lexiconProvider.id
+  && err instanceof AnalysisError
+  && FALLBACK_CODES.includes(err.code);
+
+/**
+ * Runs a batch through whichever provider is selected in the settings.
+ * Every provider returns the same normalized shape and throws `AnalysisError`.
+ * The returned outcomes are index-aligned with `texts`: results are matched
+ * by input id, and items the model keeps dropping come back as `failed`.
+ * Rate-limited/overloaded calls are retried per `retry`; once retries are
+ * exhausted, or when the provider blocks the content, the offline lexicon
+ * engine takes over the texts still without a result (unless `fallback` is
+ * false); results already aligned from the model are kept. It is also used
+ * when no key is configured.
+ */
+export const analyzeSentimentBatch = async (
+  texts: string[],
+  settings: ProviderSettings,
+  options: AnalyzeOptions = {}
+): Promise<ItemOutcome[]> => {
+  const provider = resolveProvider(settings);
+  const analysis = options.analysis || DEFAULT_ANALYSIS_OPTIONS;
+  const call = <T,>(task: () => Promise<T>, tokens: number): Promise<T> => {
+    const throttled = async () => {
+      await options.throttle?.(tokens);
+      return task();
+    };
+    return options.retry ? withRetry(throttled, options.retry, options.onRetry, options.signal) : throttled();
+  };
+
+  const inputs: AnalysisInput[] = texts.map((text, idx) => ({ id: `t${idx + 1}`, text }));
+  const outcomes = new Map<string, ItemOutcome>();
+
+  try {
+    await runProvider(provider, inputs, outcomes, settings, analysis, call, options.signal);
+  } catch (err) {
+    if (!shouldFallBack(err, provider, options)) throw err;
+
+    const pending = inputs.filter(input => outcomes.get(input.id)?.status !== 'ok');
+    console.warn(`${provider.label} failed (${err.code}), falling back to the offline lexicon engine for ${pending.length} of ${inputs.length} texts.`);
+    await runProvider(lexiconProvider, pending, outcomes, settings, analysis, task => task(), options.signal);
+  }
+  return inputs.map(input => outcomes.get(input.id)!);
+};
+
+/**
+ * Writes an executive summary of the results with the selected provider.
+ * The provider only sees aggregated counts and a handful of sampled texts,
+ * never the whole batch. Retries and the lexicon fallback work as for
+ * `analyzeSentimentBatch`; the fallback writes an extractive summary.
+ */
+export const summarizeResults = async (
+  results: AnalysisResult[],
+  settings: ProviderSettings,
+  options: AnalyzeOptions = {}
+): Promise<ExecutiveSummary> => {
+  const provider = resolveProvider(settings);
+  const analysis = options.analysis || DEFAULT_ANALYSIS_OPTIONS;
+  const digest = buildSummaryDigest(results, analysis.taxonomy);
+  const stamp = (engine: AnalysisProvider, draft: SummaryDraft): ExecutiveSummary => ({
+    ...draft,
+    engine: engine.id,
+    model: engine.id === settings.provider ? settings.model || engine.defaultModel : engine.defaultModel,
+    resultCount: results.length,
+    createdAt: Date.now(),
+  });
+
+  try {
+    const task = () => provider.summarize(digest, settings, analysis, options.signal);
+    const draft = options.retry ? await withRetry(task, options.retry, options.onRetry, options.signal) : await task();
+    return stamp(provider, draft);
+  } catch (err) {
+    if (!shouldFallBack(err, provider, options)) throw err;
+
+    console.warn(`${provider.label} failed (${err.code}), summarizing with the offline lexicon engine.`);
+    return stamp(lexiconProvider, await lexiconProvider.summarize(digest, settings, analysis, options.signal));
+  }
+};
+
+/**
+ * Asks the selected provider to name, describe and merge locally discovered
+ * themes. Only model-backed providers can; there is no lexicon fallback since
+ * the keyword-based names already are the offline result.
+ */
+export const refineThemeNames = async (
+  clusters: ThemeClusterInput[],
+  settings: ProviderSettings,
+  options: AnalyzeOptions = {}
+): Promise<{ refinements: ThemeRefinement[]; engine: ProviderId; model: string }> => {
+  const provider = resolveProvider(settings);
+  if (!provider.refineThemes) {
+    throw new AnalysisError(
+      `${provider.label} cannot name themes.`,
+      'INVALID_REQUEST',
+      'Choose a model-backed provider (and configure its key) to refine theme names.'
+    );
+  }
+  const analysis = options.analysis || DEFAULT_ANALYSIS_OPTIONS;
+  const task = () => provider.refineThemes!(clusters, settings, analysis, options.signal);
+  const refinements = options.retry ? await withRetry(task, options.retry, options.onRetry, options.signal) : await task();
+  return {
+    refinements,
+    engine: provider.id,
+    model: provider.id === settings.provider ? settings.model || provider.defaultModel : provider.defaultModel,
+  };
+};
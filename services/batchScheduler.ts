@@ -0,0 +1,180 @@
+import { ThroughputLimits } from "../types";
+import { abortableSleep } from "./jobControl";
+
+export const DEFAULT_THROUGHPUT_LIMITS: ThroughputLimits = {
+  maxConcurrency: 3,
+  requestsPerMinute: 60,
+  tokensPerMinute: 100000,
+};
+
+// Chunk sizing: short texts are packed together, long ones get small chunks
+const MAX_ITEMS_PER_CHUNK = 16;
+const TARGET_TOKENS_PER_CHUNK = 1500;
+const PROMPT_OVERHEAD_TOKENS = 250; // Instructions + schema sent with every request
+const OUTPUT_TOKENS_PER_ITEM = 80;  // Rough size of one structured result
+
+const WINDOW_MS = 60000;
+
+export interface Chunk {
+  index: number;  // 0-based chunk number, in input order
+  start: number;  // Offset of the first text in the original input
+  texts: string[];
+  tokens: number; // Estimated request + response tokens
+}
+
+// ~4 characters per token is the usual rule of thumb for English text
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Request + response tokens of one call over `texts`; the same estimate a planned chunk carries
+export const estimateRequestTokens = (texts: string[]): number =>
+  PROMPT_OVERHEAD_TOKENS + texts.reduce((acc, text) => acc + estimateTokens(text) + OUTPUT_TOKENS_PER_ITEM, 0);
+
+/**
+ * Splits texts into chunks whose estimated size stays near a token budget,
+ * so a chunk of tweets can hold 16 items while long reviews go a few at a time.
+ */
+export const planChunks = (texts: string[]): Chunk[] => {
+  const chunks: Chunk[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let start = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      index: chunks.length,
+      start,
+      texts: current,
+      tokens: PROMPT_OVERHEAD_TOKENS + currentTokens,
+    });
+    start += current.length;
+    current = [];
+    currentTokens = 0;
+  };
+
+  texts.forEach(text => {
+    const cost = estimateTokens(text) + OUTPUT_TOKENS_PER_ITEM;
+    if (current.length > 0 && (current.length >= MAX_ITEMS_PER_CHUNK || currentTokens + cost > TARGET_TOKENS_PER_CHUNK)) {
+      flush();
+    }
+    current.push(text);
+    currentTokens += cost;
+  });
+  flush();
+
+  return chunks;
+};
+
+/**
+ * Sliding one-minute window over dispatched requests, used to stay under
+ * both the request and token per-minute limits.
+ */
+const createRateWindow = (limits: ThroughputLimits) => {
+  let entries: { at: number; tokens: number }[] = [];
+
+  return {
+    // Milliseconds to wait before a request of `tokens` may start (0 = now)
+    delayFor: (tokens: number, now: number): number => {
+      entries = entries.filter(e => now - e.at < WINDOW_MS);
+      if (entries.length === 0) return 0; // An oversized chunk still has to go eventually
+
+      const usedTokens = entries.reduce((acc, e) => acc + e.tokens, 0);
+      const overRequests = entries.length >= limits.requestsPerMinute;
+      const overTokens = usedTokens + tokens > limits.tokensPerMinute;
+      if (!overRequests && !overTokens) return 0;
+
+      // Wait until the oldest entry leaves the window, then re-check
+      return WINDOW_MS - (now - entries[0].at);
+    },
+    record: (tokens: number, now: number) => {
+      entries.push({ at: now, tokens });
+    },
+  };
+};
+
+// Waits for room in the rate window, then counts a request of `tokens`; rejects if `signal` aborts meanwhile
+export type Throttle = (tokens: number) => Promise<void>;
+
+const createThrottle = (rateWindow: ReturnType<typeof createRateWindow>, signal?: AbortSignal): Throttle =>
+  async (tokens: number) => {
+    for (let delay = rateWindow.delayFor(tokens, Date.now()); delay > 0; delay = rateWindow.delayFor(tokens, Date.now())) {
+      await abortableSleep(delay, signal);
+    }
+    rateWindow.record(tokens, Date.now());
+  };
+
+export interface ScheduleOptions {
+  shouldStop?: () => boolean; // Checked before each dispatch; in-flight chunks always finish
+  waitWhilePaused?: () => Promise<void>; // Awaited before each dispatch (pause at chunk boundaries)
+  signal?: AbortSignal; // Cuts short rate-limit waits; cancelled runs leave the rest queued
+  refill?: () => Promise<Chunk[]>; // Called when the queue runs dry; an empty result ends the run
+}
+
+/**
+ * Runs `worker` over the chunks with at most `maxConcurrency` in flight,
+ * throttled by the per-minute limits. Resolves once every started chunk has
+ * settled and returns the chunks that were never started (stopped or cancelled).
+ * Every provider request counts against the limits, not just a chunk's first
+ * one: the worker gets a throttle to await before each call it makes, retries
+ * and re-requests included.
+ * With `refill`, more chunks are pulled only once the queue is empty, so
+ * streamed input never piles up ahead of the workers.
+ * The worker is expected to handle its own errors.
+ */
+export const runScheduled = async (
+  chunks: Chunk[],
+  limits: ThroughputLimits,
+  worker: (chunk: Chunk, throttle: Throttle) => Promise<void>,
+  options: ScheduleOptions = {}
+): Promise<Chunk[]> => {
+  const queue = [...chunks];
+  const rateWindow = createRateWindow(limits);
+  const throttle = createThrottle(rateWindow, options.signal);
+  let exhausted = !options.refill;
+  let refilling: Promise<void> | null = null;
+
+  // One refill at a time; lanes that find the queue empty all wait on it
+  const refill = () => {
+    if (!refilling) {
+      refilling = options.refill!()
+        .then(more => {
+          if (more.length === 0) exhausted = true;
+          else queue.push(...more);
+        })
+        .finally(() => { refilling = null; });
+    }
+    return refilling;
+  };
+
+  const lane = async () => {
+    while (queue.length > 0 || !exhausted) {
+      await options.waitWhilePaused?.();
+      if (options.shouldStop?.() || options.signal?.aborted) return;
+
+      if (queue.length === 0) {
+        await refill();
+        continue;
+      }
+
+      // Chunks stay queued while the window is full; the worker's throttle records the actual requests
+      const next = queue[0];
+      const delay = rateWindow.delayFor(next.tokens, Date.now());
+      if (delay > 0) {
+        try {
+          await abortableSleep(delay, options.signal);
+        } catch {
+          return; // Cancelled while throttled
+        }
+        continue; // Another lane may have taken the chunk meanwhile
+      }
+
+      queue.shift();
+      await worker(next, throttle);
+    }
+  };
+
+  const lanes = Math.max(1, options.refill ? limits.maxConcurrency : Math.min(limits.maxConcurrency, chunks.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+
+  return queue;
+};
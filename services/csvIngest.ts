@@ -0,0 +1,86 @@
+import { BatchItem, MetadataField } from "../types";
+import { CsvDelimiter, CsvEncoding, MalformedRow, checkRow, createCsvParser } from "./csvParser";
+import { buildMetadata } from "./metadata";
+
+/**
+ * Everything needed to turn a file into batch items without looking at it
+ * again: the import dialog settles these on a preview of the first rows.
+ */
+export interface CsvIngestConfig {
+  format: 'csv' | 'lines'; // 'lines' = plain text, one item per non-empty line
+  encoding: CsvEncoding;
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  textColumn: number;
+  width: number; // Fields every row must have
+  columns: { index: number; field: MetadataField }[]; // Columns kept as metadata
+}
+
+export interface IngestBatch {
+  items: BatchItem[];
+  skipped: MalformedRow[];  // Rows in this slice that can't be analyzed
+  warnings: MalformedRow[]; // Formatting issues in rows that were still read
+  bytesRead: number;
+  totalBytes: number;
+  done: boolean;
+}
+
+// Worker protocol: `start` once, then one `next` per slice wanted
+export type IngestRequest =
+  | { type: 'start'; file: Blob; config: CsvIngestConfig }
+  | { type: 'next' };
+
+export type IngestResponse =
+  | { type: 'batch'; batch: IngestBatch }
+  | { type: 'error'; message: string };
+
+const SLICE_BYTES = 256 * 1024;
+
+/**
+ * Reads a file one slice per `next()` call. Only the current slice and the
+ * row being parsed are held in memory, whatever the file size.
+ */
+export const createFileReader = (file: Blob, config: CsvIngestConfig) => {
+  const decoder = new TextDecoder(config.encoding);
+  const parser = createCsvParser(config.delimiter);
+  let offset = 0;
+  let headerPending = config.format === 'csv' && config.hasHeader;
+  let lineCarry = ''; // Plain text: the unfinished last line of the previous slice
+
+  const fromLines = (text: string, final: boolean): BatchItem[] => {
+    const lines = (lineCarry + text).split(/\r\n|\r|\n/);
+    lineCarry = final ? '' : lines.pop() || '';
+    return lines.map(line => line.trim()).filter(Boolean).map(text => ({ text }));
+  };
+
+  const fromCsv = (text: string, final: boolean): Pick<IngestBatch, 'items' | 'skipped' | 'warnings'> => {
+    const parsed = final ? parser.finish(text) : parser.push(text);
+    const items: BatchItem[] = [];
+    const skipped: MalformedRow[] = [];
+    parsed.rows.forEach((row, idx) => {
+      if (headerPending) {
+        headerPending = false;
+        return;
+      }
+      const checked = checkRow(row, parsed.lines[idx], config.width, config.textColumn);
+      if ('reason' in checked) skipped.push(checked);
+      else items.push({ text: checked.text, metadata: buildMetadata(row, config.columns) });
+    });
+    return { items, skipped, warnings: parsed.malformed };
+  };
+
+  return {
+    next: async (): Promise<IngestBatch> => {
+      const end = Math.min(file.size, offset + SLICE_BYTES);
+      const bytes = new Uint8Array(await file.slice(offset, end).arrayBuffer());
+      offset = end;
+      const done = offset >= file.size;
+      const text = decoder.decode(bytes, { stream: !done });
+
+      if (config.format === 'lines') {
+        return { items: fromLines(text, done), skipped: [], warnings: [], bytesRead: offset, totalBytes: file.size, done };
+      }
+      return { ...fromCsv(text, done), bytesRead: offset, totalBytes: file.size, done };
+    },
+  };
+};
@@ -0,0 +1,21 @@
+/// <reference lib="webworker" />
+import { IngestRequest, IngestResponse, createFileReader } from './csvIngest';
+
+// Parses imported files off the main thread, one slice per request
+let reader: ReturnType<typeof createFileReader> | null = null;
+
+const reply = (message: IngestResponse) => (self as unknown as DedicatedWorkerGlobalScope).postMessage(message);
+
+self.onmessage = async (event: MessageEvent<IngestRequest>) => {
+  const request = event.data;
+  if (request.type === 'start') {
+    reader = createFileReader(request.file, request.config);
+    return;
+  }
+  try {
+    if (!reader) throw new Error('The import was not started.');
+    reply({ type: 'batch', batch: await reader.next() });
+  } catch (err) {
+    reply({ type: 'error', message: err instanceof Error ? err.message : 'The file could not be read.' });
+  }
+};
@@ -0,0 +1,260 @@
+/**
+ * RFC 4180 CSV parsing: quoted fields may contain delimiters, doubled quotes
+ * and line breaks; records end at CRLF, LF or CR. Semicolon and tab separated
+ * exports (common from spreadsheets in many locales) are handled the same way.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvEncoding = 'utf-8' | 'windows-1252' | 'utf-16le' | 'utf-16be';
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const CSV_ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 / Latin-1' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+export interface MalformedRow {
+  line: number;   // 1-based source line where the record starts
+  reason: string;
+}
+
+export interface CsvParseResult {
+  rows: string[][];
+  lines: number[]; // 1-based source line each row starts on
+  malformed: MalformedRow[]; // Problems found while parsing; affected rows are still returned
+}
+
+/**
+ * Decodes raw file bytes. Byte order marks win; otherwise UTF-8 is tried
+ * strictly and Windows-1252 (what Excel often writes) is the fallback.
+ */
+export const decodeText = (buffer: ArrayBuffer, encoding?: CsvEncoding, partial = false): { text: string; encoding: CsvEncoding } => {
+  const bytes = new Uint8Array(buffer);
+  const detected = encoding || detectEncoding(bytes, partial);
+  // TextDecoder strips a matching BOM by default; a partial buffer may end mid-character
+  return { text: new TextDecoder(detected).decode(bytes, { stream: partial }), encoding: detected };
+};
+
+/**
+ * Encoding of a file from its first bytes. `partial` means the bytes are only
+ * the head of the file, so a multi-byte character cut off at the end is fine.
+ */
+export const detectEncoding = (bytes: Uint8Array, partial = false): CsvEncoding => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: partial });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+// Picks the delimiter that splits the first lines into the most consistent column count
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.slice(0, 20000);
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const { rows } = parseCsv(sample, value);
+    const counts = rows.slice(0, 20).map(r => r.length);
+    if (counts.length === 0 || counts[0] < 2) return;
+    const consistent = counts.filter(c => c === counts[0]).length;
+    const score = consistent * counts[0];
+    if (score > best.score) best = { delimiter: value, score };
+  });
+
+  return best.delimiter;
+};
+
+export interface CsvStreamParser {
+  push: (text: string) => CsvParseResult;   // Rows completed by this piece of text
+  finish: (text?: string) => CsvParseResult; // Flushes the last record
+}
+
+/**
+ * Incremental parser: text can arrive in pieces of any size (a quoted field
+ * or a CRLF may be split between them) and completed rows are returned as
+ * soon as they end, so large files never have to be held as one string.
+ */
+export const createCsvParser = (delimiter: CsvDelimiter = ','): CsvStreamParser => {
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStarted = false; // True once the current field has content or opened a quote
+  let line = 1;
+  let rowStartLine = 1;
+  let carry = '';           // Held back when a piece ends on a character that depends on the next one
+  let atStart = true;
+
+  const consume = (input: string, final: boolean): CsvParseResult => {
+    let text = carry + input;
+    carry = '';
+    if (atStart && text.length > 0) {
+      if (text.charCodeAt(0) === 0xFEFF) text = text.slice(1);
+      atStart = false;
+    }
+    // A trailing CR may be half of a CRLF and trailing quotes may be half of an escaped ""
+    if (!final) {
+      const keep = text.endsWith('\r') ? 1 : text.length - text.replace(/"+$/, '').length;
+      carry = text.slice(text.length - keep);
+      text = text.slice(0, text.length - keep);
+    }
+
+    const rows: string[][] = [];
+    const lines: number[] = [];
+    const malformed: MalformedRow[] = [];
+
+    const endField = () => {
+      row.push(field);
+      field = '';
+      fieldStarted = false;
+    };
+    const endRow = () => {
+      endField();
+      // A completely empty line is not a record
+      if (!(row.length === 1 && row[0] === '')) {
+        rows.push(row);
+        lines.push(rowStartLine);
+      }
+      row = [];
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (inQuotes) {
+        if (ch === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+          field += ch;
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        if (!fieldStarted) {
+          inQuotes = true;
+          fieldStarted = true;
+        } else {
+          // Stray quote inside an unquoted field (or after a closing quote): keep it literally
+          malformed.push({ line, reason: 'Unexpected quote inside a field.' });
+          field += ch;
+        }
+      } else if (ch === delimiter) {
+        endField();
+      } else if (ch === '\r' || ch === '\n') {
+        if (ch === '\r' && text[i + 1] === '\n') i++;
+        endRow();
+        line++;
+        rowStartLine = line;
+      } else {
+        field += ch;
+        fieldStarted = true;
+      }
+    }
+
+    if (final) {
+      if (inQuotes) {
+        malformed.push({ line: rowStartLine, reason: 'Quoted field is never closed; the rest of the file was read into it.' });
+      }
+      if (fieldStarted || field !== '' || row.length > 0) endRow();
+    }
+
+    return { rows, lines, malformed };
+  };
+
+  return {
+    push: (text) => consume(text, false),
+    finish: (text = '') => consume(text, true),
+  };
+};
+
+export const parseCsv = (input: string, delimiter: CsvDelimiter = ','): CsvParseResult =>
+  createCsvParser(delimiter).finish(input);
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+  lines: number[]; // Source line of each row, for reports
+}
+
+export const toTable = ({ rows, lines }: CsvParseResult, hasHeader: boolean): CsvTable => {
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const headers: string[] = [];
+  for (let idx = 0; idx < width; idx++) {
+    const base = (hasHeader && rows[0]?.[idx]?.trim()) || `Column ${idx + 1}`;
+    // Headers double as metadata keys, so duplicates get a numeric suffix
+    let header = base;
+    for (let n = 2; headers.includes(header); n++) header = `${base} (${n})`;
+    headers.push(header);
+  }
+  return {
+    headers,
+    rows: hasHeader ? rows.slice(1) : rows,
+    lines: hasHeader ? lines.slice(1) : lines,
+  };
+};
+
+const TEXT_COLUMN_HINT = /text|review|content|comment|body|message|feedback|description|tweet|post/i;
+
+// A header that looks like free text wins; otherwise the column with the longest values
+export const guessTextColumn = (table: CsvTable): number => {
+  const byName = table.headers.findIndex(h => TEXT_COLUMN_HINT.test(h));
+  if (byName !== -1) return byName;
+
+  const sample = table.rows.slice(0, 50);
+  let best = { idx: 0, length: -1 };
+  table.headers.forEach((_, idx) => {
+    const avg = sample.reduce((acc, r) => acc + (r[idx] || '').length, 0) / Math.max(1, sample.length);
+    if (avg > best.length) best = { idx, length: avg };
+  });
+  return best.idx;
+};
+
+export interface SelectedRow {
+  index: number; // Index into table.rows
+  text: string;
+}
+
+/**
+ * Picks the rows that can be analyzed. Rows with a different number of fields
+ * than the header, or an empty text cell, are skipped and reported.
+ */
+export const selectRows = (table: CsvTable, textColumn: number): { selected: SelectedRow[]; skipped: MalformedRow[] } => {
+  const selected: SelectedRow[] = [];
+  const skipped: MalformedRow[] = [];
+
+  table.rows.forEach((row, index) => {
+    const checked = checkRow(row, table.lines[index], table.headers.length, textColumn);
+    if ('reason' in checked) skipped.push(checked);
+    else selected.push({ index, text: checked.text });
+  });
+
+  return { selected, skipped };
+};
+
+// The text of one row, or why it can't be analyzed
+export const checkRow = (row: string[], line: number, width: number, textColumn: number): { text: string } | MalformedRow => {
+  if (row.length !== width) {
+    return { line, reason: `Expected ${width} fields but found ${row.length}.` };
+  }
+  const text = (row[textColumn] || '').trim();
+  if (!text) return { line, reason: 'The text column is empty.' };
+  return { text };
+};
@@ -0,0 +1,165 @@
+import { EmotionLabel, EmotionTaxonomy, TaxonomyId } from "../types";
+
+interface PresetLabel extends EmotionLabel {
+  aliases: string[]; // Free-text labels (lowercase) that map onto this one
+}
+
+const EKMAN: PresetLabel[] = [
+  { label: 'Joy', emoji: '😄', aliases: ['happiness', 'happy', 'delight', 'delighted', 'excitement', 'excited', 'amusement', 'gratitude', 'grateful', 'love', 'satisfaction', 'satisfied', 'pride', 'relief', 'contentment', 'admiration', 'optimism', 'enthusiasm', 'approval', 'pleasure', 'appreciation', 'elation', 'trust', 'caring', 'hope', 'thrilled'] },
+  { label: 'Sadness', emoji: '😢', aliases: ['sad', 'disappointment', 'disappointed', 'grief', 'remorse', 'regret', 'sorrow', 'melancholy', 'loneliness', 'embarrassment', 'hurt', 'despair'] },
+  { label: 'Anger', emoji: '😠', aliases: ['angry', 'frustration', 'frustrated', 'annoyance', 'annoyed', 'irritation', 'irritated', 'rage', 'outrage', 'fury', 'furious', 'resentment', 'disapproval', 'impatience', 'exasperation'] },
+  { label: 'Fear', emoji: '😨', aliases: ['afraid', 'scared', 'anxiety', 'anxious', 'worry', 'worried', 'nervousness', 'nervous', 'concern', 'concerned', 'apprehension', 'dread', 'panic'] },
+  { label: 'Surprise', emoji: '😮', aliases: ['surprised', 'amazement', 'amazed', 'astonishment', 'shock', 'shocked', 'confusion', 'confused', 'curiosity', 'realization', 'awe', 'anticipation'] },
+  { label: 'Disgust', emoji: '🤢', aliases: ['disgusted', 'revulsion', 'contempt', 'aversion', 'loathing'] },
+  { label: 'Neutral', emoji: '😐', aliases: ['none', 'indifference', 'calm', 'neutrality'] },
+];
+
+const PLUTCHIK: PresetLabel[] = [
+  { label: 'Joy', emoji: '😄', aliases: ['happiness', 'happy', 'delight', 'excitement', 'excited', 'amusement', 'love', 'satisfaction', 'satisfied', 'pride', 'relief', 'contentment', 'enthusiasm', 'pleasure', 'elation', 'thrilled', 'serenity', 'ecstasy'] },
+  { label: 'Trust', emoji: '🤝', aliases: ['admiration', 'acceptance', 'confidence', 'approval', 'gratitude', 'grateful', 'appreciation', 'caring', 'loyalty'] },
+  { label: 'Fear', emoji: '😨', aliases: ['afraid', 'scared', 'anxiety', 'anxious', 'worry', 'worried', 'nervousness', 'nervous', 'concern', 'apprehension', 'terror'] },
+  { label: 'Surprise', emoji: '😮', aliases: ['surprised', 'amazement', 'astonishment', 'shock', 'confusion', 'confused', 'realization', 'awe', 'distraction'] },
+  { label: 'Sadness', emoji: '😢', aliases: ['sad', 'disappointment', 'disappointed', 'grief', 'remorse', 'regret', 'sorrow', 'loneliness', 'embarrassment', 'pensiveness'] },
+  { label: 'Disgust', emoji: '🤢', aliases: ['disgusted', 'revulsion', 'contempt', 'aversion', 'loathing', 'boredom'] },
+  { label: 'Anger', emoji: '😠', aliases: ['angry', 'frustration', 'frustrated', 'annoyance', 'annoyed', 'irritation', 'rage', 'outrage', 'fury', 'furious', 'resentment', 'disapproval', 'impatience'] },
+  { label: 'Anticipation', emoji: '🤔', aliases: ['interest', 'curiosity', 'optimism', 'hope', 'eagerness', 'expectation', 'desire', 'vigilance'] },
+  { label: 'Neutral', emoji: '😐', aliases: ['none', 'indifference', 'calm'] },
+];
+
+const GOEMOTIONS: PresetLabel[] = [
+  { label: 'Admiration', emoji: '🤩', aliases: ['respect', 'impressed'] },
+  { label: 'Amusement', emoji: '😂', aliases: ['amused', 'humor', 'funny'] },
+  { label: 'Anger', emoji: '😠', aliases: ['angry', 'rage', 'fury', 'furious', 'outrage'] },
+  { label: 'Annoyance', emoji: '😒', aliases: ['annoyed', 'frustration', 'frustrated', 'irritation', 'irritated', 'impatience', 'exasperation'] },
+  { label: 'Approval', emoji: '👍', aliases: ['acceptance', 'agreement', 'satisfaction', 'satisfied'] },
+  { label: 'Caring', emoji: '🤗', aliases: ['care', 'concern', 'compassion', 'empathy'] },
+  { label: 'Confusion', emoji: '😕', aliases: ['confused', 'puzzlement', 'uncertainty'] },
+  { label: 'Curiosity', emoji: '🧐', aliases: ['curious', 'interest', 'interested'] },
+  { label: 'Desire', emoji: '😍', aliases: ['longing', 'wanting', 'craving'] },
+  { label: 'Disappointment', emoji: '😞', aliases: ['disappointed', 'letdown'] },
+  { label: 'Disapproval', emoji: '👎', aliases: ['criticism', 'dissatisfaction', 'dissatisfied'] },
+  { label: 'Disgust', emoji: '🤢', aliases: ['disgusted', 'revulsion', 'contempt'] },
+  { label: 'Embarrassment', emoji: '😳', aliases: ['embarrassed', 'shame', 'awkwardness'] },
+  { label: 'Excitement', emoji: '🎉', aliases: ['excited', 'thrilled', 'enthusiasm', 'anticipation'] },
+  { label: 'Fear', emoji: '😨', aliases: ['afraid', 'scared', 'terror', 'dread'] },
+  { label: 'Gratitude', emoji: '🙏', aliases: ['grateful', 'thankful', 'thanks', 'appreciation'] },
+  { label: 'Grief', emoji: '😭', aliases: ['mourning', 'heartbreak'] },
+  { label: 'Joy', emoji: '😄', aliases: ['happiness', 'happy', 'delight', 'delighted', 'pleasure', 'elation', 'contentment'] },
+  { label: 'Love', emoji: '❤️', aliases: ['affection', 'adoration', 'fondness'] },
+  { label: 'Nervousness', emoji: '😬', aliases: ['nervous', 'anxiety', 'anxious', 'worry', 'worried', 'apprehension'] },
+  { label: 'Optimism', emoji: '🌟', aliases: ['hope', 'hopeful', 'confidence'] },
+  { label: 'Pride', emoji: '🦚', aliases: ['proud', 'accomplishment'] },
+  { label: 'Realization', emoji: '💡', aliases: ['insight', 'understanding'] },
+  { label: 'Relief', emoji: '😌', aliases: ['relieved', 'reassurance'] },
+  { label: 'Remorse', emoji: '😔', aliases: ['regret', 'guilt', 'sorry'] },
+  { label: 'Sadness', emoji: '😢', aliases: ['sad', 'sorrow', 'melancholy', 'loneliness', 'hurt'] },
+  { label: 'Surprise', emoji: '😮', aliases: ['surprised', 'amazement', 'astonishment', 'shock', 'shocked', 'awe'] },
+  { label: 'Neutral', emoji: '😐', aliases: ['none', 'indifference', 'calm'] },
+];
+
+const PRESETS: Record<Exclude<TaxonomyId, 'custom'>, { name: string; labels: PresetLabel[] }> = {
+  ekman: { name: 'Ekman (6 basic)', labels: EKMAN },
+  plutchik: { name: 'Plutchik (8 primary)', labels: PLUTCHIK },
+  goemotions: { name: 'GoEmotions (27)', labels: GOEMOTIONS },
+};
+
+const stripAliases = (labels: PresetLabel[]): EmotionLabel[] => labels.map(({ label, emoji }) => ({ label, emoji }));
+
+export const TAXONOMY_OPTIONS: { id: TaxonomyId; name: string }[] = [
+  ...Object.entries(PRESETS).map(([id, preset]) => ({ id: id as TaxonomyId, name: preset.name })),
+  { id: 'custom', name: 'Custom list' },
+];
+
+export const getPresetTaxonomy = (id: Exclude<TaxonomyId, 'custom'>): EmotionTaxonomy => ({
+  id,
+  name: PRESETS[id].name,
+  labels: stripAliases(PRESETS[id].labels),
+});
+
+export const DEFAULT_TAXONOMY = getPresetTaxonomy('ekman');
+
+/**
+ * Parses a custom taxonomy written one label per line ("Label 😀" or "Label, 😀").
+ * Lines without an emoji get a neutral face.
+ */
+export const parseCustomTaxonomy = (source: string): EmotionTaxonomy => {
+  const labels: EmotionLabel[] = [];
+  source.split(/\r?\n/).forEach(line => {
+    const emoji = line.match(/\p{Extended_Pictographic}️?/u)?.[0] || '😐';
+    const label = line.replace(/\p{Extended_Pictographic}️?/gu, '').replace(/[,:;|]/g, ' ').trim().replace(/\s+/g, ' ');
+    if (label && !labels.some(l => l.label.toLowerCase() === label.toLowerCase())) {
+      labels.push({ label, emoji });
+    }
+  });
+  return { id: 'custom', name: 'Custom list', labels };
+};
+
+export const formatCustomTaxonomy = (taxonomy: EmotionTaxonomy): string =>
+  taxonomy.labels.map(l => `${l.label} ${l.emoji}`).join('\n');
+
+// Case, width and accent forms are folded and punctuation ignored, so "Self-Doubt", "self doubt?" and
+// "ÜBERRASCHUNG" match their labels; letters of any script are kept
+const normalize = (value: string): string =>
+  value.normalize('NFKC').toLocaleLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const findInPreset = (labels: PresetLabel[], key: string): PresetLabel | undefined =>
+  labels.find(l => normalize(l.label) === key) || labels.find(l => l.aliases.includes(key));
+
+// Where emotions no label of the taxonomy covers are counted; the engine's label stays in `rawEmotion`
+export const UNMAPPED_EMOTION: EmotionLabel = { label: 'Other', emoji: '❔' };
+
+// The taxonomy's labels plus the unmapped bucket, for charts and filters that list every label in use
+export const emotionLabelsOf = (taxonomy: EmotionTaxonomy): EmotionLabel[] =>
+  taxonomy.labels.some(l => normalize(l.label) === normalize(UNMAPPED_EMOTION.label))
+    ? taxonomy.labels
+    : [...taxonomy.labels, UNMAPPED_EMOTION];
+
+/**
+ * Maps any emotion string (model output, legacy results, other taxonomies)
+ * onto a label of `taxonomy`. Custom lists are matched directly first and then
+ * through the Ekman families, so "Frustration" still lands on a custom "Anger".
+ * A missing emotion counts as "Neutral" when the taxonomy has it; emotions
+ * that match nothing go to the unmapped bucket rather than into a real class.
+ */
+export const mapEmotion = (emotion: string, taxonomy: EmotionTaxonomy): EmotionLabel => {
+  const key = normalize(emotion || '');
+  const byLabel = (label: string) => taxonomy.labels.find(l => normalize(l.label) === normalize(label));
+
+  if (!key) return byLabel('neutral') || UNMAPPED_EMOTION;
+
+  const direct = byLabel(key);
+  if (direct) return direct;
+
+  if (taxonomy.id !== 'custom') {
+    const preset = findInPreset(PRESETS[taxonomy.id].labels, key);
+    const match = preset && byLabel(preset.label);
+    if (match) return match;
+  } else {
+    // Try every preset: the label it maps to may exist in the custom list
+    for (const preset of Object.values(PRESETS)) {
+      const found = findInPreset(preset.labels, key);
+      const match = found && byLabel(found.label);
+      if (match) return match;
+    }
+  }
+
+  return byLabel(UNMAPPED_EMOTION.label) || UNMAPPED_EMOTION;
+};
+
+/**
+ * Re-labels a result (or engine output) under `taxonomy`. The engine's original
+ * label is kept in `rawEmotion`, so switching taxonomies back and forth is lossless.
+ */
+export const applyTaxonomy = <T extends { emotion: string; emotionEmoji: string; rawEmotion?: string }>(
+  item: T,
+  taxonomy: EmotionTaxonomy
+): T => {
+  const source = item.rawEmotion || item.emotion;
+  const mapped = mapEmotion(source, taxonomy);
+  return {
+    ...item,
+    emotion: mapped.label,
+    emotionEmoji: mapped.emoji,
+    rawEmotion: mapped.label === source ? undefined : source,
+  };
+};
@@ -0,0 +1,269 @@
+import { AnalysisResult, EmotionTaxonomy, MetadataField, MetadataValue, SentimentType } from "../types";
+import { emotionLabelsOf, mapEmotion } from "./emotionTaxonomy";
+import { modelLabels } from "./review";
+
+/**
+ * How numeric sentiment labels read: 'signed' is -1 / 0 / 1 (by sign),
+ * 'binary' is 0 = negative / 1 = positive. 'auto' picks binary when every
+ * numeric label in the column is 0 or 1, signed otherwise.
+ */
+export type SentimentScale = 'auto' | 'signed' | 'binary';
+
+export const SENTIMENT_SCALES: { value: SentimentScale; label: string }[] = [
+  { value: 'auto', label: 'Detect' },
+  { value: 'signed', label: '-1 / 0 / 1' },
+  { value: 'binary', label: '0 = negative / 1 = positive' },
+];
+
+// Which imported metadata columns hold the ground truth; emotion and sarcasm are optional
+export interface EvaluationConfig {
+  sentimentKey: string;
+  sentimentScale: SentimentScale;
+  emotionKey: string | null;
+  sarcasmKey: string | null;
+}
+
+export interface ClassMetrics {
+  label: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number; // Items with this ground-truth label
+}
+
+// counts[truth][predicted], in the order of `labels`
+export interface ConfusionMatrix {
+  labels: string[];
+  counts: number[][];
+}
+
+export interface LabelMetrics {
+  evaluated: number;
+  accuracy: number;
+  macroF1: number;
+  classes: ClassMetrics[];
+  confusion: ConfusionMatrix;
+}
+
+export interface BinaryMetrics {
+  evaluated: number;
+  truePositive: number;
+  falsePositive: number;
+  falseNegative: number;
+  trueNegative: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface CalibrationBin {
+  label: string;         // e.g. "70-80%"
+  count: number;
+  avgConfidence: number; // 0-100
+  accuracy: number;      // 0-100, share of correct sentiment predictions
+}
+
+export interface Misclassification {
+  result: AnalysisResult;
+  expected: SentimentType;
+  predicted: SentimentType;
+}
+
+export interface EvaluationReport {
+  sentiment: LabelMetrics;
+  emotion: LabelMetrics | null;
+  sarcasm: BinaryMetrics | null;
+  calibration: CalibrationBin[];
+  expectedCalibrationError: number; // 0-100, confidence gap weighted by bin size
+  misclassified: Misclassification[];
+  skipped: number; // Results without a readable ground-truth sentiment
+  sentimentScale: Exclude<SentimentScale, 'auto'>; // The scale numeric labels were read on
+}
+
+const CALIBRATION_BINS = 10;
+
+const SENTIMENT_ALIASES: Record<string, SentimentType> = {
+  positive: SentimentType.POSITIVE, pos: SentimentType.POSITIVE, '+': SentimentType.POSITIVE,
+  neutral: SentimentType.NEUTRAL, neu: SentimentType.NEUTRAL, mixed: SentimentType.NEUTRAL,
+  negative: SentimentType.NEGATIVE, neg: SentimentType.NEGATIVE, '-': SentimentType.NEGATIVE,
+};
+
+const numericLabel = (value: MetadataValue | undefined): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const key = value.trim();
+  const num = Number(key);
+  return key !== '' && Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Reads a ground-truth sentiment: names ("positive", "neg"...) or numbers on
+ * the given scale. On the binary scale only 0 and 1 are labels. Anything
+ * else counts as unlabeled.
+ */
+export const parseSentimentLabel = (
+  value: MetadataValue | undefined,
+  scale: Exclude<SentimentScale, 'auto'> = 'signed'
+): SentimentType | null => {
+  if (typeof value === 'string' && SENTIMENT_ALIASES[value.trim().toLowerCase()]) return SENTIMENT_ALIASES[value.trim().toLowerCase()];
+  const num = numericLabel(value);
+  if (num === null) return null;
+  if (scale === 'binary') return num === 1 ? SentimentType.POSITIVE : num === 0 ? SentimentType.NEGATIVE : null;
+  return num > 0 ? SentimentType.POSITIVE : num < 0 ? SentimentType.NEGATIVE : SentimentType.NEUTRAL;
+};
+
+// Binary when the column's numeric labels are all 0 or 1 and both occur; a lone value says nothing
+export const detectSentimentScale = (results: AnalysisResult[], key: string): Exclude<SentimentScale, 'auto'> => {
+  const seen = new Set<number>();
+  for (const result of results) {
+    const num = numericLabel(result.metadata?.[key]);
+    if (num === null) continue;
+    if (num !== 0 && num !== 1) return 'signed';
+    seen.add(num);
+  }
+  return seen.size === 2 ? 'binary' : 'signed';
+};
+
+export const parseFlagLabel = (value: MetadataValue | undefined): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1', 'sarcastic'].includes(key)) return true;
+  if (['false', 'no', 'n', '0', 'not sarcastic'].includes(key)) return false;
+  return null;
+};
+
+const findField = (fields: MetadataField[], pattern: RegExp) => fields.find(f => pattern.test(f.key) || pattern.test(f.label))?.key || null;
+
+// Picks the columns a labeled dataset most likely uses for each ground truth
+export const guessEvaluationConfig = (fields: MetadataField[]): EvaluationConfig => ({
+  sentimentKey: findField(fields, /sentiment|polarity|^label$|^gold|^truth|^target$/i) || '',
+  sentimentScale: 'auto',
+  emotionKey: findField(fields, /emotion/i),
+  sarcasmKey: findField(fields, /sarcas|irony|ironic/i),
+});
+
+const ratio = (num: number, den: number) => den > 0 ? num / den : 0;
+
+const labelMetrics = (pairs: { truth: string; predicted: string }[], labels: string[]): LabelMetrics => {
+  const index = new Map<string, number>(labels.map((l, i) => [l, i]));
+  const counts = labels.map(() => labels.map(() => 0));
+  let evaluated = 0;
+  pairs.forEach(({ truth, predicted }) => {
+    if (!index.has(truth) || !index.has(predicted)) return; // e.g. a result from an older, unmapped label set
+    counts[index.get(truth)!][index.get(predicted)!]++;
+    evaluated++;
+  });
+
+  const classes = labels.map((label, i) => {
+    const tp = counts[i][i];
+    const predictedAs = counts.reduce((acc, row) => acc + row[i], 0);
+    const support = counts[i].reduce((acc, n) => acc + n, 0);
+    const precision = ratio(tp, predictedAs);
+    const recall = ratio(tp, support);
+    return { label, precision, recall, f1: ratio(2 * precision * recall, precision + recall), support };
+  });
+  const correct = labels.reduce((acc, _, i) => acc + counts[i][i], 0);
+  // Classes that never occur in the ground truth don't drag the macro average down
+  const present = classes.filter(c => c.support > 0);
+
+  return {
+    evaluated,
+    accuracy: ratio(correct, evaluated),
+    macroF1: ratio(present.reduce((acc, c) => acc + c.f1, 0), present.length),
+    classes,
+    confusion: { labels, counts },
+  };
+};
+
+const binaryMetrics = (pairs: { truth: boolean; predicted: boolean }[]): BinaryMetrics => {
+  const count = (truth: boolean, predicted: boolean) => pairs.filter(p => p.truth === truth && p.predicted === predicted).length;
+  const truePositive = count(true, true);
+  const falsePositive = count(false, true);
+  const falseNegative = count(true, false);
+  const trueNegative = count(false, false);
+  const precision = ratio(truePositive, truePositive + falsePositive);
+  const recall = ratio(truePositive, truePositive + falseNegative);
+  return {
+    evaluated: pairs.length,
+    truePositive, falsePositive, falseNegative, trueNegative,
+    accuracy: ratio(truePositive + trueNegative, pairs.length),
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+  };
+};
+
+/**
+ * Scores the engine's predictions against ground-truth metadata columns.
+ * Human corrections are ignored here: it's the model being measured.
+ */
+export const evaluateResults = (
+  results: AnalysisResult[],
+  config: EvaluationConfig,
+  taxonomy: EmotionTaxonomy
+): EvaluationReport => {
+  const sentimentPairs: { truth: SentimentType; predicted: SentimentType; confidence: number; result: AnalysisResult }[] = [];
+  const emotionPairs: { truth: string; predicted: string }[] = [];
+  const sarcasmPairs: { truth: boolean; predicted: boolean }[] = [];
+  let skipped = 0;
+  const sentimentScale = config.sentimentScale === 'auto' ? detectSentimentScale(results, config.sentimentKey) : config.sentimentScale;
+
+  results.forEach(result => {
+    const prediction = modelLabels(result);
+    const truth = parseSentimentLabel(result.metadata?.[config.sentimentKey], sentimentScale);
+    if (truth) {
+      sentimentPairs.push({ truth, predicted: prediction.sentiment, confidence: result.confidence, result });
+    } else {
+      skipped++;
+    }
+
+    const rawEmotion = config.emotionKey ? result.metadata?.[config.emotionKey] : null;
+    if (typeof rawEmotion === 'string' && rawEmotion.trim()) {
+      // Free-text gold emotions are mapped onto the taxonomy the model answered in
+      emotionPairs.push({ truth: mapEmotion(rawEmotion, taxonomy).label, predicted: prediction.emotion });
+    }
+
+    const sarcastic = config.sarcasmKey ? parseFlagLabel(result.metadata?.[config.sarcasmKey]) : null;
+    if (sarcastic !== null) sarcasmPairs.push({ truth: sarcastic, predicted: prediction.isSarcastic });
+  });
+
+  const emotionLabels = Array.from(new Set<string>([
+    ...emotionLabelsOf(taxonomy).map(l => l.label),
+    ...emotionPairs.flatMap(p => [p.truth, p.predicted]),
+  ])).filter(label => emotionPairs.some(p => p.truth === label || p.predicted === label));
+
+  const calibration: CalibrationBin[] = [];
+  for (let bin = 0; bin < CALIBRATION_BINS; bin++) {
+    const from = bin / CALIBRATION_BINS;
+    const to = (bin + 1) / CALIBRATION_BINS;
+    const inBin = sentimentPairs.filter(p => p.confidence >= from && (p.confidence < to || (bin === CALIBRATION_BINS - 1 && p.confidence <= to)));
+    calibration.push({
+      label: `${Math.round(from * 100)}-${Math.round(to * 100)}%`,
+      count: inBin.length,
+      avgConfidence: Math.round(ratio(inBin.reduce((acc, p) => acc + p.confidence, 0), inBin.length) * 100),
+      accuracy: Math.round(ratio(inBin.filter(p => p.truth === p.predicted).length, inBin.length) * 100),
+    });
+  }
+  const expectedCalibrationError = calibration.reduce(
+    (acc, bin) => acc + ratio(bin.count, sentimentPairs.length) * Math.abs(bin.avgConfidence - bin.accuracy),
+    0
+  );
+
+  return {
+    sentiment: labelMetrics(sentimentPairs, [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE]),
+    emotion: emotionPairs.length > 0 ? labelMetrics(emotionPairs, emotionLabels) : null,
+    sarcasm: sarcasmPairs.length > 0 ? binaryMetrics(sarcasmPairs) : null,
+    calibration,
+    expectedCalibrationError,
+    // Confidently wrong first: those are the ones worth reading
+    misclassified: sentimentPairs
+      .filter(p => p.truth !== p.predicted)
+      .sort((a, b) => b.confidence - a.confidence)
+      .map(({ result, truth, predicted }) => ({ result, expected: truth, predicted })),
+    skipped,
+    sentimentScale,
+  };
+};
@@ -0,0 +1,155 @@
+import { AnalysisResult, EmotionTaxonomy, SentimentType, SummaryPoint, SummaryQuote } from "../types";
+import { DigestKeyword, DigestSample, SummaryDigest, SummaryDraft } from "./analysisProvider";
+import { mapEmotion } from "./emotionTaxonomy";
+
+const MAX_KEYWORDS = 25;
+const MAX_EMOTIONS = 8;
+const SAMPLES_PER_SENTIMENT = 8;
+const NEUTRAL_SAMPLES = 3;
+const SARCASTIC_SAMPLES = 5;
+const MAX_SAMPLE_CHARS = 300;
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const sentimentKey = (sentiment: SentimentType): 'positive' | 'negative' | 'neutral' =>
+  sentiment === SentimentType.POSITIVE ? 'positive' : sentiment === SentimentType.NEGATIVE ? 'negative' : 'neutral';
+
+/**
+ * Condenses the results into counts plus a small set of representative texts,
+ * so the summary prompt stays the same size whether the batch has 50 or 50,000 rows.
+ * Samples are the most confident texts per sentiment plus sarcastic ones, with
+ * duplicate texts skipped.
+ */
+export const buildSummaryDigest = (results: AnalysisResult[], taxonomy: EmotionTaxonomy): SummaryDigest => {
+  const sentiments: Record<SentimentType, number> = {
+    [SentimentType.POSITIVE]: 0,
+    [SentimentType.NEUTRAL]: 0,
+    [SentimentType.NEGATIVE]: 0,
+  };
+  const emotions = new Map<string, number>();
+  const keywords = new Map<string, DigestKeyword>();
+  const aspects = new Map<string, { aspect: string; positive: number; negative: number; neutral: number }>();
+
+  results.forEach(r => {
+    sentiments[r.sentiment] = (sentiments[r.sentiment] || 0) + 1;
+    const { label } = mapEmotion(r.emotion, taxonomy);
+    emotions.set(label, (emotions.get(label) || 0) + 1);
+    // A phrase counts once per text
+    Array.from(new Set<string>(r.keywords.map(k => k.trim().toLowerCase()).filter(Boolean))).forEach(keyword => {
+      const entry = keywords.get(keyword) || { keyword, count: 0, positive: 0, negative: 0, neutral: 0 };
+      entry.count++;
+      entry[sentimentKey(r.sentiment)]++;
+      keywords.set(keyword, entry);
+    });
+    (r.aspects || []).forEach(a => {
+      const entry = aspects.get(a.aspect) || { aspect: a.aspect, positive: 0, negative: 0, neutral: 0 };
+      entry[sentimentKey(a.sentiment)]++;
+      aspects.set(a.aspect, entry);
+    });
+  });
+
+  const seen = new Set<string>();
+  const samples: DigestSample[] = [];
+  const pick = (candidates: AnalysisResult[], count: number) => {
+    let picked = 0;
+    for (const r of [...candidates].sort((a, b) => b.confidence - a.confidence)) {
+      if (picked >= count) break;
+      const key = r.text.trim().toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      picked++;
+      samples.push({
+        ref: `q${samples.length + 1}`,
+        resultId: r.id,
+        text: truncate(r.text.trim(), MAX_SAMPLE_CHARS),
+        sentiment: r.sentiment,
+        emotion: r.emotion,
+        isSarcastic: r.isSarcastic,
+        confidence: Math.round(r.confidence * 100) / 100,
+        keywords: r.keywords.slice(0, 5),
+      });
+    }
+  };
+  pick(results.filter(r => r.sentiment === SentimentType.NEGATIVE && !r.isSarcastic), SAMPLES_PER_SENTIMENT);
+  pick(results.filter(r => r.sentiment === SentimentType.POSITIVE && !r.isSarcastic), SAMPLES_PER_SENTIMENT);
+  pick(results.filter(r => r.sentiment === SentimentType.NEUTRAL && !r.isSarcastic), NEUTRAL_SAMPLES);
+  pick(results.filter(r => r.isSarcastic), SARCASTIC_SAMPLES);
+
+  return {
+    total: results.length,
+    sentiments,
+    averageConfidence: results.length > 0
+      ? Math.round(results.reduce((acc, r) => acc + r.confidence, 0) / results.length * 100) / 100
+      : 0,
+    sarcastic: results.filter(r => r.isSarcastic).length,
+    sarcasticPositive: results.filter(r => r.isSarcastic && r.sentiment === SentimentType.POSITIVE).length,
+    emotions: Array.from(emotions, ([label, count]) => ({ label, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_EMOTIONS),
+    keywords: Array.from(keywords.values()).sort((a, b) => b.count - a.count).slice(0, MAX_KEYWORDS),
+    aspects: Array.from(aspects.values()),
+    samples,
+  };
+};
+
+const percent = (count: number, total: number) => total > 0 ? Math.round(count / total * 100) : 0;
+
+const quotesFor = (digest: SummaryDigest, keyword: string, sentiment: SentimentType): SummaryQuote[] =>
+  digest.samples
+    .filter(s => s.sentiment === sentiment && !s.isSarcastic && s.text.toLowerCase().includes(keyword))
+    .slice(0, 2)
+    .map(s => ({ resultId: s.resultId, text: s.text }));
+
+/**
+ * Extractive summary for engines without a language model (and for fallbacks):
+ * themes are the most frequent key phrases, complaints and praises the phrases
+ * most tied to negative and positive texts, quoted from the sampled texts.
+ */
+export const summarizeOffline = (digest: SummaryDigest): SummaryDraft => {
+  const { total, sentiments } = digest;
+  const topEmotion = digest.emotions[0];
+  const overview = total === 0 ? 'There are no results to summarize.' : [
+    `Of ${total.toLocaleString()} texts, ${percent(sentiments[SentimentType.POSITIVE], total)}% are positive, `
+      + `${percent(sentiments[SentimentType.NEGATIVE], total)}% negative and ${percent(sentiments[SentimentType.NEUTRAL], total)}% neutral.`,
+    topEmotion ? `The most common emotion is ${topEmotion.label} (${percent(topEmotion.count, total)}%).` : '',
+    `Average model confidence is ${Math.round(digest.averageConfidence * 100)}%.`,
+  ].filter(Boolean).join(' ');
+
+  const themes = digest.keywords.slice(0, 6).map(k => ({
+    name: k.keyword.charAt(0).toUpperCase() + k.keyword.slice(1),
+    description: `Mentioned in ${k.count} ${k.count === 1 ? 'text' : 'texts'}: ${k.positive} positive, ${k.negative} negative, ${k.neutral} neutral.`,
+    sentiment: k.negative > k.positive && k.negative >= k.neutral ? SentimentType.NEGATIVE
+      : k.positive > k.negative && k.positive >= k.neutral ? SentimentType.POSITIVE
+      : SentimentType.NEUTRAL,
+  }));
+
+  // Phrases that show up mostly in texts of the given sentiment
+  const drivers = (sentiment: SentimentType) => {
+    const key = sentimentKey(sentiment);
+    return digest.keywords
+      .filter(k => k[key] > 0 && k[key] * 2 >= k.count)
+      .sort((a, b) => b[key] - a[key])
+      .slice(0, 3)
+      .map(k => ({ keyword: k.keyword, count: k[key] }));
+  };
+  const pointsFor = (sentiment: SentimentType): SummaryPoint[] =>
+    drivers(sentiment).map(({ keyword, count }) => ({
+      point: `"${keyword}" comes up in ${count} ${sentiment.toLowerCase()} ${count === 1 ? 'text' : 'texts'}.`,
+      quotes: quotesFor(digest, keyword, sentiment),
+    }));
+  const complaints = pointsFor(SentimentType.NEGATIVE);
+  const praises = pointsFor(SentimentType.POSITIVE);
+
+  const sarcasmCaveats: string[] = [];
+  if (digest.sarcastic > 0) {
+    sarcasmCaveats.push(`${digest.sarcastic} ${digest.sarcastic === 1 ? 'text reads' : 'texts read'} as sarcastic (${percent(digest.sarcastic, total)}%); their wording may say the opposite of what is meant.`);
+  }
+  if (digest.sarcasticPositive > 0) {
+    sarcasmCaveats.push(`${digest.sarcasticPositive} sarcastic ${digest.sarcasticPositive === 1 ? 'text was' : 'texts were'} scored positive and may really be complaints.`);
+  }
+
+  const actions = drivers(SentimentType.NEGATIVE).map(({ keyword, count }) => `Look into "${keyword}", raised in ${count} negative ${count === 1 ? 'text' : 'texts'}.`);
+  if (digest.sarcastic > 0) actions.push('Review the sarcastic texts by hand before quoting them.');
+
+  return { overview, themes, complaints, praises, sarcasmCaveats, actions };
+};
@@ -0,0 +1,60 @@
+import { AnalysisOptions, ProviderSettings, SentimentType } from "../types";
+import { AnalysisInput, AnalysisOutput, AnalysisProvider, SummaryDigest } from "./analysisProvider";
+import { summarizeOffline } from "./executiveSummary";
+import { extractAspectsWithLexicon } from "./lexiconService";
+import { detectLanguage } from "./languageDetection";
+
+const POSITIVE_WORDS = ['love', 'loved', 'great', 'good', 'perfect', 'helpful', 'amazing', 'excellent', 'changer'];
+const NEGATIVE_WORDS = ['hate', 'bad', 'cold', 'frustrated', 'crashes', 'slow', 'slower', 'delay', 'terrible', 'not'];
+
+// Small stable string hash (djb2) so the same text always yields the same output
+const hashText = (text: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * Deterministic in-memory analysis used for demos and tests.
+ * Never touches the network; results depend only on the input text.
+ */
+export const fakeAnalyze = (text: string): Omit<AnalysisOutput, 'inputId'> => {
+  const words = text.toLowerCase().match(/[a-z']+/g) || [];
+  const positives = words.filter(w => POSITIVE_WORDS.includes(w));
+  const negatives = words.filter(w => NEGATIVE_WORDS.includes(w));
+  const hash = hashText(text);
+
+  let sentiment = SentimentType.NEUTRAL;
+  if (positives.length > negatives.length) sentiment = SentimentType.POSITIVE;
+  if (negatives.length > positives.length) sentiment = SentimentType.NEGATIVE;
+
+  const emotion = sentiment === SentimentType.POSITIVE ? 'Joy' : sentiment === SentimentType.NEGATIVE ? 'Frustration' : 'Neutral';
+  const emotionEmoji = sentiment === SentimentType.POSITIVE ? '😊' : sentiment === SentimentType.NEGATIVE ? '😤' : '😐';
+
+  return {
+    sentiment,
+    emotion,
+    emotionEmoji,
+    isSarcastic: text.includes('🙄') || /\bsarcas/i.test(text),
+    confidence: 0.6 + (hash % 40) / 100,
+    keywords: [...new Set([...positives, ...negatives])].slice(0, 5),
+    explanation: `Fake provider: ${positives.length} positive and ${negatives.length} negative cue words found.`,
+    language: detectLanguage(text),
+  };
+};
+
+export const fakeProvider: AnalysisProvider = {
+  id: 'fake',
+  label: 'Fake (offline demo)',
+  defaultModel: 'fake-v1',
+  requiresApiKey: false,
+  analyzeBatch: async (inputs: AnalysisInput[], _settings: ProviderSettings, options: AnalysisOptions) =>
+    inputs.map(input => ({
+      ...fakeAnalyze(input.text),
+      aspects: options.aspectMode ? extractAspectsWithLexicon(input.text, options.aspects) : undefined,
+      inputId: input.id,
+    })),
+  summarize: async (digest: SummaryDigest) => summarizeOffline(digest),
+};
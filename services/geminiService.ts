@@ -1,15 +1,52 @@
-
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, SentimentType } from "../types";
+import { AnalysisOptions, ProviderSettings } from "../types";
+import {
+  AnalysisError,
+  AnalysisInput,
+  AnalysisOutput,
+  AnalysisProvider,
+  SUMMARY_SYSTEM_INSTRUCTION,
+  SYSTEM_INSTRUCTION,
+  SummaryDigest,
+  SummaryDraft,
+  ThemeClusterInput,
+  ThemeRefinement,
+  buildAnalysisPrompt,
+  buildSummaryPrompt,
+  buildThemePrompt,
+  parseAnalysisResponse,
+  parseSummaryResponse,
+  parseThemeResponse,
+  toAnalysisError,
+} from "./analysisProvider";
 
-const MODEL_NAME = "gemini-2.5-flash";
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+const aspectSchema = (aspects: string[]): Schema => ({
+  type: Type.ARRAY,
+  description: "Per-aspect sentiment for the listed aspects the text mentions.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      aspect: { type: Type.STRING, enum: aspects, description: "The aspect name, exactly as listed." },
+      sentiment: { type: Type.STRING, enum: ["Positive", "Negative", "Neutral"] },
+      confidence: { type: Type.NUMBER, description: "Confidence score between 0.0 and 1.0." },
+      span: { type: Type.STRING, description: "Exact substring of the text supporting this aspect sentiment." },
+    },
+    required: ["aspect", "sentiment", "confidence", "span"],
+  },
+});
 
 // JSON Schema for structured output
-const sentimentSchema: Schema = {
+const buildSentimentSchema = (options: AnalysisOptions): Schema => ({
   type: Type.ARRAY,
   items: {
     type: Type.OBJECT,
     properties: {
+      id: {
+        type: Type.STRING,
+        description: "The id of the input text this result belongs to, copied unchanged.",
+      },
       sentiment: {
         type: Type.STRING,
         enum: ["Positive", "Negative", "Neutral"],
@@ -17,7 +54,8 @@ const sentimentSchema: Schema = {
       },
       emotion: {
         type: Type.STRING,
-        description: "The primary specific emotion (e.g., Joy, Anger, Sadness, Surprise, Frustration, Gratitude).",
+        enum: options.taxonomy.labels.map(l => l.label),
+        description: "The primary emotion, one of the allowed taxonomy labels.",
       },
       emotionEmoji: {
         type: Type.STRING,
@@ -40,190 +78,233 @@ const sentimentSchema: Schema = {
         type: Type.STRING,
         description: "A concise, one-sentence explanation of why this sentiment and emotion were chosen.",
       },
+      language: {
+        type: Type.STRING,
+        description: "ISO 639-1 code of the language the text is written in (e.g. en, de, ja).",
+      },
+      ...(options.translate ? {
+        translation: {
+          type: Type.STRING,
+          description: "English translation of the text; empty when the text is already English.",
+        },
+      } : {}),
+      ...(options.aspectMode ? { aspects: aspectSchema(options.aspects) } : {}),
+    },
+    required: [
+      "id", "sentiment", "emotion", "emotionEmoji", "isSarcastic", "confidence", "keywords", "explanation", "language",
+      ...(options.aspectMode ? ["aspects"] : []),
+    ],
+  },
+});
+
+const summaryPointSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      point: { type: Type.STRING, description: "One sentence stating the complaint or praise." },
+      quotes: {
+        type: Type.ARRAY,
+        description: "Sample texts supporting the point.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            ref: { type: Type.STRING, description: "The ref of the sample text, copied unchanged." },
+            text: { type: Type.STRING, description: "A verbatim excerpt of that sample text." },
+          },
+          required: ["ref", "text"],
+        },
+      },
     },
-    required: ["sentiment", "emotion", "emotionEmoji", "isSarcastic", "confidence", "keywords", "explanation"],
+    required: ["point", "quotes"],
   },
 };
 
-// Custom Error Class for categorized handling
-export class GeminiError extends Error {
-  constructor(
-    message: string, 
-    public code: 'AUTH_ERROR' | 'RATE_LIMIT' | 'SERVER_ERROR' | 'SAFETY_BLOCK' | 'PARSE_ERROR' | 'INVALID_REQUEST' | 'UNKNOWN',
-    public solution?: string,
-    public status?: number
-  ) {
-    super(message);
-    this.name = 'GeminiError';
-  }
-}
-
-/**
- * cleans the response string to ensure it is valid JSON
- * sometimes models return markdown code blocks ```json ... ```
- */
-const cleanJsonString = (str: string): string => {
-  let clean = str.replace(/```json\n?|```/g, '').trim();
-  // Attempt to find the first '[' and last ']' to handle extra text
-  const start = clean.indexOf('[');
-  const end = clean.lastIndexOf(']');
-  if (start !== -1 && end !== -1) {
-    clean = clean.substring(start, end + 1);
-  }
-  return clean;
+const summarySchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    overview: { type: Type.STRING, description: "Two or three sentences on the overall sentiment and its drivers." },
+    themes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          sentiment: { type: Type.STRING, enum: ["Positive", "Negative", "Neutral"] },
+        },
+        required: ["name", "description", "sentiment"],
+      },
+    },
+    complaints: summaryPointSchema,
+    praises: summaryPointSchema,
+    sarcasmCaveats: { type: Type.ARRAY, items: { type: Type.STRING } },
+    actions: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["overview", "themes", "complaints", "praises", "sarcasmCaveats", "actions"],
+};
+
+const themeSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      ref: { type: Type.STRING, description: "The cluster's ref, copied unchanged." },
+      name: { type: Type.STRING, description: "Short theme name, 2-4 words." },
+      description: { type: Type.STRING, description: "One sentence on what the cluster is about." },
+      mergeInto: { type: Type.STRING, description: "Ref of a cluster about the same topic, or empty." },
+    },
+    required: ["ref", "name", "description", "mergeInto"],
+  },
 };
 
-export const analyzeSentimentBatch = async (
-  texts: string[],
-  apiKey: string
-): Promise<Omit<AnalysisResult, 'id' | 'timestamp' | 'text'>[]> => {
-  if (!apiKey) {
-    throw new GeminiError(
-      "API Key is missing", 
-      "AUTH_ERROR", 
+const analyzeBatch = async (
+  inputs: AnalysisInput[],
+  settings: ProviderSettings,
+  options: AnalysisOptions,
+  signal?: AbortSignal
+): Promise<AnalysisOutput[]> => {
+  if (!settings.apiKey) {
+    throw new AnalysisError(
+      "API Key is missing",
+      "AUTH_ERROR",
       "Please configure your API key in the settings menu."
     );
   }
-  if (texts.length === 0) return [];
-
-  const ai = new GoogleGenAI({ apiKey });
-
-  const prompt = `
-    Analyze the sentiment of the following texts. 
-    For each text:
-    1. Identify the Sentiment (Positive, Negative, Neutral).
-    2. Identify the specific Primary Emotion (one word, e.g., Joy, Anger, Disappointment).
-    3. Select a single Emoji that best represents that emotion.
-    4. Detect if it is Sarcastic (boolean).
-    5. Provide a confidence score (0.0 to 1.0).
-    6. Extract key phrases that drove the analysis.
-    7. Provide a concise explanation (1 sentence) for the classification.
-    
-    Texts to analyze:
-    ${JSON.stringify(texts)}
-  `;
+  if (inputs.length === 0) return [];
+
+  const model = settings.model || DEFAULT_MODEL;
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
 
   try {
     const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
+      model,
+      contents: buildAnalysisPrompt(inputs, options),
       config: {
         responseMimeType: "application/json",
-        responseSchema: sentimentSchema,
-        systemInstruction: "You are an expert NLP sentiment analysis engine. Detect nuance, sarcasm, and specific emotions accurately.",
-        temperature: 0.2, 
+        responseSchema: buildSentimentSchema(options),
+        systemInstruction: SYSTEM_INSTRUCTION,
+        temperature: 0.2,
+        abortSignal: signal,
       },
     });
 
-    // 1. Check for empty candidates (Safety Blocking)
+    // Check for empty candidates (Safety Blocking)
     if (!response.candidates || response.candidates.length === 0) {
-      throw new GeminiError(
-        "Analysis blocked by safety filters.", 
+      throw new AnalysisError(
+        "Analysis blocked by safety filters.",
         "SAFETY_BLOCK",
         "The content may violate safety policies (harassment, hate speech, etc.). Try rephrasing the text."
       );
     }
 
-    const jsonText = response.text;
-    if (!jsonText) {
-       throw new GeminiError(
-         "Received empty response from AI model.", 
-         "SERVER_ERROR",
-         "The model returned an empty result. Please try again."
-       );
-    }
+    return parseAnalysisResponse(response.text);
 
-    // 2. Parse JSON safely
-    let parsedData;
-    try {
-      parsedData = JSON.parse(cleanJsonString(jsonText));
-    } catch (e) {
-      console.error("JSON Parse Error", jsonText);
-      throw new GeminiError(
-        "Failed to process model response.", 
-        "PARSE_ERROR",
-        "The AI returned malformed JSON. This is usually temporary, please retry."
-      );
-    }
+  } catch (error: any) {
+    console.error("Gemini Analysis Error:", error);
+    throw toAnalysisError(error, "Gemini", model);
+  }
+};
+
+const summarize = async (
+  digest: SummaryDigest,
+  settings: ProviderSettings,
+  options: AnalysisOptions,
+  signal?: AbortSignal
+): Promise<SummaryDraft> => {
+  if (!settings.apiKey) {
+    throw new AnalysisError(
+      "API Key is missing",
+      "AUTH_ERROR",
+      "Please configure your API key in the settings menu."
+    );
+  }
+
+  const model = settings.model || DEFAULT_MODEL;
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: buildSummaryPrompt(digest, options),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: summarySchema,
+        systemInstruction: SUMMARY_SYSTEM_INSTRUCTION,
+        temperature: 0.3,
+        abortSignal: signal,
+      },
+    });
 
-    if (!Array.isArray(parsedData)) {
-      throw new GeminiError(
-        "Invalid response structure.", 
-        "PARSE_ERROR",
-        "Expected a list of results but got something else."
+    if (!response.candidates || response.candidates.length === 0) {
+      throw new AnalysisError(
+        "Summary blocked by safety filters.",
+        "SAFETY_BLOCK",
+        "The sampled texts may violate safety policies. Try summarizing a filtered subset."
       );
     }
 
-    // 3. Normalize Data
-    return parsedData.map((item) => ({
-      sentiment: (item.sentiment as SentimentType) || SentimentType.NEUTRAL,
-      emotion: item.emotion || "Neutral",
-      emotionEmoji: item.emotionEmoji || "😐",
-      isSarcastic: !!item.isSarcastic,
-      confidence: typeof item.confidence === 'number' ? item.confidence : 0.5,
-      keywords: Array.isArray(item.keywords) ? item.keywords : [],
-      explanation: item.explanation || "No explanation provided.",
-    }));
+    return parseSummaryResponse(response.text, digest);
 
   } catch (error: any) {
-    console.error("Gemini Analysis Error:", error);
+    console.error("Gemini Summary Error:", error);
+    throw toAnalysisError(error, "Gemini", model);
+  }
+};
+
+const refineThemes = async (
+  clusters: ThemeClusterInput[],
+  settings: ProviderSettings,
+  options: AnalysisOptions,
+  signal?: AbortSignal
+): Promise<ThemeRefinement[]> => {
+  if (!settings.apiKey) {
+    throw new AnalysisError(
+      "API Key is missing",
+      "AUTH_ERROR",
+      "Please configure your API key in the settings menu."
+    );
+  }
+  if (clusters.length === 0) return [];
 
-    if (error instanceof GeminiError) throw error;
+  const model = settings.model || DEFAULT_MODEL;
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
 
-    // Map SDK/HTTP errors to user friendly codes
-    const msg = error.message || '';
-    const status = error.status || error.response?.status; // generic attempt to find status
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: buildThemePrompt(clusters, options),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: themeSchema,
+        systemInstruction: SUMMARY_SYSTEM_INSTRUCTION,
+        temperature: 0.2,
+        abortSignal: signal,
+      },
+    });
 
-    if (msg.includes('401') || msg.includes('403') || msg.includes('API key') || status === 401 || status === 403) {
-      throw new GeminiError(
-        "Invalid API Key or Permissions.", 
-        "AUTH_ERROR",
-        "Please verify your API key. Ensure it is valid, active, and has access to the Gemini API.",
-        status
-      );
-    }
-    
-    if (msg.includes('429') || msg.includes('Quota') || status === 429) {
-      throw new GeminiError(
-        "Rate limit exceeded.", 
-        "RATE_LIMIT",
-        "You are sending requests too quickly. Please wait a moment before trying again, or reduce the batch size.",
-        429
-      );
-    }
-    
-    if (msg.includes('503') || msg.includes('Overloaded') || status === 503) {
-      throw new GeminiError(
-        "AI Service Unavailable.", 
-        "SERVER_ERROR",
-        "The Gemini service is currently overloaded. Please try again in a few minutes.",
-        503
+    if (!response.candidates || response.candidates.length === 0) {
+      throw new AnalysisError(
+        "Theme naming blocked by safety filters.",
+        "SAFETY_BLOCK",
+        "The sampled texts may violate safety policies. The keyword-based names are kept."
       );
     }
 
-    if (status === 400 || msg.includes('400')) {
-       throw new GeminiError(
-        "Invalid Request.",
-        "INVALID_REQUEST",
-        "The request was malformed. Please check your input text for unsupported characters or format.",
-        400
-       );
-    }
+    return parseThemeResponse(response.text, clusters);
 
-    if (status === 404 || msg.includes('404')) {
-        throw new GeminiError(
-         "Model Not Found.",
-         "INVALID_REQUEST",
-         `The model '${MODEL_NAME}' was not found. It may be deprecated or not available in your region.`,
-         404
-        );
-     }
-
-    throw new GeminiError(
-      "An unexpected network or API error occurred.", 
-      "UNKNOWN",
-      "Check your internet connection and try again. If the issue persists, check the console for logs.",
-      status
-    );
+  } catch (error: any) {
+    console.error("Gemini Theme Error:", error);
+    throw toAnalysisError(error, "Gemini", model);
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: DEFAULT_MODEL,
+  requiresApiKey: true,
+  analyzeBatch,
+  summarize,
+  refineThemes,
+};
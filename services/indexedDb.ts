@@ -0,0 +1,86 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB. All persistent
+ * stores of the app live in one database; bump DB_VERSION and add the store
+ * to STORES when a new one is needed.
+ */
+
+const DB_NAME = 'emotiview';
+const DB_VERSION = 2;
+
+const STORES: { name: string; keyPath: string }[] = [
+  { name: 'analysisCache', keyPath: 'key' },
+  { name: 'workspaces', keyPath: 'id' },
+];
+
+export type StoreName = 'analysisCache' | 'workspaces';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isIndexedDbAvailable()) return Promise.reject(new Error('IndexedDB is not available in this browser.'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach(store => {
+          if (!db.objectStoreNames.contains(store.name)) db.createObjectStore(store.name, { keyPath: store.keyPath });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Let a later call try again
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const getRecords = async <T>(store: StoreName, keys: string[]): Promise<(T | undefined)[]> => {
+  const db = await openDatabase();
+  const objectStore = db.transaction(store, 'readonly').objectStore(store);
+  return Promise.all(keys.map(key => requestToPromise<T | undefined>(objectStore.get(key))));
+};
+
+export const getAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise<T[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const putRecords = async <T>(store: StoreName, records: T[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  records.forEach(record => tx.objectStore(store).put(record));
+  await transactionDone(tx);
+};
+
+export const deleteRecord = async (store: StoreName, key: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(key);
+  await transactionDone(tx);
+};
+
+export const clearStore = async (store: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).clear();
+  await transactionDone(tx);
+};
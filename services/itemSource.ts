@@ -0,0 +1,139 @@
+import { BatchItem } from "../types";
+import { MalformedRow } from "./csvParser";
+import { CsvIngestConfig, IngestBatch, IngestResponse, createFileReader } from "./csvIngest";
+
+/**
+ * Rows fed into a batch run a piece at a time. `next` is only called when the
+ * scheduler runs out of queued work, so a large file is read no faster than
+ * it is analyzed and memory stays bounded.
+ */
+export interface ItemSource {
+  next: () => Promise<BatchItem[] | null>; // null once every row was delivered
+  close: () => void;                        // Stops reading; undelivered rows are dropped
+}
+
+export interface IngestProgress {
+  fileName: string;
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;     // Rows queued for analysis so far
+  skipped: number;  // Rows that could not be analyzed
+  problems: MalformedRow[]; // The first problems, for the report
+  done: boolean;
+}
+
+const ITEMS_PER_PULL = 500;
+const MAX_REPORTED_PROBLEMS = 50;
+
+export const arraySource = (items: BatchItem[]): ItemSource => {
+  let offset = 0;
+  return {
+    next: async () => {
+      if (offset >= items.length) return null;
+      const slice = items.slice(offset, offset + ITEMS_PER_PULL);
+      offset += slice.length;
+      return slice;
+    },
+    close: () => { offset = items.length; },
+  };
+};
+
+// Rows that were pending from an earlier run go first, then the rest of the source
+export const prependItems = (items: BatchItem[], source: ItemSource): ItemSource => {
+  const head = arraySource(items);
+  return {
+    next: async () => (await head.next()) ?? source.next(),
+    close: () => {
+      head.close();
+      source.close();
+    },
+  };
+};
+
+/**
+ * Streams an imported file through a web worker (or, where workers are not
+ * available or fail to start, slice by slice on the main thread) and reports
+ * ingestion progress separately from analysis progress.
+ */
+export const createFileSource = (
+  file: File,
+  config: CsvIngestConfig,
+  onProgress: (progress: IngestProgress) => void
+): ItemSource => {
+  const progress: IngestProgress = {
+    fileName: file.name,
+    bytesRead: 0,
+    totalBytes: file.size,
+    rows: 0,
+    skipped: 0,
+    problems: [],
+    done: file.size === 0,
+  };
+  let closed = false;
+  let worker: Worker | null = null;
+  let started = false; // The worker delivered a batch, so it loaded and runs
+
+  const readOnMainThread = () => {
+    worker?.terminate();
+    worker = null;
+    readSlice = createFileReader(file, config).next;
+    return readSlice();
+  };
+
+  const readFromWorker = () => new Promise<IngestBatch>((resolve, reject) => {
+    worker!.onmessage = (event: MessageEvent<IngestResponse>) => {
+      if (event.data.type === 'batch') {
+        started = true;
+        resolve(event.data.batch);
+      } else {
+        reject(new Error(event.data.message));
+      }
+    };
+    worker!.onerror = (event) => {
+      if (started) {
+        reject(new Error('The file could not be read.'));
+        return;
+      }
+      // The worker never got going (failed to load, blocked by a content security policy): read here instead
+      event.preventDefault();
+      readOnMainThread().then(resolve, reject);
+    };
+    worker!.postMessage({ type: 'next' });
+  });
+
+  let readSlice: () => Promise<IngestBatch> = readFromWorker;
+  try {
+    worker = new Worker(new URL('./csvIngest.worker.ts', import.meta.url), { type: 'module' });
+    worker.postMessage({ type: 'start', file, config });
+  } catch {
+    worker = null;
+    readSlice = createFileReader(file, config).next;
+  }
+
+  const close = () => {
+    closed = true;
+    worker?.terminate();
+    worker = null;
+  };
+
+  return {
+    next: async () => {
+      // A slice can hold nothing but skipped rows; keep reading until something can be analyzed
+      while (!closed && !progress.done) {
+        const batch = await readSlice();
+        progress.bytesRead = batch.bytesRead;
+        progress.rows += batch.items.length;
+        progress.skipped += batch.skipped.length;
+        progress.problems = [...progress.problems, ...batch.warnings, ...batch.skipped]
+          .sort((a, b) => a.line - b.line)
+          .slice(0, MAX_REPORTED_PROBLEMS);
+        progress.done = batch.done;
+        onProgress({ ...progress });
+        if (batch.done) close();
+        if (batch.items.length > 0) return batch.items;
+      }
+      return null;
+    },
+    close,
+  };
+};
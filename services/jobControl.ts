@@ -0,0 +1,69 @@
+import { AnalysisError } from "./analysisProvider";
+
+export interface JobControl {
+  signal: AbortSignal;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  isCancelled: () => boolean;
+  waitWhilePaused: () => Promise<void>; // Resolves immediately unless paused
+}
+
+export const cancelledError = () =>
+  new AnalysisError("Analysis cancelled.", "CANCELLED", "The run was cancelled. Pending rows can be resumed.");
+
+/**
+ * Controls for one batch run. Cancelling aborts in-flight requests through
+ * `signal`; pausing only holds back new chunks, so it takes effect at the next
+ * chunk boundary.
+ */
+export const createJobControl = (): JobControl => {
+  const controller = new AbortController();
+  let paused = false;
+  let waiters: (() => void)[] = [];
+
+  const release = () => {
+    waiters.forEach(resolve => resolve());
+    waiters = [];
+  };
+
+  return {
+    signal: controller.signal,
+    cancel: () => {
+      controller.abort();
+      release();
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      release();
+    },
+    isPaused: () => paused,
+    isCancelled: () => controller.signal.aborted,
+    waitWhilePaused: () =>
+      paused && !controller.signal.aborted
+        ? new Promise<void>(resolve => waiters.push(resolve))
+        : Promise.resolve(),
+  };
+};
+
+/**
+ * setTimeout as a promise that rejects with a CANCELLED error as soon as
+ * `signal` aborts, so backoff waits don't outlive a cancelled run.
+ */
+export const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,120 @@
+import { AnalysisResult, SentimentType } from "../types";
+
+// Words that carry no topic on their own; dropped from the ends of a phrase
+const STOP_WORDS = new Set<string>([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as', 'about',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'do', 'does', 'did', 'has', 'have', 'had',
+  'i', 'me', 'my', 'we', 'our', 'you', 'your', 'he', 'she', 'it', 'its', 'they', 'them', 'their', 'this', 'that', 'these', 'those',
+  'so', 'very', 'really', 'just', 'too', 'also', 'all', 'any', 'some', 'more', 'most', 'much', 'than', 'then', 'there', 'here',
+  'what', 'which', 'who', 'when', 'where', 'how', 'not', 'no', 'will', 'would', 'can', 'could', 'should', 'if',
+]);
+
+// Plurals the suffix rules below would get wrong
+const IRREGULAR_PLURALS: Record<string, string> = {
+  people: 'person', children: 'child', men: 'man', women: 'woman', feet: 'foot', teeth: 'tooth', mice: 'mouse',
+};
+
+const singular = (word: string): string => {
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ches|shes|sses|xes|zes)$/.test(word)) return word.slice(0, -2);
+  if (/(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * The form keywords are counted and matched under: lower case, surrounding
+ * punctuation and stop-words trimmed, and the last word made singular, so
+ * "The Deliveries" and "delivery" count as one. Empty for stop-words only.
+ */
+export const normalizeKeyword = (keyword: string): string => {
+  const words = keyword
+    .toLowerCase()
+    .split(/\s+/)
+    .map(w => w.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter(Boolean);
+  while (words.length > 0 && STOP_WORDS.has(words[0])) words.shift();
+  while (words.length > 0 && STOP_WORDS.has(words[words.length - 1])) words.pop();
+  if (words.length === 0) return '';
+  words[words.length - 1] = singular(words[words.length - 1]);
+  return words.join(' ');
+};
+
+export const mentionsKeyword = (result: AnalysisResult, keyword: string): boolean => {
+  const key = normalizeKeyword(keyword);
+  return !!key && result.keywords.some(k => normalizeKeyword(k) === key);
+};
+
+export interface KeywordStat {
+  keyword: string; // Normalized form
+  label: string;   // Most common spelling, for display
+  count: number;   // Results mentioning it
+  positive: number;
+  neutral: number;
+  negative: number;
+  impact: number;  // Confidence-weighted: +confidence per positive mention, -confidence per negative one
+}
+
+const SIGNS: Record<SentimentType, number> = {
+  [SentimentType.POSITIVE]: 1,
+  [SentimentType.NEUTRAL]: 0,
+  [SentimentType.NEGATIVE]: -1,
+};
+
+/**
+ * Counts each normalized keyword once per result, with the sentiment mix of
+ * the results mentioning it. `impact` sums each mention's sentiment weighted
+ * by the model's confidence, so frequent, confidently negative phrases sink
+ * lowest. Sorted by count.
+ */
+export const keywordStats = (results: AnalysisResult[]): KeywordStat[] => {
+  const stats = new Map<string, KeywordStat>();
+  const spellings = new Map<string, Map<string, number>>();
+
+  results.forEach(r => {
+    const seen = new Set<string>();
+    r.keywords.forEach(raw => {
+      const keyword = normalizeKeyword(raw);
+      if (!keyword || seen.has(keyword)) return;
+      seen.add(keyword);
+      const stat = stats.get(keyword) || { keyword, label: keyword, count: 0, positive: 0, neutral: 0, negative: 0, impact: 0 };
+      stat.count++;
+      if (r.sentiment === SentimentType.POSITIVE) stat.positive++;
+      else if (r.sentiment === SentimentType.NEGATIVE) stat.negative++;
+      else stat.neutral++;
+      stat.impact += SIGNS[r.sentiment] * r.confidence;
+      stats.set(keyword, stat);
+
+      const spelling = raw.trim().replace(/\s+/g, ' ').toLowerCase();
+      const forms = spellings.get(keyword) || new Map<string, number>();
+      forms.set(spelling, (forms.get(spelling) || 0) + 1);
+      spellings.set(keyword, forms);
+    });
+  });
+
+  stats.forEach((stat, keyword) => {
+    const forms = Array.from(spellings.get(keyword)!.entries()).sort((a, b) => b[1] - a[1] || a[0].length - b[0].length);
+    stat.label = forms[0][0];
+    stat.impact = Math.round(stat.impact * 100) / 100;
+  });
+
+  return Array.from(stats.values()).sort((a, b) => b.count - a.count || a.keyword.localeCompare(b.keyword));
+};
+
+export type KeywordRanking = 'frequency' | 'negative' | 'positive';
+
+export const KEYWORD_RANKINGS: { value: KeywordRanking; label: string }[] = [
+  { value: 'frequency', label: 'Most frequent' },
+  { value: 'negative', label: 'Driving negative' },
+  { value: 'positive', label: 'Driving positive' },
+];
+
+export const rankKeywords = (stats: KeywordStat[], ranking: KeywordRanking, limit: number): KeywordStat[] => {
+  switch (ranking) {
+    case 'negative': return stats.filter(s => s.impact < 0).sort((a, b) => a.impact - b.impact).slice(0, limit);
+    case 'positive': return stats.filter(s => s.impact > 0).sort((a, b) => b.impact - a.impact).slice(0, limit);
+    default: return stats.slice(0, limit);
+  }
+};
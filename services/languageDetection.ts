@@ -0,0 +1,99 @@
+/**
+ * Lightweight offline language identification, used by the built-in engines
+ * and whenever a model leaves `language` empty. Non-Latin scripts are decided
+ * by character ranges; Latin-script text by counting common function words.
+ * Codes are ISO 639-1; "und" means undetermined.
+ */
+
+export const UNDETERMINED_LANGUAGE = 'und';
+
+const SCRIPT_RANGES: { code: string; pattern: RegExp }[] = [
+  { code: 'ja', pattern: /[぀-ヿ]/g },       // Hiragana / Katakana (checked before Han)
+  { code: 'ko', pattern: /[가-힯]/g },
+  { code: 'zh', pattern: /[一-鿿]/g },
+  { code: 'ru', pattern: /[Ѐ-ӿ]/g },
+  { code: 'ar', pattern: /[؀-ۿ]/g },
+  { code: 'he', pattern: /[֐-׿]/g },
+  { code: 'el', pattern: /[Ͱ-Ͽ]/g },
+  { code: 'hi', pattern: /[ऀ-ॿ]/g },
+  { code: 'th', pattern: /[฀-๿]/g },
+];
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'it', 'to', 'of', 'was', 'for', 'this', 'that', 'with', 'not', 'but', 'very', 'i', 'you', 'my', 'are'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'es', 'muy', 'pero', 'por', 'con', 'para', 'una', 'lo', 'no', 'del', 'fue'],
+  fr: ['le', 'la', 'les', 'de', 'et', 'est', 'un', 'une', 'des', 'pas', 'très', 'mais', 'pour', 'avec', 'je', 'ce', 'du', 'il'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'sehr', 'aber', 'mit', 'ich', 'es', 'zu', 'auf', 'den', 'war', 'für'],
+  pt: ['o', 'a', 'de', 'que', 'e', 'não', 'um', 'uma', 'muito', 'mas', 'com', 'para', 'foi', 'os', 'em', 'do', 'da', 'é'],
+  it: ['il', 'la', 'di', 'che', 'e', 'non', 'un', 'una', 'molto', 'ma', 'per', 'con', 'è', 'sono', 'del', 'della', 'gli', 'lo'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'van', 'maar', 'zeer', 'heel', 'met', 'voor', 'ik', 'dat', 'was', 'op', 'te', 'zijn'],
+};
+
+/**
+ * Returns the ISO 639-1 code of the most likely language of `text`.
+ */
+export const detectLanguage = (text: string): string => {
+  const letters = (text.match(/\p{L}/gu) || []).length;
+  if (letters === 0) return UNDETERMINED_LANGUAGE;
+
+  for (const { code, pattern } of SCRIPT_RANGES) {
+    const count = (text.match(pattern) || []).length;
+    if (count / letters > 0.3) return code;
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  let best = { code: UNDETERMINED_LANGUAGE, score: 0 };
+  Object.entries(STOPWORDS).forEach(([code, stopwords]) => {
+    const score = words.filter(w => stopwords.includes(w)).length;
+    if (score > best.score) best = { code, score };
+  });
+
+  // Short, stopword-free texts are most likely English in this app's data
+  return best.score > 0 ? best.code : (words.length > 0 ? 'en' : UNDETERMINED_LANGUAGE);
+};
+
+// Languages explanations can be written in
+export const OUTPUT_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'it', name: 'Italian' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ko', name: 'Korean' },
+];
+
+// ISO 639-2/3 codes ("eng", "ger", "deu") and retired ones ("iw") become their ISO 639-1 code; others stay as given
+const canonicalLanguage = (code: string): string => {
+  try {
+    return Intl.getCanonicalLocales(code)[0]?.split('-')[0].toLowerCase() || code;
+  } catch {
+    return code;
+  }
+};
+
+// Accepts "en", "EN", "eng", "en-US" or "English" and returns a lowercase ISO 639-1 code where one exists ('' if unusable)
+export const normalizeLanguageCode = (value: unknown): string => {
+  if (typeof value !== 'string') return '';
+  const trimmed = value.trim().toLowerCase();
+  if (/^[a-z]{2,3}(?:[-_][a-z0-9]+)?$/.test(trimmed)) return canonicalLanguage(trimmed.split(/[-_]/)[0]);
+  const byName = OUTPUT_LANGUAGES.find(l => l.name.toLowerCase() === trimmed);
+  return byName ? byName.code : '';
+};
+
+const displayNames = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+  ? new Intl.DisplayNames(['en'], { type: 'language' })
+  : null;
+
+// Human readable name for a language code ("de" -> "German")
+export const languageName = (code: string): string => {
+  if (!code || code === UNDETERMINED_LANGUAGE) return 'Unknown';
+  try {
+    return displayNames?.of(code) || code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+};
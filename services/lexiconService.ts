@@ -0,0 +1,275 @@
+import { AnalysisOptions, AspectSentiment, ProviderSettings, SentimentType } from "../types";
+import { AnalysisInput, AnalysisOutput, AnalysisProvider, SummaryDigest } from "./analysisProvider";
+import { summarizeOffline } from "./executiveSummary";
+import { detectLanguage } from "./languageDetection";
+
+/**
+ * Fully client-side, rule-based sentiment engine modelled on VADER
+ * (Hutto & Gilbert, 2014): a valence lexicon on a -4..+4 scale, booster words,
+ * negation, contrastive "but", caps/exclamation emphasis and emoji valence.
+ * Works with no API key and no network.
+ */
+
+// Word valences (subset of the VADER lexicon, tuned for customer feedback)
+const LEXICON: Record<string, number> = {
+  // positive
+  love: 3.2, loved: 2.9, loving: 2.9, lovely: 2.8, like: 1.5, liked: 1.8, enjoy: 2.2, enjoyed: 2.3,
+  great: 3.1, good: 1.9, nice: 1.8, fine: 0.8, ok: 0.9, okay: 0.9, awesome: 3.1, amazing: 2.8,
+  excellent: 2.7, fantastic: 2.6, wonderful: 2.7, perfect: 2.7, brilliant: 2.8, superb: 2.9,
+  outstanding: 3.0, best: 3.2, better: 1.9, happy: 2.7, glad: 2.0, pleased: 1.9, delighted: 3.0,
+  thrilled: 2.8, excited: 2.2, satisfied: 1.8, helpful: 1.8, friendly: 2.2, kind: 2.4, polite: 1.6,
+  fair: 1.3, fast: 1.0, quick: 0.9, easy: 1.9, smooth: 1.5, reliable: 1.9, recommend: 1.5, recommended: 1.6,
+  thanks: 1.9, thank: 1.5, grateful: 2.0, appreciate: 1.7, appreciated: 2.3, impressive: 2.3,
+  impressed: 2.1, beautiful: 2.9, clean: 1.7, comfortable: 1.5, fresh: 1.3, delicious: 2.7,
+  tasty: 2.0, worth: 0.9, win: 2.8, wow: 2.8, fun: 2.3, cool: 1.3, favorite: 2.0, gem: 2.0,
+  efficient: 1.7, efficiency: 1.5, incredible: 2.1, yay: 2.4, haha: 2.0, lol: 1.8,
+  // negative
+  hate: -2.7, hated: -3.2, dislike: -1.6, bad: -2.5, worse: -2.1, worst: -3.1, terrible: -2.1,
+  horrible: -2.5, awful: -2.0, poor: -2.1, disappointing: -2.2, disappointed: -1.9,
+  disappointment: -2.3, sad: -2.1, unhappy: -1.8, angry: -2.3, annoyed: -1.6, annoying: -1.7,
+  frustrated: -2.4, frustrating: -1.9, frustration: -2.1, upset: -1.6, furious: -2.7, rude: -2.0,
+  slow: -0.8, slower: -0.6, late: -0.7, delay: -1.3, delayed: -1.2, broken: -1.8, broke: -1.5,
+  crash: -1.7, crashes: -1.5, crashed: -1.6, bug: -1.3, buggy: -1.7, fail: -2.5, failed: -2.3,
+  fails: -2.0, failure: -2.3, useless: -1.8, waste: -1.8, wasted: -2.2, expensive: -0.9,
+  overpriced: -1.9, dirty: -1.9, cold: -0.6, stale: -1.7, wrong: -2.1, problem: -1.7,
+  problems: -1.7, issue: -0.8, issues: -0.9, complaint: -1.9, refund: -0.8, scam: -2.9,
+  ugly: -2.3, boring: -1.3, confusing: -1.3, confused: -1.3,
+  worried: -1.2, afraid: -2.0, scared: -1.9, fear: -2.2, disgusting: -2.4, gross: -2.1,
+  sucks: -1.5, sucked: -2.0, meh: -0.3, ridiculous: -1.3, unacceptable: -2.0, lost: -1.3,
+  missing: -1.2, damaged: -2.2, cancel: -0.9, cancelled: -1.0, ignored: -1.4, waited: -0.5,
+};
+
+// Emoji valences, kept on the same -4..+4 scale as words
+const EMOJI_LEXICON: Record<string, number> = {
+  '😀': 2.0, '😃': 2.2, '😄': 2.2, '😁': 2.1, '😊': 2.3, '🙂': 1.2, '😍': 3.0, '🥰': 3.0, '🤩': 3.0,
+  '😂': 1.8, '🤣': 1.8, '😎': 1.8, '👍': 1.8, '👏': 2.0, '🙌': 2.2, '❤️': 2.9, '❤': 2.9, '💯': 2.2,
+  '🎉': 2.4, '✨': 1.2, '🚀': 1.6, '⭐': 1.6, '🔥': 1.2, '🙏': 1.5, '😌': 1.4,
+  '😐': 0.0, '😶': -0.2, '🤔': -0.2,
+  '😞': -2.1, '😔': -1.8, '😢': -2.2, '😭': -2.6, '😠': -2.6, '😡': -3.0, '🤬': -3.2, '😤': -2.0,
+  '👎': -2.0, '💔': -2.6, '🙄': -1.4, '😒': -1.6, '😩': -2.1, '😫': -2.1, '🤮': -3.0, '🤢': -2.4,
+  '😱': -1.6, '😨': -1.9, '😰': -1.9, '💥': -0.8, '❄️': -0.3,
+};
+
+// Booster/dampener words scale the next sentiment word (VADER B_INCR / B_DECR)
+const BOOSTER_INCREMENT = 0.293;
+const BOOSTERS: Record<string, number> = {
+  absolutely: BOOSTER_INCREMENT, completely: BOOSTER_INCREMENT, extremely: BOOSTER_INCREMENT,
+  incredibly: BOOSTER_INCREMENT, really: BOOSTER_INCREMENT, so: BOOSTER_INCREMENT, totally: BOOSTER_INCREMENT,
+  very: BOOSTER_INCREMENT, super: BOOSTER_INCREMENT, highly: BOOSTER_INCREMENT, truly: BOOSTER_INCREMENT,
+  most: BOOSTER_INCREMENT, utterly: BOOSTER_INCREMENT, especially: BOOSTER_INCREMENT,
+  barely: -BOOSTER_INCREMENT, hardly: -BOOSTER_INCREMENT, slightly: -BOOSTER_INCREMENT,
+  somewhat: -BOOSTER_INCREMENT, kinda: -BOOSTER_INCREMENT, little: -BOOSTER_INCREMENT,
+  bit: -BOOSTER_INCREMENT, marginally: -BOOSTER_INCREMENT,
+};
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nor', 'neither', 'without', 'cannot', 'cant', 'dont',
+  'doesnt', 'didnt', 'isnt', 'wasnt', 'arent', 'werent', 'wont', 'wouldnt', 'shouldnt', 'couldnt',
+  'hasnt', 'havent', 'hadnt', 'aint',
+]);
+const NEGATION_SCALAR = -0.74;
+const CAPS_INCREMENT = 0.733;
+const NORMALIZATION_ALPHA = 15;
+
+// Emotion cues: the strongest matching family becomes the primary emotion
+const EMOTION_CUES: { emotion: string; emoji: string; words: string[] }[] = [
+  { emotion: 'Joy', emoji: '😄', words: ['love', 'loved', 'happy', 'great', 'awesome', 'amazing', 'wonderful', 'perfect', 'fun', 'yay', 'delighted', 'fantastic'] },
+  { emotion: 'Excitement', emoji: '🤩', words: ['excited', 'thrilled', 'wow', 'incredible', 'brilliant', 'outstanding', 'changer'] },
+  { emotion: 'Gratitude', emoji: '🙏', words: ['thanks', 'thank', 'grateful', 'appreciate', 'appreciated', 'helpful', 'kind'] },
+  { emotion: 'Anger', emoji: '😠', words: ['hate', 'hated', 'angry', 'furious', 'rude', 'scam', 'unacceptable', 'ridiculous'] },
+  { emotion: 'Frustration', emoji: '😤', words: ['frustrated', 'frustrating', 'frustration', 'annoyed', 'annoying', 'crash', 'crashes', 'crashed', 'broken', 'buggy', 'useless', 'waited', 'delay', 'delayed'] },
+  { emotion: 'Sadness', emoji: '😢', words: ['sad', 'unhappy', 'disappointed', 'disappointing', 'disappointment', 'lost', 'miss'] },
+  { emotion: 'Fear', emoji: '😨', words: ['afraid', 'scared', 'fear', 'worried'] },
+  { emotion: 'Disgust', emoji: '🤢', words: ['disgusting', 'gross', 'dirty', 'stale'] },
+];
+
+const SARCASM_PATTERNS = [
+  /\boh (great|wonderful|perfect|good)\b/i,
+  /\bjust what i (needed|wanted)\b/i,
+  /\byeah,? right\b/i,
+  /\bthanks a lot\b/i,
+  /\(sarcas(m|tic)\)/i,
+  /\/s\b/,
+];
+
+interface Token {
+  raw: string;
+  lower: string;
+}
+
+const tokenize = (text: string): Token[] => {
+  const raw = text.match(/[\p{L}\p{N}']+|\p{Extended_Pictographic}\uFE0F?/gu) || [];
+  return raw.map(t => ({ raw: t, lower: t.toLowerCase().replace(/'/g, '') }));
+};
+
+const normalizeScore = (score: number): number =>
+  score / Math.sqrt(score * score + NORMALIZATION_ALPHA);
+
+const isAllCaps = (word: string): boolean => word.length > 1 && word === word.toUpperCase() && /\p{L}/u.test(word);
+
+/**
+ * Scores a single text. Exposed for reuse (e.g. as an automatic fallback).
+ */
+export const analyzeWithLexicon = (text: string): Omit<AnalysisOutput, 'inputId'> => {
+  const tokens = tokenize(text);
+  const wordTokens = tokens.filter(t => /\p{L}/u.test(t.raw));
+  // VADER only applies caps emphasis when the text is mixed-case
+  const capsDifferential = wordTokens.some(t => isAllCaps(t.raw)) && wordTokens.some(t => !isAllCaps(t.raw));
+
+  const butIndex = tokens.findIndex(t => t.lower === 'but');
+  const contributions: { token: Token; valence: number }[] = [];
+
+  tokens.forEach((token, i) => {
+    let valence = LEXICON[token.lower] ?? EMOJI_LEXICON[token.raw] ?? EMOJI_LEXICON[token.raw.replace(/\uFE0F/, '')];
+    if (valence === undefined || BOOSTERS[token.lower] !== undefined) return;
+
+    if (capsDifferential && isAllCaps(token.raw)) {
+      valence += valence > 0 ? CAPS_INCREMENT : -CAPS_INCREMENT;
+    }
+
+    // Boosters and negations in the three preceding tokens, decaying with distance
+    for (let back = 1; back <= 3 && i - back >= 0; back++) {
+      const prev = tokens[i - back].lower;
+      const boost = BOOSTERS[prev];
+      if (boost !== undefined) {
+        const decay = back === 1 ? 1 : back === 2 ? 0.95 : 0.9;
+        valence += (valence > 0 ? boost : -boost) * decay;
+      }
+      if (NEGATIONS.has(prev)) {
+        valence *= NEGATION_SCALAR;
+        break;
+      }
+    }
+
+    // Contrastive "but": the clause after it dominates
+    if (butIndex !== -1) {
+      valence *= i < butIndex ? 0.5 : i > butIndex ? 1.5 : 1;
+    }
+
+    contributions.push({ token, valence });
+  });
+
+  let sum = contributions.reduce((acc, c) => acc + c.valence, 0);
+
+  // Exclamation marks amplify whatever direction the text already has
+  const exclamations = Math.min((text.match(/!/g) || []).length, 4);
+  if (sum !== 0) sum += Math.sign(sum) * exclamations * 0.292;
+
+  let compound = normalizeScore(sum);
+
+  const isSarcastic = SARCASM_PATTERNS.some(p => p.test(text))
+    || (compound > 0.05 && /🙄|😒/u.test(text));
+  // Sarcastic praise is read as criticism
+  if (isSarcastic && compound > 0) compound = -compound;
+
+  let sentiment = SentimentType.NEUTRAL;
+  if (compound >= 0.05) sentiment = SentimentType.POSITIVE;
+  else if (compound <= -0.05) sentiment = SentimentType.NEGATIVE;
+
+  const magnitude = Math.abs(compound);
+  const confidence = sentiment === SentimentType.NEUTRAL
+    ? 0.5 + (0.05 - magnitude) * 4
+    : Math.min(0.95, 0.55 + magnitude * 0.4);
+
+  // Primary emotion: the cue family with the most hits, otherwise a sentiment default
+  const lowerWords = new Set(tokens.map(t => t.lower));
+  const emotionHits = EMOTION_CUES
+    .map(cue => ({ ...cue, hits: cue.words.filter(w => lowerWords.has(w)).length }))
+    .filter(cue => cue.hits > 0)
+    .sort((a, b) => b.hits - a.hits);
+
+  let emotion = 'Neutral';
+  let emotionEmoji = '😐';
+  if (isSarcastic) {
+    emotion = 'Annoyance';
+    emotionEmoji = '🙄';
+  } else if (emotionHits.length > 0 && (sentiment !== SentimentType.NEUTRAL)) {
+    emotion = emotionHits[0].emotion;
+    emotionEmoji = emotionHits[0].emoji;
+  } else if (sentiment === SentimentType.POSITIVE) {
+    emotion = 'Satisfaction';
+    emotionEmoji = '🙂';
+  } else if (sentiment === SentimentType.NEGATIVE) {
+    emotion = 'Disappointment';
+    emotionEmoji = '😞';
+  }
+
+  const keywords = [...contributions]
+    .sort((a, b) => Math.abs(b.valence) - Math.abs(a.valence))
+    .map(c => c.token.raw)
+    .filter((k, idx, arr) => arr.findIndex(o => o.toLowerCase() === k.toLowerCase()) === idx)
+    .slice(0, 5);
+
+  const positiveCues = contributions.filter(c => c.valence > 0).length;
+  const negativeCues = contributions.filter(c => c.valence < 0).length;
+  let explanation: string;
+  if (contributions.length === 0) {
+    explanation = "No sentiment-bearing words or emoji were found, so the text is treated as neutral.";
+  } else {
+    explanation = `Lexicon score ${compound.toFixed(2)} from ${positiveCues} positive and ${negativeCues} negative cue${positiveCues + negativeCues === 1 ? '' : 's'}`
+      + (keywords.length > 0 ? ` (strongest: ${keywords.slice(0, 3).map(k => `"${k}"`).join(', ')})` : '')
+      + (isSarcastic ? ', with sarcasm markers flipping the apparent praise.' : '.');
+  }
+
+  return {
+    sentiment,
+    emotion,
+    emotionEmoji,
+    isSarcastic,
+    confidence: Number(confidence.toFixed(2)),
+    keywords,
+    explanation,
+    language: detectLanguage(text), // The lexicon itself is English-only and never translates
+  };
+};
+
+// Cue words per built-in aspect; custom aspects match on their own name
+const ASPECT_CUES: Record<string, string[]> = {
+  shipping: ['shipping', 'shipped', 'delivery', 'delivered', 'arrived', 'arrive', 'package', 'parcel', 'courier', 'tracking'],
+  price: ['price', 'prices', 'pricey', 'cost', 'costs', 'expensive', 'cheap', 'overpriced', 'affordable', 'value', 'money'],
+  staff: ['staff', 'employee', 'employees', 'waiter', 'waitress', 'service', 'support', 'agent', 'manager', 'cashier'],
+  quality: ['quality', 'broken', 'works', 'built', 'material', 'durable', 'defective', 'sturdy', 'flimsy', 'crashes'],
+};
+
+// Clauses are the unit of aspect sentiment: "great food, terrible shipping" -> two clauses
+const splitClauses = (text: string): string[] =>
+  text.split(/[.!?;,]+|\b(?:but|however|although|though|and)\b/i).map(c => c.trim()).filter(Boolean);
+
+/**
+ * Finds the first clause mentioning each aspect and scores that clause on its own.
+ */
+export const extractAspectsWithLexicon = (text: string, aspects: string[]): AspectSentiment[] => {
+  const clauses = splitClauses(text);
+  const found: AspectSentiment[] = [];
+
+  aspects.forEach(aspect => {
+    const name = aspect.trim().toLowerCase();
+    if (!name) return;
+    const cues = ASPECT_CUES[name] || [name];
+    const clause = clauses.find(c => {
+      const lower = c.toLowerCase();
+      const words = tokenize(c).map(t => t.lower);
+      return cues.some(cue => cue.includes(' ') ? lower.includes(cue) : words.includes(cue));
+    });
+    if (!clause) return;
+
+    const scored = analyzeWithLexicon(clause);
+    found.push({ aspect: name, sentiment: scored.sentiment, confidence: scored.confidence, span: clause });
+  });
+
+  return found;
+};
+
+export const lexiconProvider: AnalysisProvider = {
+  id: 'lexicon',
+  label: 'Offline Lexicon',
+  defaultModel: 'vader-lexicon',
+  requiresApiKey: false,
+  analyzeBatch: async (inputs: AnalysisInput[], _settings: ProviderSettings, options: AnalysisOptions) =>
+    inputs.map(input => ({
+      ...analyzeWithLexicon(input.text),
+      aspects: options.aspectMode ? extractAspectsWithLexicon(input.text, options.aspects) : undefined,
+      inputId: input.id,
+    })),
+  summarize: async (digest: SummaryDigest) => summarizeOffline(digest),
+};
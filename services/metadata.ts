@@ -0,0 +1,153 @@
+import { AnalysisResult, MetadataField, MetadataType, MetadataValue, ResultMetadata } from "../types";
+
+export const METADATA_TYPES: { value: MetadataType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Yes / No' },
+];
+
+const TRUE_VALUES = ['true', 'yes', 'y'];
+const FALSE_VALUES = ['false', 'no', 'n'];
+const PLAIN_NUMBER = /^[-+]?\d+(?:\.\d+)?$/;
+const GROUPED_NUMBER = /^[-+]?\d{1,3}(?:,\d{3})+(?:\.\d+)?$/; // 1,234 or 1,234,567.89
+const DECIMAL_COMMA = /^[-+]?\d+,(?:\d{1,2}|\d{4,})$/;      // 12,5: never exactly three digits, which would read as grouping
+// Something date-like: 2024-05-01, 05/01/2024, 2024-05-01T10:00:00Z, "May 1, 2024"...
+const DATE_HINT = /\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}|[a-z]{3,}\s+\d{1,2},?\s+\d{4}/i;
+
+const ISO_DAY = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_HINT = /\d{1,2}:\d{2}/;
+
+/**
+ * Reads "12.5", "12,5" (decimal comma) and "1,234,567" (thousands grouping).
+ * A comma followed by exactly three digits is always grouping, so "1,234" is
+ * 1234, never 1.234; anything that fits neither reading is not a number.
+ */
+const parseNumber = (value: string): number | null => {
+  if (PLAIN_NUMBER.test(value)) return Number(value);
+  if (GROUPED_NUMBER.test(value)) return Number(value.replace(/,/g, ''));
+  if (DECIMAL_COMMA.test(value)) return Number(value.replace(',', '.'));
+  return null;
+};
+
+const isDate = (raw: string): boolean => DATE_HINT.test(raw) && !Number.isNaN(Date.parse(raw));
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Dates without a time are calendar days and are stored as "YYYY-MM-DD"
+ * (UTC midnight), whatever format the cell used, so no time zone can move
+ * them to another day. Dates with a time are read in local time, unless they
+ * name a zone, and stored as full UTC ISO strings.
+ */
+const parseDate = (value: string): string | null => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  if (ISO_DAY.test(value)) return value; // Already UTC midnight of that day
+  if (TIME_HINT.test(value)) return new Date(time).toISOString();
+  // Other date-only formats ("05/01/2024", "May 1, 2024") parse as local midnight
+  const local = new Date(time);
+  return `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`;
+};
+
+// A stored date without a time, i.e. a calendar day
+export const isDateOnly = (value: string): boolean => ISO_DAY.test(value);
+
+/**
+ * Picks the narrowest type that every non-empty sample value fits.
+ */
+export const inferMetadataType = (values: string[]): MetadataType => {
+  const samples = values.map(v => v.trim()).filter(Boolean).slice(0, 200);
+  if (samples.length === 0) return 'string';
+  const lower = samples.map(v => v.toLowerCase());
+  if (lower.every(v => TRUE_VALUES.includes(v) || FALSE_VALUES.includes(v))) return 'boolean';
+  if (samples.every(v => parseNumber(v) !== null)) return 'number';
+  if (samples.every(isDate)) return 'date';
+  return 'string';
+};
+
+// Converts a raw cell to its typed value; cells that don't fit the type become null
+export const parseMetadataValue = (raw: string, type: MetadataType): MetadataValue => {
+  const value = raw.trim();
+  if (!value) return null;
+  switch (type) {
+    case 'number':
+      return parseNumber(value);
+    case 'boolean':
+      return TRUE_VALUES.includes(value.toLowerCase()) ? true : FALSE_VALUES.includes(value.toLowerCase()) ? false : null;
+    case 'date':
+      return parseDate(value);
+    default:
+      return value;
+  }
+};
+
+export const formatMetadataValue = (value: MetadataValue | undefined, type: MetadataType): string => {
+  if (value === null || value === undefined) return '';
+  if (type === 'boolean') return value ? 'Yes' : 'No';
+  // Calendar days are shown as that day in every time zone
+  if (type === 'date' && typeof value === 'string') {
+    return new Date(value).toLocaleDateString(undefined, isDateOnly(value) ? { timeZone: 'UTC' } : undefined);
+  }
+  return String(value);
+};
+
+/**
+ * Builds the typed metadata record for one imported row from the mapped columns.
+ */
+export const buildMetadata = (row: string[], columns: { index: number; field: MetadataField }[]): ResultMetadata | undefined => {
+  if (columns.length === 0) return undefined;
+  const metadata: ResultMetadata = {};
+  columns.forEach(({ index, field }) => {
+    metadata[field.key] = parseMetadataValue(row[index] || '', field.type);
+  });
+  return metadata;
+};
+
+// Fields of a new import replace same-named fields; the rest of the schema is kept
+export const mergeMetadataFields = (existing: MetadataField[], incoming: MetadataField[]): MetadataField[] => [
+  ...existing.filter(f => !incoming.some(i => i.key === f.key)),
+  ...incoming,
+];
+
+export interface ResultGroup {
+  key: string;
+  label: string;
+  results: AnalysisResult[];
+}
+
+const MAX_GROUPS = 12;
+const MISSING_GROUP = '(none)';
+
+/**
+ * Groups results by one metadata field. Dates group by day; the largest groups
+ * are kept and the rest are folded into "Other" so charts stay readable.
+ */
+export const groupResults = (results: AnalysisResult[], field: MetadataField): ResultGroup[] => {
+  const groups = new Map<string, ResultGroup>();
+
+  results.forEach(result => {
+    const value = result.metadata?.[field.key];
+    let key = MISSING_GROUP;
+    let label = MISSING_GROUP;
+    if (value !== null && value !== undefined) {
+      key = field.type === 'date' ? String(value).slice(0, 10) : String(value);
+      label = field.type === 'date' ? key : formatMetadataValue(value, field.type);
+    }
+    if (!groups.has(key)) groups.set(key, { key, label, results: [] });
+    groups.get(key)!.results.push(result);
+  });
+
+  const sorted = [...groups.values()].sort((a, b) =>
+    field.type === 'date' || field.type === 'number'
+      ? a.key.localeCompare(b.key, undefined, { numeric: true })
+      : b.results.length - a.results.length
+  );
+  if (sorted.length <= MAX_GROUPS) return sorted;
+
+  const bySize = [...sorted].sort((a, b) => b.results.length - a.results.length);
+  const kept = new Set(bySize.slice(0, MAX_GROUPS - 1).map(g => g.key));
+  const other: ResultGroup = { key: '__other__', label: 'Other', results: [] };
+  sorted.filter(g => !kept.has(g.key)).forEach(g => other.results.push(...g.results));
+  return [...sorted.filter(g => kept.has(g.key)), other];
+};
@@ -0,0 +1,164 @@
+import { AnalysisOptions, ProviderSettings } from "../types";
+import {
+  AnalysisError,
+  AnalysisInput,
+  AnalysisOutput,
+  AnalysisProvider,
+  SUMMARY_SYSTEM_INSTRUCTION,
+  SYSTEM_INSTRUCTION,
+  SummaryDigest,
+  SummaryDraft,
+  ThemeClusterInput,
+  ThemeRefinement,
+  buildAnalysisPrompt,
+  buildSummaryPrompt,
+  buildThemePrompt,
+  parseAnalysisResponse,
+  parseSummaryResponse,
+  parseThemeResponse,
+  toAnalysisError,
+} from "./analysisProvider";
+
+const DEFAULT_MODEL = "llama3.1";
+export const OPENAI_DEFAULT_BASE_URL = "http://localhost:11434/v1"; // Ollama's OpenAI-compatible endpoint
+
+const JSON_FORMAT_HINT = `
+    Respond ONLY with a JSON array with one object per text, using exactly these fields:
+    id (string, copied from the input), sentiment ("Positive" | "Negative" | "Neutral"), emotion (one of the listed emotions), emotionEmoji (string),
+    isSarcastic (boolean), confidence (number 0.0-1.0), keywords (string[]), explanation (string), language (ISO 639-1 code).
+  `;
+
+const ASPECT_FORMAT_HINT = `
+    Also include "aspects": an array of { aspect (string), sentiment ("Positive" | "Negative" | "Neutral"),
+    confidence (number 0.0-1.0), span (string) }.
+  `;
+
+const SUMMARY_FORMAT_HINT = `
+    Respond ONLY with the JSON object, using exactly these fields:
+    overview (string), themes ({ name, description, sentiment }[]), complaints ({ point, quotes: { ref, text }[] }[]),
+    praises (same shape as complaints), sarcasmCaveats (string[]), actions (string[]).
+  `;
+
+const THEME_FORMAT_HINT = `
+    Respond ONLY with the JSON array of { ref (string), name (string), description (string), mergeInto (string) }.
+  `;
+
+const TRANSLATION_FORMAT_HINT = `
+    Also include "translation" (string): the English translation, or "" for English texts.
+  `;
+
+// Sends one chat completion and returns the reply text; HTTP failures carry their status and retry hint
+const complete = async (settings: ProviderSettings, model: string, system: string, prompt: string, signal?: AbortSignal): Promise<string | undefined> => {
+  const baseUrl = (settings.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Local servers usually don't need a key, so it is only sent when configured
+  if (settings.apiKey) {
+    headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({
+      model,
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt },
+      ],
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw Object.assign(new Error(`HTTP ${response.status}: ${body}`), {
+      status: response.status,
+      retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+    });
+  }
+
+  const data = await response.json();
+  const choice = data?.choices?.[0];
+
+  if (choice?.finish_reason === 'content_filter') {
+    throw new AnalysisError(
+      "Request blocked by safety filters.",
+      "SAFETY_BLOCK",
+      "The content may violate the endpoint's content policy. Try rephrasing the text."
+    );
+  }
+
+  return choice?.message?.content;
+};
+
+/**
+ * Talks to any server implementing the OpenAI Chat Completions API
+ * (OpenAI itself, Ollama, llama.cpp server, vLLM, LM Studio...).
+ */
+const analyzeBatch = async (
+  inputs: AnalysisInput[],
+  settings: ProviderSettings,
+  options: AnalysisOptions,
+  signal?: AbortSignal
+): Promise<AnalysisOutput[]> => {
+  if (inputs.length === 0) return [];
+
+  const model = settings.model || DEFAULT_MODEL;
+  const prompt = buildAnalysisPrompt(inputs, options) + JSON_FORMAT_HINT
+    + (options.aspectMode ? ASPECT_FORMAT_HINT : '')
+    + (options.translate ? TRANSLATION_FORMAT_HINT : '');
+
+  try {
+    return parseAnalysisResponse(await complete(settings, model, SYSTEM_INSTRUCTION, prompt, signal));
+  } catch (error: any) {
+    console.error("OpenAI-compatible Analysis Error:", error);
+    throw toAnalysisError(error, "OpenAI-compatible", model);
+  }
+};
+
+const summarize = async (
+  digest: SummaryDigest,
+  settings: ProviderSettings,
+  options: AnalysisOptions,
+  signal?: AbortSignal
+): Promise<SummaryDraft> => {
+  const model = settings.model || DEFAULT_MODEL;
+  try {
+    const reply = await complete(settings, model, SUMMARY_SYSTEM_INSTRUCTION, buildSummaryPrompt(digest, options) + SUMMARY_FORMAT_HINT, signal);
+    return parseSummaryResponse(reply, digest);
+  } catch (error: any) {
+    console.error("OpenAI-compatible Summary Error:", error);
+    throw toAnalysisError(error, "OpenAI-compatible", model);
+  }
+};
+
+const refineThemes = async (
+  clusters: ThemeClusterInput[],
+  settings: ProviderSettings,
+  options: AnalysisOptions,
+  signal?: AbortSignal
+): Promise<ThemeRefinement[]> => {
+  if (clusters.length === 0) return [];
+
+  const model = settings.model || DEFAULT_MODEL;
+  try {
+    const reply = await complete(settings, model, SUMMARY_SYSTEM_INSTRUCTION, buildThemePrompt(clusters, options) + THEME_FORMAT_HINT, signal);
+    return parseThemeResponse(reply, clusters);
+  } catch (error: any) {
+    console.error("OpenAI-compatible Theme Error:", error);
+    throw toAnalysisError(error, "OpenAI-compatible", model);
+  }
+};
+
+export const openAiCompatibleProvider: AnalysisProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: DEFAULT_MODEL,
+  requiresApiKey: false,
+  analyzeBatch,
+  summarize,
+  refineThemes,
+};
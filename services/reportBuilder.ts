@@ -0,0 +1,432 @@
+import { AnalysisOptions, AnalysisResult, EmotionTaxonomy, ExecutiveSummary, RunRecord, SentimentType, SummaryPoint } from "../types";
+import { CacheScope } from "./analysisCache";
+import { emotionLabelsOf, mapEmotion } from "./emotionTaxonomy";
+import { languageName } from "./languageDetection";
+import { reviewStats } from "./review";
+
+export type ReportSection = 'metadata' | 'stats' | 'summary' | 'charts' | 'examples' | 'appendix';
+
+export const REPORT_SECTIONS: { value: ReportSection; label: string }[] = [
+  { value: 'metadata', label: 'Run metadata' },
+  { value: 'stats', label: 'Summary statistics' },
+  { value: 'summary', label: 'Executive summary (when generated)' },
+  { value: 'charts', label: 'Charts' },
+  { value: 'examples', label: 'Top positive & negative examples' },
+  { value: 'appendix', label: 'Appendix: all results' },
+];
+
+export interface ReportOptions {
+  title: string;
+  sections: ReportSection[];
+  exampleCount: number;  // Examples per sentiment
+  filteredOnly: boolean; // Only the results matching the dashboard filters
+}
+
+export interface ReportData {
+  workspaceName: string;
+  results: AnalysisResult[];
+  runs: RunRecord[];
+  settings: AnalysisOptions;
+  engine: CacheScope;
+  summary: ExecutiveSummary | null;
+  scopeNote?: string; // e.g. which filters the results were narrowed by
+}
+
+const OPTIONS_KEY = 'emotiview.reportOptions';
+
+const MAX_APPENDIX_ROWS = 5000;
+const MAX_SCATTER_POINTS = 1000;
+const MAX_LISTED_RUNS = 10;
+
+export const defaultReportOptions = (title: string): ReportOptions => ({
+  title,
+  sections: REPORT_SECTIONS.map(s => s.value),
+  exampleCount: 5,
+  filteredOnly: false,
+});
+
+// Sections and counts are remembered per browser; the title follows the workspace
+export const loadReportOptions = (title: string): ReportOptions => {
+  const defaults = defaultReportOptions(title);
+  try {
+    const saved = JSON.parse(localStorage.getItem(OPTIONS_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return defaults;
+    return {
+      title,
+      sections: Array.isArray(saved.sections)
+        ? REPORT_SECTIONS.map(s => s.value).filter(value => saved.sections.includes(value))
+        : defaults.sections,
+      exampleCount: Number.isInteger(saved.exampleCount) && saved.exampleCount > 0 ? saved.exampleCount : defaults.exampleCount,
+      filteredOnly: saved.filteredOnly === true,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveReportOptions = ({ title, ...options }: ReportOptions) =>
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+
+const COLORS: Record<SentimentType, string> = {
+  [SentimentType.POSITIVE]: '#16a34a',
+  [SentimentType.NEUTRAL]: '#525252',
+  [SentimentType.NEGATIVE]: '#dc2626',
+};
+
+const SENTIMENTS = [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE];
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const pct = (count: number, total: number) => total > 0 ? `${(count / total * 100).toFixed(0)}%` : '0%';
+
+// Same matching as the table's KeywordHighlighter: case-insensitive, longest keyword first
+const highlightKeywords = (text: string, keywords: string[], sentiment: SentimentType): string => {
+  const usable = keywords.filter(k => k.trim()).sort((a, b) => b.length - a.length);
+  if (usable.length === 0) return escapeHtml(text);
+  const pattern = new RegExp(`(${usable.map(k => k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return text.split(pattern)
+    .map(part => usable.some(k => k.toLowerCase() === part.toLowerCase())
+      ? `<mark class="kw kw-${sentiment.toLowerCase()}">${escapeHtml(part)}</mark>`
+      : escapeHtml(part))
+    .join('');
+};
+
+// --- Static SVG charts (no scripts, so the file renders anywhere, including print) ---
+
+const emptyChart = (width: number) =>
+  `<svg width="${width}" height="60" xmlns="http://www.w3.org/2000/svg"><text x="0" y="35" font-size="14" fill="#9ca3af">No data</text></svg>`;
+
+const polar = (cx: number, cy: number, r: number, angle: number) =>
+  [cx + r * Math.sin(angle), cy - r * Math.cos(angle)].map(n => n.toFixed(2)).join(' ');
+
+export const sentimentDonutSvg = (results: AnalysisResult[]): string => {
+  const total = results.length;
+  if (total === 0) return emptyChart(420);
+  const cx = 110, cy = 110, outer = 90, inner = 55;
+  let angle = 0;
+  const slices = SENTIMENTS.map(sentiment => {
+    const count = results.filter(r => r.sentiment === sentiment).length;
+    if (count === 0) return '';
+    const sweep = count / total * Math.PI * 2;
+    if (count === total) {
+      // A full ring can't be drawn as a single arc
+      return `<circle cx="${cx}" cy="${cy}" r="${(outer + inner) / 2}" fill="none" stroke="${COLORS[sentiment]}" stroke-width="${outer - inner}"/>`;
+    }
+    const large = sweep > Math.PI ? 1 : 0;
+    const path = `M ${polar(cx, cy, outer, angle)} A ${outer} ${outer} 0 ${large} 1 ${polar(cx, cy, outer, angle + sweep)} `
+      + `L ${polar(cx, cy, inner, angle + sweep)} A ${inner} ${inner} 0 ${large} 0 ${polar(cx, cy, inner, angle)} Z`;
+    angle += sweep;
+    return `<path d="${path}" fill="${COLORS[sentiment]}" stroke="black" stroke-width="2"/>`;
+  }).join('');
+  const legend = SENTIMENTS.map((sentiment, i) => {
+    const count = results.filter(r => r.sentiment === sentiment).length;
+    const y = 70 + i * 32;
+    return `<rect x="240" y="${y - 12}" width="16" height="16" fill="${COLORS[sentiment]}" stroke="black" stroke-width="2"/>`
+      + `<text x="264" y="${y + 1}" font-size="14" font-weight="700">${sentiment}: ${count} (${pct(count, total)})</text>`;
+  }).join('');
+  return `<svg width="440" height="220" viewBox="0 0 440 220" xmlns="http://www.w3.org/2000/svg" font-family="sans-serif">${slices}${legend}</svg>`;
+};
+
+export const emotionBarsSvg = (results: AnalysisResult[], taxonomy: EmotionTaxonomy): string => {
+  const counts = new Map<string, number>();
+  results.forEach(r => {
+    const { label } = mapEmotion(r.emotion, taxonomy);
+    counts.set(label, (counts.get(label) || 0) + 1);
+  });
+  const rows = emotionLabelsOf(taxonomy)
+    .filter(l => counts.get(l.label))
+    .map(l => ({ label: `${l.emoji} ${l.label}`, count: counts.get(l.label)! }))
+    .sort((a, b) => b.count - a.count);
+  if (rows.length === 0) return emptyChart(600);
+
+  const labelWidth = 150, barWidth = 380, rowHeight = 28;
+  const max = rows[0].count;
+  const bars = rows.map((row, i) => {
+    const y = 8 + i * rowHeight;
+    const width = Math.max(2, row.count / max * barWidth);
+    return `<text x="${labelWidth - 8}" y="${y + 15}" font-size="13" font-weight="700" text-anchor="end">${escapeHtml(row.label)}</text>`
+      + `<rect x="${labelWidth}" y="${y}" width="${width.toFixed(1)}" height="20" rx="4" fill="#0ea5e9" stroke="black" stroke-width="2"/>`
+      + `<text x="${(labelWidth + width + 6).toFixed(1)}" y="${y + 15}" font-size="12">${row.count}</text>`;
+  }).join('');
+  const height = rows.length * rowHeight + 16;
+  return `<svg width="600" height="${height}" viewBox="0 0 600 ${height}" xmlns="http://www.w3.org/2000/svg" font-family="sans-serif">${bars}</svg>`;
+};
+
+// Confidence per result in analysis order, colored by sentiment (the dashboard's comparative chart)
+export const confidenceScatterSvg = (results: AnalysisResult[]): string => {
+  if (results.length === 0) return emptyChart(640);
+  const width = 640, height = 260, left = 44, right = 16, top = 12, bottom = 32;
+  const step = Math.max(1, Math.ceil(results.length / MAX_SCATTER_POINTS));
+  const points = results.filter((_, i) => i % step === 0).map((r, i) => ({ index: i * step + 1, result: r }));
+  const minY = Math.min(0.5, ...points.map(p => p.result.confidence));
+  const x = (index: number) => left + (results.length > 1 ? (index - 1) / (results.length - 1) : 0.5) * (width - left - right);
+  const y = (confidence: number) => top + (1 - (confidence - minY) / (1 - minY || 1)) * (height - top - bottom);
+
+  const ticks = [minY, (minY + 1) / 2, 1].map(v =>
+    `<line x1="${left}" x2="${width - right}" y1="${y(v).toFixed(1)}" y2="${y(v).toFixed(1)}" stroke="#e5e7eb" stroke-dasharray="3 3"/>`
+    + `<text x="${left - 6}" y="${(y(v) + 4).toFixed(1)}" font-size="11" text-anchor="end">${v.toFixed(2)}</text>`
+  ).join('');
+  const dots = points.map(p =>
+    `<circle cx="${x(p.index).toFixed(1)}" cy="${y(p.result.confidence).toFixed(1)}" r="4" fill="${COLORS[p.result.sentiment] || '#000'}" stroke="black" stroke-width="1"/>`
+  ).join('');
+  const axis = `<line x1="${left}" x2="${width - right}" y1="${height - bottom}" y2="${height - bottom}" stroke="black"/>`
+    + `<text x="${left}" y="${height - 10}" font-size="11">1</text>`
+    + `<text x="${width - right}" y="${height - 10}" font-size="11" text-anchor="end">${results.length}</text>`
+    + `<text x="${(left + width - right) / 2}" y="${height - 10}" font-size="11" text-anchor="middle">Result # (confidence on the vertical axis)</text>`;
+  return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" font-family="sans-serif">${ticks}${axis}${dots}</svg>`;
+};
+
+// --- Sections ---
+
+const titlePage = (data: ReportData, options: ReportOptions, generatedAt: Date) => `
+<section class="title-page">
+  <p class="eyebrow">EmotiView · Sentiment Analysis Report</p>
+  <h1>${escapeHtml(options.title)}</h1>
+  <p class="lead">${data.results.length.toLocaleString()} analyzed texts from “${escapeHtml(data.workspaceName)}”</p>
+  ${data.scopeNote ? `<p class="note">${escapeHtml(data.scopeNote)}</p>` : ''}
+  <p class="muted">Generated ${escapeHtml(generatedAt.toLocaleString())}</p>
+</section>`;
+
+const metadataSection = (data: ReportData) => {
+  const { settings, engine } = data;
+  const rows: [string, string][] = [
+    ['Engine', `${engine.provider} · ${engine.model}`],
+    ['Prompt version', engine.promptVersion],
+    ['Emotion taxonomy', settings.taxonomy.name],
+    ['Aspect mode', settings.aspectMode ? `On (${settings.aspects.join(', ')})` : 'Off'],
+    ['Explanations in', settings.outputLanguage],
+    ['Translation', settings.translate ? 'Non-English texts translated to English' : 'Off'],
+  ];
+  const runs = data.runs.slice(0, MAX_LISTED_RUNS).map(run => `
+      <tr>
+        <td>${escapeHtml(new Date(run.startedAt).toLocaleString())}</td>
+        <td>${escapeHtml(run.status)}</td>
+        <td class="num">${run.total}</td>
+        <td class="num">${run.succeeded}</td>
+        <td class="num">${run.failed}</td>
+        <td class="num">${run.cacheHits}</td>
+        <td>${escapeHtml(`${run.provider} · ${run.model}`)}</td>
+      </tr>`).join('');
+  return `
+<section>
+  <h2>Run Metadata</h2>
+  <table class="kv">${rows.map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`).join('')}</table>
+  ${runs ? `
+  <h3>Recent runs</h3>
+  <table>
+    <thead><tr><th>Started</th><th>Status</th><th class="num">Items</th><th class="num">Succeeded</th><th class="num">Failed</th><th class="num">Cached</th><th>Engine</th></tr></thead>
+    <tbody>${runs}</tbody>
+  </table>` : ''}
+</section>`;
+};
+
+const statsSection = (results: AnalysisResult[]) => {
+  const total = results.length;
+  const negative = results.filter(r => r.sentiment === SentimentType.NEGATIVE).length;
+  const positive = results.filter(r => r.sentiment === SentimentType.POSITIVE).length;
+  const confidence = total > 0 ? results.reduce((acc, r) => acc + r.confidence, 0) / total : 0;
+  const review = reviewStats(results);
+  const cards: [string, string, string][] = [
+    ['Total Analyzed', total.toLocaleString(), 'Text segments'],
+    ['Avg. Confidence', `${(confidence * 100).toFixed(0)}%`, 'Model certainty'],
+    ['Sarcasm Detected', String(results.filter(r => r.isSarcastic).length), 'Potential irony'],
+    ['Positive Rate', pct(positive, total), 'Favorable feedback'],
+    ['Negative Rate', pct(negative, total), 'Critical feedback'],
+  ];
+  if (review.reviewed > 0) {
+    cards.push(['Override Rate', `${(review.overrideRate * 100).toFixed(0)}%`, `${review.overridden} of ${review.reviewed} reviewed corrected`]);
+  }
+  return `
+<section>
+  <h2>Summary</h2>
+  <div class="cards">${cards.map(([title, value, subtitle]) => `
+    <div class="card"><p class="card-title">${title}</p><p class="card-value">${escapeHtml(value)}</p><p class="muted">${escapeHtml(subtitle)}</p></div>`).join('')}
+  </div>
+</section>`;
+};
+
+// Quotes link to their row in the appendix when it is included and lists that row
+const summarySection = (summary: ExecutiveSummary, linkable: Set<string>) => {
+  const points = (title: string, list: SummaryPoint[], tone: string) => `
+  <h3 class="${tone}">${title}</h3>
+  ${list.length === 0 ? '<p class="muted">None stood out.</p>' : `<ol>${list.map(p => `
+    <li>
+      <p class="example-text">${escapeHtml(p.point)}</p>
+      ${p.quotes.map(q => `<p class="explanation">${linkable.has(q.resultId)
+        ? `<a href="#r-${escapeHtml(q.resultId)}">“${escapeHtml(q.text)}”</a>`
+        : `“${escapeHtml(q.text)}”`}</p>`).join('')}
+    </li>`).join('')}
+  </ol>`}`;
+  return `
+<section>
+  <h2>Executive Summary</h2>
+  <p class="lead">${escapeHtml(summary.overview)}</p>
+  <p class="muted">Written by ${escapeHtml(`${summary.engine} · ${summary.model}`)} from ${summary.resultCount.toLocaleString()} results, ${escapeHtml(new Date(summary.createdAt).toLocaleString())}</p>
+  ${summary.themes.length > 0 ? `
+  <h3>Main themes</h3>
+  <ul>${summary.themes.map(t => `<li><strong class="s-${t.sentiment.toLowerCase()}">${escapeHtml(t.name)}</strong>${t.description ? ` – ${escapeHtml(t.description)}` : ''}</li>`).join('')}</ul>` : ''}
+  ${points('Top complaints', summary.complaints, 'negative')}
+  ${points('Top praises', summary.praises, 'positive')}
+  ${summary.sarcasmCaveats.length > 0 ? `
+  <h3>Sarcasm caveats</h3>
+  <ul>${summary.sarcasmCaveats.map(c => `<li>${escapeHtml(c)}</li>`).join('')}</ul>` : ''}
+  ${summary.actions.length > 0 ? `
+  <h3>Suggested actions</h3>
+  <ol>${summary.actions.map(a => `<li>${escapeHtml(a)}</li>`).join('')}</ol>` : ''}
+</section>`;
+};
+
+const chartsSection = (results: AnalysisResult[], taxonomy: EmotionTaxonomy) => `
+<section>
+  <h2>Charts</h2>
+  <div class="chart"><h3>Sentiment Distribution</h3>${sentimentDonutSvg(results)}</div>
+  <div class="chart"><h3>Specific Emotions</h3>${emotionBarsSvg(results, taxonomy)}</div>
+  <div class="chart"><h3>Comparative Confidence Analysis</h3>${confidenceScatterSvg(results)}</div>
+</section>`;
+
+const exampleList = (results: AnalysisResult[], sentiment: SentimentType, count: number) => {
+  const top = results
+    .filter(r => r.sentiment === sentiment)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, count);
+  if (top.length === 0) return `<p class="muted">No ${sentiment.toLowerCase()} results.</p>`;
+  return `<ol class="examples">${top.map(r => `
+    <li>
+      <p class="example-text">${highlightKeywords(r.text, r.keywords, r.sentiment)}</p>
+      <p class="muted">${escapeHtml(`${r.emotionEmoji} ${r.emotion}`)} · ${(r.confidence * 100).toFixed(0)}% confidence${r.isSarcastic ? ' · sarcastic' : ''}</p>
+      ${r.explanation ? `<p class="explanation">${escapeHtml(r.explanation)}</p>` : ''}
+    </li>`).join('')}
+  </ol>`;
+};
+
+const examplesSection = (results: AnalysisResult[], count: number) => `
+<section>
+  <h2>Top Examples</h2>
+  <h3 class="positive">Most confident positive</h3>
+  ${exampleList(results, SentimentType.POSITIVE, count)}
+  <h3 class="negative">Most confident negative</h3>
+  ${exampleList(results, SentimentType.NEGATIVE, count)}
+</section>`;
+
+const appendixSection = (results: AnalysisResult[]) => {
+  const rows = results.slice(0, MAX_APPENDIX_ROWS).map((r, i) => `
+      <tr id="r-${escapeHtml(r.id)}">
+        <td class="num">${i + 1}</td>
+        <td>${escapeHtml(r.text)}</td>
+        <td class="s-${r.sentiment.toLowerCase()}">${r.sentiment}</td>
+        <td>${escapeHtml(r.emotion)}</td>
+        <td>${r.isSarcastic ? 'Yes' : ''}</td>
+        <td class="num">${(r.confidence * 100).toFixed(0)}%</td>
+        <td>${escapeHtml(languageName(r.language))}</td>
+      </tr>`).join('');
+  return `
+<section class="appendix">
+  <h2>Appendix: All Results</h2>
+  ${results.length > MAX_APPENDIX_ROWS ? `<p class="note">Showing the first ${MAX_APPENDIX_ROWS.toLocaleString()} of ${results.length.toLocaleString()} results; use an export for the full list.</p>` : ''}
+  <table>
+    <thead><tr><th class="num">#</th><th>Text</th><th>Sentiment</th><th>Emotion</th><th>Sarcasm</th><th class="num">Confidence</th><th>Language</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</section>`;
+};
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font-family: ui-sans-serif, system-ui, sans-serif; color: #0f172a; background: #f0f9ff; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  main { max-width: 960px; margin: 0 auto; }
+  section { background: white; border: 2px solid black; border-radius: 12px; box-shadow: 6px 6px 0 black; padding: 24px 28px; margin-bottom: 28px; }
+  h1 { font-size: 40px; font-weight: 900; margin: 8px 0 16px; }
+  h2 { font-size: 22px; font-weight: 900; margin: 0 0 16px; border-bottom: 2px solid black; padding-bottom: 8px; }
+  h3 { font-size: 15px; font-weight: 800; margin: 20px 0 8px; }
+  .title-page { min-height: 60vh; display: flex; flex-direction: column; justify-content: center; background: #bae6fd; }
+  .eyebrow { font-weight: 900; text-transform: uppercase; letter-spacing: 0.08em; font-size: 13px; margin: 0; }
+  .lead { font-size: 18px; font-weight: 700; margin: 0 0 8px; }
+  .muted { color: #4b5563; font-size: 13px; margin: 2px 0; }
+  .note { font-weight: 700; font-size: 13px; background: #fef9c3; border: 2px solid black; border-radius: 8px; padding: 6px 10px; display: inline-block; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  thead th { background: #bae6fd; border-bottom: 2px solid black; font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; }
+  table.kv th { width: 180px; background: none; font-size: 13px; text-transform: none; letter-spacing: 0; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 12px; }
+  .card { border: 2px solid black; border-radius: 10px; padding: 12px 14px; background: #f0f9ff; }
+  .card-title { margin: 0; font-size: 11px; font-weight: 900; text-transform: uppercase; color: #4b5563; }
+  .card-value { margin: 4px 0; font-size: 28px; font-weight: 900; }
+  .chart { margin-bottom: 12px; }
+  .chart svg { max-width: 100%; height: auto; }
+  .examples { padding-left: 20px; }
+  .examples li { margin-bottom: 12px; }
+  .example-text { margin: 0 0 4px; font-weight: 500; line-height: 1.6; }
+  .explanation { margin: 4px 0 0; font-size: 12px; font-style: italic; color: #334155; border-left: 4px solid #38bdf8; padding-left: 8px; }
+  a { color: inherit; }
+  tr:target td { background: #fef9c3; }
+  .kw { padding: 0 4px; border: 1.5px solid black; border-radius: 4px; font-weight: 700; }
+  .kw-positive { background: #86efac; } .kw-negative { background: #fca5a5; } .kw-neutral { background: #e5e7eb; }
+  .positive, .s-positive { color: #15803d; } .negative, .s-negative { color: #b91c1c; } .s-neutral { color: #525252; }
+  td.s-positive, td.s-negative, td.s-neutral { font-weight: 700; }
+  @page { margin: 16mm; }
+  @media print {
+    body { background: white; padding: 0; }
+    section { box-shadow: none; break-inside: avoid; page-break-inside: avoid; }
+    .title-page { min-height: 90vh; break-after: page; page-break-after: always; }
+    .appendix { break-inside: auto; page-break-inside: auto; break-before: page; page-break-before: always; }
+    thead { display: table-header-group; }
+    tr { break-inside: avoid; page-break-inside: avoid; }
+  }
+`;
+
+/**
+ * Builds a self-contained HTML report: inline styles, charts as static SVG,
+ * no scripts or external assets, so it can be mailed, archived or printed.
+ */
+export const buildReportHtml = (data: ReportData, options: ReportOptions, generatedAt = new Date()): string => {
+  const include = (section: ReportSection) => options.sections.includes(section);
+  const linkable = new Set<string>(include('appendix') ? data.results.slice(0, MAX_APPENDIX_ROWS).map(r => r.id) : []);
+  const body = [
+    titlePage(data, options, generatedAt),
+    include('metadata') ? metadataSection(data) : '',
+    include('stats') ? statsSection(data.results) : '',
+    include('summary') && data.summary ? summarySection(data.summary, linkable) : '',
+    include('charts') ? chartsSection(data.results, data.settings.taxonomy) : '',
+    include('examples') ? examplesSection(data.results, options.exampleCount) : '',
+    include('appendix') ? appendixSection(data.results) : '',
+  ].join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>`;
+};
+
+/**
+ * Prints the report from a hidden frame, so the browser's "Save as PDF" gets
+ * the report's own print styles instead of the dashboard's layout.
+ */
+export const printReport = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
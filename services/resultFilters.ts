@@ -0,0 +1,263 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisResult, FilterCondition, FilterField, FilterGroup, FilterOperator, FilterPreset, MetadataField, ResultFilters, SentimentType } from "../types";
+import { UNDETERMINED_LANGUAGE } from "./languageDetection";
+import { normalizeKeyword } from "./keywordAnalytics";
+
+const PRESETS_KEY = 'emotiview.filterPresets';
+const URL_PARAM = 'filter';
+
+export const EMPTY_FILTER_GROUP: FilterGroup = { match: 'all', conditions: [] };
+
+export const DEFAULT_FILTERS: ResultFilters = {
+  sentiment: 'ALL',
+  emotion: 'ALL',
+  language: 'ALL',
+  advanced: EMPTY_FILTER_GROUP,
+  applyToStats: false,
+};
+
+// How a field is edited and compared
+export type FilterKind = 'choice' | 'flag' | 'range' | 'date' | 'text';
+
+export interface FilterFieldOption {
+  field: FilterField;
+  label: string;
+  kind: FilterKind;
+}
+
+export const OPERATORS: Record<FilterKind, { value: FilterOperator; label: string }[]> = {
+  choice: [{ value: 'is', label: 'is' }, { value: 'is_not', label: 'is not' }],
+  flag: [{ value: 'is', label: 'is' }],
+  range: [{ value: 'between', label: 'between' }],
+  date: [{ value: 'between', label: 'between' }],
+  text: [
+    { value: 'contains', label: 'contains' },
+    { value: 'not_contains', label: 'does not contain' },
+    { value: 'is', label: 'is' },
+    { value: 'is_not', label: 'is not' },
+  ],
+};
+
+const METADATA_KINDS: Record<MetadataField['type'], FilterKind> = {
+  string: 'text',
+  number: 'range',
+  date: 'date',
+  boolean: 'flag',
+};
+
+// Every field a condition can use, including the imported metadata columns
+export const filterFieldOptions = (fields: MetadataField[]): FilterFieldOption[] => [
+  { field: 'sentiment', label: 'Sentiment', kind: 'choice' },
+  { field: 'emotion', label: 'Emotion', kind: 'choice' },
+  { field: 'language', label: 'Language', kind: 'choice' },
+  { field: 'sarcasm', label: 'Sarcasm', kind: 'flag' },
+  { field: 'reviewed', label: 'Reviewed', kind: 'flag' },
+  { field: 'theme', label: 'Theme', kind: 'choice' },
+  { field: 'confidence', label: 'Confidence (%)', kind: 'range' },
+  { field: 'keyword', label: 'Keyword', kind: 'text' },
+  { field: 'text', label: 'Text', kind: 'text' },
+  ...fields.map(f => ({ field: `meta:${f.key}` as FilterField, label: f.label, kind: METADATA_KINDS[f.type] })),
+];
+
+export const createCondition = (option: FilterFieldOption, value = ''): FilterCondition => ({
+  id: uuidv4(),
+  field: option.field,
+  operator: OPERATORS[option.kind][0].value,
+  value: option.kind === 'flag' && !value ? 'true' : value,
+});
+
+// Narrows the advanced filters to `value`: replaces any condition on the same field (so clicking
+// through themes shows one at a time) and switches the group to "all" so the new condition applies
+export const withCondition = (filters: ResultFilters, field: FilterField, value: string, operator?: FilterOperator): ResultFilters => {
+  const option = filterFieldOptions([]).find(o => o.field === field)!;
+  const condition = createCondition(option, value);
+  return {
+    ...filters,
+    advanced: {
+      match: 'all',
+      conditions: [...filters.advanced.conditions.filter(c => c.field !== field), operator ? { ...condition, operator } : condition],
+    },
+  };
+};
+
+// Conditions on one field are dropped, e.g. when a clicked theme or keyword is clicked again
+export const withoutCondition = (filters: ResultFilters, field: FilterField): ResultFilters => ({
+  ...filters,
+  advanced: { ...filters.advanced, conditions: filters.advanced.conditions.filter(c => c.field !== field) },
+});
+
+const fold = (value: string) => value.trim().toLowerCase();
+
+const compareText = (candidates: string[], operator: FilterOperator, value: string): boolean => {
+  const needle = fold(value);
+  if (!needle) return true; // An unfinished condition doesn't hide anything
+  const hay = candidates.map(fold);
+  switch (operator) {
+    case 'contains': return hay.some(h => h.includes(needle));
+    case 'not_contains': return !hay.some(h => h.includes(needle));
+    case 'is': return hay.some(h => h === needle);
+    case 'is_not': return !hay.some(h => h === needle);
+    default: return true;
+  }
+};
+
+const inRange = (value: number | null, from: number | null, to: number | null): boolean => {
+  if (from === null && to === null) return true;
+  if (value === null) return false;
+  return (from === null || value >= from) && (to === null || value <= to);
+};
+
+const toNumber = (raw?: string): number | null => {
+  if (raw === undefined || raw.trim() === '') return null;
+  const num = Number(raw);
+  return Number.isFinite(num) ? num : null;
+};
+
+// Date bounds are whole days: "to" includes the entire day
+const toTime = (raw: string | undefined, endOfDay: boolean): number | null => {
+  if (!raw) return null;
+  const time = Date.parse(raw.length === 10 ? `${raw}T00:00:00Z` : raw);
+  if (Number.isNaN(time)) return null;
+  return endOfDay && raw.length === 10 ? time + 24 * 60 * 60 * 1000 - 1 : time;
+};
+
+export const matchesCondition = (result: AnalysisResult, condition: FilterCondition, fields: MetadataField[]): boolean => {
+  const { field, operator, value, valueTo } = condition;
+  const choice = (actual: string) => !value || (operator === 'is_not' ? actual !== value : actual === value);
+
+  switch (field) {
+    case 'sentiment': return choice(result.sentiment);
+    case 'emotion': return choice(result.emotion);
+    case 'language': return choice(result.language || UNDETERMINED_LANGUAGE);
+    case 'sarcasm': return result.isSarcastic === (value === 'true');
+    case 'reviewed': return !!result.review === (value === 'true');
+    case 'theme': return choice(result.theme || '');
+    case 'confidence': return inRange(result.confidence * 100, toNumber(value), toNumber(valueTo));
+    // "is" compares normalized keywords, so it ignores case, plurals and stop-words
+    case 'keyword': return operator === 'is' || operator === 'is_not'
+      ? compareText(result.keywords.map(normalizeKeyword), operator, normalizeKeyword(value))
+      : compareText(result.keywords, operator, value);
+    case 'text': return compareText([result.text, result.translation || ''], operator, value);
+  }
+
+  const key = field.slice(5);
+  const meta = fields.find(f => f.key === key);
+  const raw = result.metadata?.[key];
+  switch (meta?.type) {
+    case 'number': return inRange(typeof raw === 'number' ? raw : null, toNumber(value), toNumber(valueTo));
+    case 'date': return inRange(typeof raw === 'string' ? Date.parse(raw) : null, toTime(value, false), toTime(valueTo, true));
+    case 'boolean': return raw === (value === 'true');
+    default: return compareText([raw === null || raw === undefined ? '' : String(raw)], operator, value);
+  }
+};
+
+export const matchesGroup = (result: AnalysisResult, group: FilterGroup, fields: MetadataField[]): boolean => {
+  if (group.conditions.length === 0) return true;
+  return group.match === 'all'
+    ? group.conditions.every(c => matchesCondition(result, c, fields))
+    : group.conditions.some(c => matchesCondition(result, c, fields));
+};
+
+export const applyFilters = (results: AnalysisResult[], filters: ResultFilters, fields: MetadataField[]): AnalysisResult[] =>
+  results.filter(r =>
+    (filters.sentiment === 'ALL' || r.sentiment === filters.sentiment) &&
+    (filters.emotion === 'ALL' || r.emotion === filters.emotion) &&
+    (filters.language === 'ALL' || (r.language || UNDETERMINED_LANGUAGE) === filters.language) &&
+    matchesGroup(r, filters.advanced, fields)
+  );
+
+export const countActiveFilters = (filters: ResultFilters): number =>
+  (filters.sentiment !== 'ALL' ? 1 : 0) +
+  (filters.emotion !== 'ALL' ? 1 : 0) +
+  (filters.language !== 'ALL' ? 1 : 0) +
+  filters.advanced.conditions.length;
+
+const BUILT_IN_FIELDS = new Set<string>(filterFieldOptions([]).map(o => o.field));
+const KNOWN_OPERATORS = new Set<string>(Object.values(OPERATORS).flatMap(ops => ops.map(o => o.value)));
+
+const isFilterField = (field: unknown): field is FilterField =>
+  typeof field === 'string' && (BUILT_IN_FIELDS.has(field) || (field.startsWith('meta:') && field.length > 5));
+
+const isFilterOperator = (operator: unknown): operator is FilterOperator =>
+  typeof operator === 'string' && KNOWN_OPERATORS.has(operator);
+
+const toBound = (value: unknown): string => value === null || value === undefined ? '' : String(value);
+
+// Conditions come from storage or a hand-edited link: unknown fields and operators are dropped, values made strings
+const normalizeCondition = (raw: Partial<FilterCondition> | null): FilterCondition | null => {
+  if (!raw || typeof raw !== 'object' || !isFilterField(raw.field) || !isFilterOperator(raw.operator)) return null;
+  const condition: FilterCondition = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : uuidv4(),
+    field: raw.field,
+    operator: raw.operator,
+    value: toBound(raw.value),
+  };
+  return raw.valueTo === undefined || raw.valueTo === null ? condition : { ...condition, valueTo: toBound(raw.valueTo) };
+};
+
+// Fills in anything missing from filters saved by an older version or typed into a URL
+export const normalizeFilters = (filters: Partial<ResultFilters> | undefined): ResultFilters => ({
+  ...DEFAULT_FILTERS,
+  ...filters,
+  sentiment: filters?.sentiment && ['ALL', ...Object.values(SentimentType)].includes(filters.sentiment) ? filters.sentiment : 'ALL',
+  advanced: {
+    match: filters?.advanced?.match === 'any' ? 'any' : 'all',
+    conditions: Array.isArray(filters?.advanced?.conditions)
+      ? filters.advanced.conditions.map(normalizeCondition).filter((c): c is FilterCondition => c !== null)
+      : [],
+  },
+});
+
+/**
+ * Filters travel in a single `filter` query parameter so a filtered view can
+ * be bookmarked or shared. Condition ids are left out to keep links short.
+ */
+export const filtersToUrl = (filters: ResultFilters, href = window.location.href): string => {
+  const url = new URL(href);
+  if (countActiveFilters(filters) === 0 && !filters.applyToStats) {
+    url.searchParams.delete(URL_PARAM);
+  } else {
+    const compact = {
+      ...filters,
+      advanced: { ...filters.advanced, conditions: filters.advanced.conditions.map(({ id, ...c }) => c) },
+    };
+    url.searchParams.set(URL_PARAM, JSON.stringify(compact));
+  }
+  return url.toString();
+};
+
+export const filtersFromUrl = (href = window.location.href): ResultFilters | null => {
+  const raw = new URL(href).searchParams.get(URL_PARAM);
+  if (!raw) return null;
+  try {
+    return normalizeFilters(JSON.parse(raw));
+  } catch {
+    return null; // A mangled link falls back to the workspace's own filters
+  }
+};
+
+// Presets are kept per browser, so they can be reused across workspaces
+export const listFilterPresets = (): FilterPreset[] => {
+  try {
+    const presets = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    return Array.isArray(presets) ? presets.map(p => ({ ...p, filters: normalizeFilters(p.filters) })) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writePresets = (presets: FilterPreset[]) => localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+
+// Saving under an existing name replaces that preset
+export const saveFilterPreset = (name: string, filters: ResultFilters): FilterPreset[] => {
+  const preset: FilterPreset = { id: uuidv4(), name, filters };
+  const presets = [...listFilterPresets().filter(p => p.name !== name), preset].sort((a, b) => a.name.localeCompare(b.name));
+  writePresets(presets);
+  return presets;
+};
+
+export const deleteFilterPreset = (id: string): FilterPreset[] => {
+  const presets = listFilterPresets().filter(p => p.id !== id);
+  writePresets(presets);
+  return presets;
+};
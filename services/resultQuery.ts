@@ -0,0 +1,81 @@
+import { AnalysisResult, MetadataField, SentimentType } from "../types";
+
+// 'meta:<key>' sorts by an imported metadata column
+export type SortKey = 'time' | 'confidence' | 'sentiment' | 'emotion' | `meta:${string}`;
+export type SortDirection = 'asc' | 'desc';
+
+export interface ResultSort {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+// Newest first, which is also the order results are added in
+export const DEFAULT_SORT: ResultSort = { key: 'time', direction: 'desc' };
+
+const SENTIMENT_ORDER: Record<SentimentType, number> = {
+  [SentimentType.POSITIVE]: 0,
+  [SentimentType.NEUTRAL]: 1,
+  [SentimentType.NEGATIVE]: 2,
+};
+
+const fold = (value: string) => value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Keeps results whose text, keywords, explanation or translation contain every
+ * search term. Matching ignores case and accents.
+ */
+export const searchResults = (results: AnalysisResult[], query: string): AnalysisResult[] => {
+  const terms = fold(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return results;
+  return results.filter(r => {
+    const haystack = fold([r.text, r.keywords.join(' '), r.explanation, r.translation || ''].join('\n'));
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+const metadataValue = (result: AnalysisResult, key: string): string | number | null => {
+  const value = result.metadata?.[key];
+  if (value === null || value === undefined) return null;
+  return typeof value === 'boolean' ? Number(value) : value;
+};
+
+/**
+ * Returns a sorted copy. Missing metadata always sorts last; ties keep the
+ * incoming order so the view doesn't jump around as results stream in.
+ */
+export const sortResults = (results: AnalysisResult[], sort: ResultSort, fields: MetadataField[] = []): AnalysisResult[] => {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const indexed = results.map((result, index) => ({ result, index }));
+
+  let compare: (a: AnalysisResult, b: AnalysisResult) => number;
+  if (sort.key.startsWith('meta:')) {
+    const key = sort.key.slice(5);
+    const field = fields.find(f => f.key === key);
+    compare = (a, b) => {
+      const va = metadataValue(a, key);
+      const vb = metadataValue(b, key);
+      if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+      const order = field?.type === 'string'
+        ? String(va).localeCompare(String(vb), undefined, { numeric: true, sensitivity: 'base' })
+        : va < vb ? -1 : va > vb ? 1 : 0;
+      return order * sign;
+    };
+  } else {
+    const value: Record<string, (r: AnalysisResult) => number | string> = {
+      time: r => r.timestamp,
+      confidence: r => r.confidence,
+      sentiment: r => SENTIMENT_ORDER[r.sentiment] ?? 3,
+      emotion: r => r.emotion.toLowerCase(),
+    };
+    const get = value[sort.key];
+    compare = (a, b) => {
+      const va = get(a);
+      const vb = get(b);
+      return (va < vb ? -1 : va > vb ? 1 : 0) * sign;
+    };
+  }
+
+  return indexed
+    .sort((a, b) => compare(a.result, b.result) || a.index - b.index)
+    .map(({ result }) => result);
+};
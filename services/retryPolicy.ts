@@ -0,0 +1,57 @@
+import { RetryPolicy } from "../types";
+import { AnalysisError, AnalysisErrorCode } from "./analysisProvider";
+import { abortableSleep } from "./jobControl";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// Transient failures worth another attempt (429 / 503)
+const RETRYABLE_CODES: AnalysisErrorCode[] = ['RATE_LIMIT', 'SERVER_ERROR'];
+
+export const isRetryable = (error: unknown): error is AnalysisError =>
+  error instanceof AnalysisError && RETRYABLE_CODES.includes(error.code);
+
+export interface RetryInfo {
+  attempt: number;      // The attempt that just failed (1-based)
+  maxAttempts: number;
+  delayMs: number;
+  error: AnalysisError;
+}
+
+/**
+ * Exponential backoff with "full jitter": a random delay between 0 and
+ * base * 2^(attempt-1), capped at maxDelayMs. A server supplied retry-after
+ * hint is treated as a lower bound.
+ */
+export const computeBackoffDelay = (attempt: number, policy: RetryPolicy, retryAfterMs?: number): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(Math.random() * ceiling);
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+};
+
+/**
+ * Runs `task`, retrying rate-limited and overloaded failures according to `policy`.
+ * Non-retryable errors and the last failure are rethrown unchanged; aborting
+ * `signal` ends a pending backoff wait with a CANCELLED error.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (info: RetryInfo) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= policy.maxAttempts) throw error;
+
+      const delayMs = computeBackoffDelay(attempt, policy, error.retryAfterMs);
+      onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delayMs, error });
+      await abortableSleep(delayMs, signal);
+    }
+  }
+};
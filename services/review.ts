@@ -0,0 +1,122 @@
+import { AnalysisResult, EmotionTaxonomy, HumanReview, ReviewLabels } from "../types";
+import { applyTaxonomy, mapEmotion } from "./emotionTaxonomy";
+
+const REVIEWER_KEY = 'emotiview.reviewer';
+
+// The reviewer name is kept per browser, like filter presets
+export const loadReviewer = (): string => localStorage.getItem(REVIEWER_KEY) || '';
+export const saveReviewer = (name: string) => localStorage.setItem(REVIEWER_KEY, name);
+
+// What the engine predicted, whether or not a person has reviewed the result since
+export const modelLabels = (result: AnalysisResult): HumanReview['prediction'] =>
+  result.review?.prediction || {
+    sentiment: result.sentiment,
+    emotion: result.emotion,
+    emotionEmoji: result.emotionEmoji,
+    isSarcastic: result.isSarcastic,
+    rawEmotion: result.rawEmotion,
+  };
+
+// A reviewed result whose human label differs from the prediction
+export const isOverridden = (result: AnalysisResult): boolean => {
+  const { prediction } = result.review || {};
+  return !!prediction && (
+    prediction.sentiment !== result.sentiment ||
+    prediction.emotion !== result.emotion ||
+    prediction.isSarcastic !== result.isSarcastic
+  );
+};
+
+/**
+ * Records a reviewer's verdict. Without `labels` the prediction is confirmed
+ * as-is. The corrected labels replace the result's own fields (so filters,
+ * charts and exports use them) while the prediction is kept on the review.
+ */
+export const reviewResult = (
+  result: AnalysisResult,
+  reviewer: string,
+  taxonomy: EmotionTaxonomy,
+  labels?: ReviewLabels
+): AnalysisResult => {
+  const prediction = modelLabels(result);
+  const next = labels || { sentiment: result.sentiment, emotion: result.emotion, isSarcastic: result.isSarcastic };
+  const emotionChanged = next.emotion !== result.emotion;
+  return {
+    ...result,
+    sentiment: next.sentiment,
+    isSarcastic: next.isSarcastic,
+    emotion: next.emotion,
+    emotionEmoji: emotionChanged ? mapEmotion(next.emotion, taxonomy).emoji : result.emotionEmoji,
+    // A human-picked emotion is its own source; the engine's raw label stays on the prediction
+    rawEmotion: emotionChanged ? undefined : result.rawEmotion,
+    review: { reviewer: reviewer.trim() || 'Anonymous', reviewedAt: Date.now(), prediction },
+  };
+};
+
+// Drops the review and puts the engine's labels back
+export const clearReview = (result: AnalysisResult): AnalysisResult => {
+  if (!result.review) return result;
+  const { review, ...rest } = result;
+  const { rawEmotion, ...prediction } = review.prediction;
+  return { ...rest, ...prediction, ...(rawEmotion ? { rawEmotion } : {}) };
+};
+
+// Taxonomy switches re-label the human label and the stored prediction alike
+export const applyTaxonomyToResult = (result: AnalysisResult, taxonomy: EmotionTaxonomy): AnalysisResult => {
+  const relabeled = applyTaxonomy(result, taxonomy);
+  return result.review
+    ? { ...relabeled, review: { ...result.review, prediction: applyTaxonomy(result.review.prediction, taxonomy) } }
+    : relabeled;
+};
+
+/**
+ * Keeps a person's verdict when the same row is analyzed again: the human
+ * label wins and the new engine output becomes the prediction.
+ */
+export const carryReview = (fresh: AnalysisResult, previous: AnalysisResult | undefined): AnalysisResult => {
+  if (!previous?.review) return fresh;
+  return {
+    ...fresh,
+    sentiment: previous.sentiment,
+    emotion: previous.emotion,
+    emotionEmoji: previous.emotionEmoji,
+    rawEmotion: previous.rawEmotion,
+    isSarcastic: previous.isSarcastic,
+    review: { ...previous.review, prediction: modelLabels(fresh) },
+  };
+};
+
+export interface ReviewStats {
+  reviewed: number;
+  overridden: number;
+  overrideRate: number; // Share of reviewed results whose label was changed, 0-1
+}
+
+export const reviewStats = (results: AnalysisResult[]): ReviewStats => {
+  const reviewed = results.filter(r => r.review);
+  const overridden = reviewed.filter(isOverridden).length;
+  return { reviewed: reviewed.length, overridden, overrideRate: reviewed.length > 0 ? overridden / reviewed.length : 0 };
+};
+
+/**
+ * One JSON line per reviewed result: the human label as the gold label next
+ * to the model's prediction, ready for evaluation or fine-tuning.
+ */
+export const buildGoldLabels = (results: AnalysisResult[]): string =>
+  results
+    .filter(r => r.review)
+    .map(r => {
+      const { prediction, reviewer, reviewedAt } = r.review!;
+      return JSON.stringify({
+        id: r.id,
+        text: r.text,
+        language: r.language,
+        label: { sentiment: r.sentiment, emotion: r.emotion, isSarcastic: r.isSarcastic },
+        prediction: { sentiment: prediction.sentiment, emotion: prediction.emotion, isSarcastic: prediction.isSarcastic, confidence: r.confidence, engine: r.engine },
+        overridden: isOverridden(r),
+        reviewer,
+        reviewedAt: new Date(reviewedAt).toISOString(),
+        ...(r.metadata ? { metadata: r.metadata } : {}),
+      });
+    })
+    .join('\n');
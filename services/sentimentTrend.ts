@@ -0,0 +1,165 @@
+import { AnalysisResult, MetadataField, SentimentType } from "../types";
+
+export type TrendBucket = 'hour' | 'day' | 'week' | 'month';
+
+export const TREND_BUCKETS: { value: TrendBucket; label: string }[] = [
+  { value: 'hour', label: 'Hour' },
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+];
+
+export interface TrendOptions {
+  bucket: TrendBucket;
+  dateField?: MetadataField | null; // A date column from the import; analysis time when missing
+  window: number;                   // Buckets in the rolling average
+}
+
+export interface TrendPoint {
+  key: string;
+  label: string;
+  total: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  positiveShare: number;   // 0–100
+  neutralShare: number;
+  negativeShare: number;
+  avgConfidence: number;   // 0–100, null-ish buckets report 0
+  rollingNegative: number; // Negative share over the trailing window, 0–100
+  anomaly: boolean;        // Negative share spiked well above the trailing window
+}
+
+const MAX_FILLED_BUCKETS = 500; // Empty buckets are only filled in when the range stays this small
+const MIN_HISTORY = 3;          // Buckets needed before a spike can be judged
+const SPIKE_DEVIATIONS = 2;
+const MIN_SPIKE_DELTA = 15;     // Percentage points above the trailing mean
+const MIN_SPIKE_NEGATIVES = 2;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Every bucket is a UTC hour, day, week or month, whichever time source is
+ * used: imported calendar days are stored as UTC midnight, so they land on
+ * their own day, and analysis times share the same boundaries instead of
+ * following the browser's zone.
+ */
+const parts = (date: Date) =>
+  ({ y: date.getUTCFullYear(), m: date.getUTCMonth(), d: date.getUTCDate(), h: date.getUTCHours(), wd: date.getUTCDay() });
+
+const make = (y: number, m: number, d = 1, h = 0) => new Date(Date.UTC(y, m, d, h));
+
+// Start of the bucket a moment falls in; weeks start on Monday
+const bucketStart = (time: number, bucket: TrendBucket): Date => {
+  const p = parts(new Date(time));
+  switch (bucket) {
+    case 'hour': return make(p.y, p.m, p.d, p.h);
+    case 'day': return make(p.y, p.m, p.d);
+    case 'week': return make(p.y, p.m, p.d - ((p.wd + 6) % 7));
+    case 'month': return make(p.y, p.m);
+  }
+};
+
+const nextBucket = (start: Date, bucket: TrendBucket): Date => {
+  const p = parts(start);
+  switch (bucket) {
+    case 'hour': return make(p.y, p.m, p.d, p.h + 1);
+    case 'day': return make(p.y, p.m, p.d + 1);
+    case 'week': return make(p.y, p.m, p.d + 7);
+    case 'month': return make(p.y, p.m + 1);
+  }
+};
+
+const bucketLabel = (start: Date, bucket: TrendBucket): string => {
+  const p = parts(start);
+  const day = `${p.y}-${pad(p.m + 1)}-${pad(p.d)}`;
+  switch (bucket) {
+    case 'hour': return `${day} ${pad(p.h)}:00`;
+    case 'day': return day;
+    case 'week': return `Wk of ${day}`;
+    case 'month': return `${p.y}-${pad(p.m + 1)}`;
+  }
+};
+
+// When a result happened: its imported date, or when it was analyzed
+export const resultTime = (result: AnalysisResult, dateField?: MetadataField | null): number | null => {
+  if (!dateField) return result.timestamp;
+  const value = result.metadata?.[dateField.key];
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+const emptyPoint = (key: string, label: string): TrendPoint => ({
+  key, label, total: 0, positive: 0, neutral: 0, negative: 0,
+  positiveShare: 0, neutralShare: 0, negativeShare: 0, avgConfidence: 0, rollingNegative: 0, anomaly: false,
+});
+
+/**
+ * Buckets results over time and derives share, confidence, a rolling negative
+ * share and spike markers. Results without a usable date are left out; the
+ * count is returned so the chart can say so.
+ */
+export const buildTrend = (results: AnalysisResult[], { bucket, dateField, window }: TrendOptions): { points: TrendPoint[]; undated: number } => {
+  const buckets = new Map<number, { start: Date; results: AnalysisResult[] }>();
+  let undated = 0;
+
+  results.forEach(result => {
+    const time = resultTime(result, dateField);
+    if (time === null) {
+      undated++;
+      return;
+    }
+    const start = bucketStart(time, bucket);
+    const key = start.getTime();
+    if (!buckets.has(key)) buckets.set(key, { start, results: [] });
+    buckets.get(key)!.results.push(result);
+  });
+
+  if (buckets.size === 0) return { points: [], undated };
+
+  // Fill the gaps between the first and last bucket so the time axis is even
+  const starts = [...buckets.keys()].sort((a, b) => a - b);
+  let timeline: Date[] = starts.map(key => buckets.get(key)!.start);
+  const filled: Date[] = [];
+  for (let cursor = timeline[0]; cursor.getTime() <= starts[starts.length - 1]; cursor = nextBucket(cursor, bucket)) {
+    filled.push(cursor);
+    if (filled.length > MAX_FILLED_BUCKETS) break;
+  }
+  if (filled.length <= MAX_FILLED_BUCKETS) timeline = filled;
+
+  const points = timeline.map(start => {
+    const key = String(start.getTime());
+    const point = emptyPoint(key, bucketLabel(start, bucket));
+    const items = buckets.get(start.getTime())?.results || [];
+    point.total = items.length;
+    point.positive = items.filter(r => r.sentiment === SentimentType.POSITIVE).length;
+    point.neutral = items.filter(r => r.sentiment === SentimentType.NEUTRAL).length;
+    point.negative = items.filter(r => r.sentiment === SentimentType.NEGATIVE).length;
+    if (items.length > 0) {
+      point.positiveShare = Math.round(point.positive / items.length * 100);
+      point.neutralShare = Math.round(point.neutral / items.length * 100);
+      // Both other shares may round up, so the remainder can dip below zero
+      point.negativeShare = Math.max(0, 100 - point.positiveShare - point.neutralShare);
+      point.avgConfidence = Math.round(items.reduce((acc, r) => acc + r.confidence, 0) / items.length * 100);
+    }
+    return point;
+  });
+
+  points.forEach((point, idx) => {
+    // Rolling share is weighted by volume so a one-item bucket doesn't dominate
+    const span = points.slice(Math.max(0, idx - window + 1), idx + 1);
+    const total = span.reduce((acc, p) => acc + p.total, 0);
+    point.rollingNegative = total > 0 ? Math.round(span.reduce((acc, p) => acc + p.negative, 0) / total * 100) : 0;
+
+    // A spike stands out against the buckets before it, not including itself
+    const history = points.slice(Math.max(0, idx - window), idx).filter(p => p.total > 0);
+    if (point.negative < MIN_SPIKE_NEGATIVES || history.length < Math.min(MIN_HISTORY, window)) return;
+    const shares = history.map(p => p.negativeShare);
+    const mean = shares.reduce((acc, s) => acc + s, 0) / shares.length;
+    const std = Math.sqrt(shares.reduce((acc, s) => acc + (s - mean) ** 2, 0) / shares.length);
+    point.anomaly = point.negativeShare - mean >= Math.max(MIN_SPIKE_DELTA, SPIKE_DEVIATIONS * std);
+  });
+
+  return { points, undated };
+};
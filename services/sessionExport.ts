@@ -0,0 +1,424 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisOptions, AnalysisResult, AspectSentiment, EmotionTaxonomy, ExecutiveSummary, HumanReview, JobStatus, MetadataField, ProviderId, ResultMetadata, RunRecord, SentimentType, SummaryPoint, TaxonomyId, Theme, ThemeSet } from "../types";
+import { DEFAULT_ANALYSIS_OPTIONS } from "./analysisProvider";
+import { CacheScope } from "./analysisCache";
+import { PROVIDERS } from "./analysisService";
+import { UNDETERMINED_LANGUAGE } from "./languageDetection";
+import { METADATA_TYPES, inferMetadataType } from "./metadata";
+
+const FORMAT = 'emotiview.results';
+
+/**
+ * Version history of the JSON export:
+ * 1 - a bare array of results (before the envelope existed)
+ * 2 - the envelope below
+ * 3 - adds the executive summary
+ * 4 - adds the discovered themes
+ */
+export const EXPORT_SCHEMA_VERSION = 4;
+
+export interface ExportEnvelope {
+  format: typeof FORMAT;
+  schemaVersion: number;
+  exportedAt: string;            // ISO 8601
+  engine: CacheScope | null;     // Provider, model and prompt version the export was made with
+  settings: AnalysisOptions;     // Analysis options (taxonomy, aspects, languages) at export time
+  metadataFields: MetadataField[];
+  runs: RunRecord[];
+  results: AnalysisResult[];
+  summary: ExecutiveSummary | null;
+  themes: ThemeSet | null;
+}
+
+export interface InvalidRecord {
+  index: number; // Position in the file's results list
+  reason: string;
+}
+
+export interface ParsedExport {
+  envelope: ExportEnvelope;   // Migrated to the current version, holding only the valid results and runs
+  fromVersion: number;
+  invalid: InvalidRecord[];
+  invalidRuns: InvalidRecord[]; // Run history entries that were skipped
+  warnings: string[];           // Settings that were unusable and replaced by their defaults
+}
+
+// File-level problems; record-level ones are reported in ParsedExport.invalid instead
+export class ExportFormatError extends Error {
+  constructor(message: string, public solution?: string) {
+    super(message);
+    this.name = 'ExportFormatError';
+  }
+}
+
+export const buildExport = (
+  results: AnalysisResult[],
+  runs: RunRecord[],
+  settings: AnalysisOptions,
+  metadataFields: MetadataField[],
+  engine: CacheScope | null,
+  summary: ExecutiveSummary | null,
+  themes: ThemeSet | null
+): ExportEnvelope => ({
+  format: FORMAT,
+  schemaVersion: EXPORT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  engine,
+  settings,
+  metadataFields,
+  runs,
+  results,
+  summary,
+  themes,
+});
+
+// Each step lifts a document from version N to N + 1
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  1: (results: unknown[]) => ({
+    format: FORMAT,
+    schemaVersion: 2,
+    exportedAt: new Date().toISOString(),
+    engine: null,
+    settings: DEFAULT_ANALYSIS_OPTIONS,
+    metadataFields: [],
+    runs: [],
+    results,
+  }),
+  2: (doc: any) => ({ ...doc, schemaVersion: 3, summary: null }),
+  3: (doc: any) => ({ ...doc, schemaVersion: 4, themes: null }),
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const SENTIMENTS = new Map<string, SentimentType>(Object.values(SentimentType).map(s => [s.toLowerCase(), s]));
+
+const toSentiment = (value: unknown): SentimentType | null =>
+  typeof value === 'string' ? SENTIMENTS.get(value.trim().toLowerCase()) || null : null;
+
+const toMetadata = (value: unknown): ResultMetadata | undefined => {
+  if (!isObject(value)) return undefined;
+  const entries = Object.entries(value).filter(([, v]) => v === null || ['string', 'number', 'boolean'].includes(typeof v));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const toAspects = (value: unknown): AspectSentiment[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const aspects = value
+    .filter(a => isObject(a) && typeof a.aspect === 'string' && toSentiment(a.sentiment))
+    .map(a => ({
+      aspect: a.aspect,
+      sentiment: toSentiment(a.sentiment)!,
+      confidence: typeof a.confidence === 'number' ? a.confidence : 0,
+      span: typeof a.span === 'string' ? a.span : '',
+    }));
+  return aspects.length > 0 ? aspects : undefined;
+};
+
+const toReview = (value: unknown): HumanReview | undefined => {
+  if (!isObject(value) || typeof value.reviewer !== 'string' || typeof value.reviewedAt !== 'number') return undefined;
+  const { prediction } = value;
+  const sentiment = isObject(prediction) ? toSentiment(prediction.sentiment) : null;
+  if (!sentiment) return undefined;
+  return {
+    reviewer: value.reviewer,
+    reviewedAt: value.reviewedAt,
+    prediction: {
+      sentiment,
+      emotion: String(prediction.emotion ?? ''),
+      emotionEmoji: String(prediction.emotionEmoji ?? ''),
+      isSarcastic: prediction.isSarcastic === true,
+      ...(typeof prediction.rawEmotion === 'string' ? { rawEmotion: prediction.rawEmotion } : {}),
+    },
+  };
+};
+
+const toSummaryPoints = (value: unknown, ids: Set<string>): SummaryPoint[] =>
+  Array.isArray(value)
+    ? value.filter(p => isObject(p) && typeof p.point === 'string').map(p => ({
+        point: p.point,
+        // Quotes only link to results that came with the file
+        quotes: Array.isArray(p.quotes)
+          ? p.quotes.filter((q: any) => isObject(q) && typeof q.text === 'string' && ids.has(q.resultId)).map((q: any) => ({ resultId: q.resultId, text: q.text }))
+          : [],
+      }))
+    : [];
+
+const toStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const toSummary = (value: unknown, results: AnalysisResult[]): ExecutiveSummary | null => {
+  if (!isObject(value) || typeof value.overview !== 'string') return null;
+  const ids = new Set<string>(results.map(r => r.id));
+  return {
+    overview: value.overview,
+    themes: Array.isArray(value.themes)
+      ? value.themes.filter(t => isObject(t) && typeof t.name === 'string').map(t => ({
+          name: t.name,
+          description: typeof t.description === 'string' ? t.description : '',
+          sentiment: toSentiment(t.sentiment) || SentimentType.NEUTRAL,
+        }))
+      : [],
+    complaints: toSummaryPoints(value.complaints, ids),
+    praises: toSummaryPoints(value.praises, ids),
+    sarcasmCaveats: toStrings(value.sarcasmCaveats),
+    actions: toStrings(value.actions),
+    engine: typeof value.engine === 'string' && value.engine in PROVIDERS ? value.engine as ProviderId : 'lexicon',
+    model: typeof value.model === 'string' ? value.model : '',
+    resultCount: typeof value.resultCount === 'number' ? value.resultCount : results.length,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : Date.now(),
+  };
+};
+
+const toThemeSet = (value: unknown): ThemeSet | null => {
+  if (!isObject(value) || !Array.isArray(value.themes)) return null;
+  // Names identify themes, so only the first theme of a name is kept
+  const themes: Theme[] = [];
+  value.themes.forEach(t => {
+    if (!isObject(t) || typeof t.name !== 'string' || !t.name.trim() || themes.some(k => k.name === t.name)) return;
+    themes.push({
+      name: t.name,
+      keywords: toStrings(t.keywords),
+      ...(typeof t.description === 'string' && t.description ? { description: t.description } : {}),
+    });
+  });
+  const refinedBy = value.refinedBy;
+  return {
+    themes,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : Date.now(),
+    ...(isObject(refinedBy) && typeof refinedBy.engine === 'string' && refinedBy.engine in PROVIDERS
+      ? { refinedBy: { engine: refinedBy.engine as ProviderId, model: String(refinedBy.model ?? '') } }
+      : {}),
+  };
+};
+
+const TAXONOMY_IDS: TaxonomyId[] = ['ekman', 'plutchik', 'goemotions', 'custom'];
+const JOB_STATUSES: JobStatus[] = ['running', 'paused', 'completed', 'cancelled', 'partially_failed'];
+
+const toTaxonomy = (value: unknown): EmotionTaxonomy | null => {
+  if (!isObject(value) || !TAXONOMY_IDS.includes(value.id) || !Array.isArray(value.labels)) return null;
+  const labels = value.labels
+    .filter(l => isObject(l) && typeof l.label === 'string' && l.label.trim())
+    .map(l => ({ label: l.label, emoji: typeof l.emoji === 'string' ? l.emoji : '😐' }));
+  if (labels.length === 0) return null;
+  return { id: value.id, name: typeof value.name === 'string' ? value.name : 'Custom list', labels };
+};
+
+/**
+ * Checks each analysis option on its own. Options older files don't have take
+ * the default quietly; ones that are present but unusable take the default and
+ * are reported in `warnings`.
+ */
+const toSettings = (value: unknown, warnings: string[]): AnalysisOptions => {
+  if (value === undefined) return DEFAULT_ANALYSIS_OPTIONS;
+  if (!isObject(value)) {
+    warnings.push('The analysis settings are not readable; the defaults are used.');
+    return DEFAULT_ANALYSIS_OPTIONS;
+  }
+  const settings: AnalysisOptions = { ...DEFAULT_ANALYSIS_OPTIONS };
+  const check = <K extends keyof AnalysisOptions>(key: K, label: string, parse: (raw: unknown) => AnalysisOptions[K] | null) => {
+    if (value[key] === undefined) return;
+    const parsed = parse(value[key]);
+    if (parsed === null) warnings.push(`The ${label} setting is invalid; the default is used.`);
+    else settings[key] = parsed;
+  };
+  const flag = (raw: unknown) => typeof raw === 'boolean' ? raw : null;
+  check('aspectMode', 'aspect mode', flag);
+  check('aspects', 'aspects', raw => Array.isArray(raw) && raw.every(a => typeof a === 'string') ? raw.map(a => a.trim()).filter(Boolean) : null);
+  check('taxonomy', 'emotion taxonomy', toTaxonomy);
+  check('translate', 'translation', flag);
+  check('outputLanguage', 'output language', raw => typeof raw === 'string' && raw.trim() ? raw.trim() : null);
+  return settings;
+};
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Checks one run history entry. Id, start time, status, counts and engine are
+ * required; fields added to runs later are filled in.
+ */
+const validateRun = (raw: unknown): RunRecord | string => {
+  if (!isObject(raw)) return 'Not an object.';
+  if (typeof raw.id !== 'string' || !raw.id) return 'Missing id.';
+  if (typeof raw.startedAt !== 'number' || !Number.isFinite(raw.startedAt)) return 'Missing or invalid start time.';
+  if (!JOB_STATUSES.includes(raw.status)) return `Unknown status "${String(raw.status)}".`;
+  const counts = ['total', 'succeeded', 'failed', 'pending'].find(key => !isCount(raw[key]));
+  if (counts) return `Missing or invalid "${counts}" count.`;
+  if (typeof raw.provider !== 'string' || !(raw.provider in PROVIDERS)) return `Unknown engine "${String(raw.provider)}".`;
+  if (typeof raw.model !== 'string') return 'Missing model.';
+  return {
+    id: raw.id,
+    status: raw.status,
+    startedAt: raw.startedAt,
+    finishedAt: typeof raw.finishedAt === 'number' && Number.isFinite(raw.finishedAt) ? raw.finishedAt : raw.startedAt,
+    total: raw.total,
+    succeeded: raw.succeeded,
+    failed: raw.failed,
+    pending: raw.pending,
+    cacheHits: isCount(raw.cacheHits) ? raw.cacheHits : 0,
+    provider: raw.provider as ProviderId,
+    model: raw.model,
+    promptVersion: typeof raw.promptVersion === 'string' ? raw.promptVersion : '',
+    aspectMode: raw.aspectMode === true,
+    taxonomy: typeof raw.taxonomy === 'string' ? raw.taxonomy : '',
+    outputLanguage: typeof raw.outputLanguage === 'string' ? raw.outputLanguage : '',
+  };
+};
+
+const toTimestamp = (value: unknown, fallback: number): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const parsed = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+/**
+ * Checks one record and fills optional fields that older versions or other
+ * tools may leave out. Text, sentiment and confidence are required.
+ */
+const validateResult = (raw: unknown, fallbackEngine: ProviderId, fallbackTime: number): AnalysisResult | string => {
+  if (!isObject(raw)) return 'Not an object.';
+  if (typeof raw.text !== 'string' || !raw.text.trim()) return 'Missing text.';
+  const sentiment = toSentiment(raw.sentiment);
+  if (!sentiment) return `Unknown sentiment "${String(raw.sentiment ?? '')}".`;
+  if (typeof raw.confidence !== 'number' || !(raw.confidence >= 0 && raw.confidence <= 1)) return 'Confidence must be a number between 0 and 1.';
+
+  const result: AnalysisResult = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : uuidv4(),
+    text: raw.text,
+    sentiment,
+    confidence: raw.confidence,
+    keywords: Array.isArray(raw.keywords) ? raw.keywords.filter((k: unknown): k is string => typeof k === 'string') : [],
+    emotion: typeof raw.emotion === 'string' && raw.emotion ? raw.emotion : 'Neutral',
+    emotionEmoji: typeof raw.emotionEmoji === 'string' ? raw.emotionEmoji : '😐',
+    isSarcastic: raw.isSarcastic === true,
+    explanation: typeof raw.explanation === 'string' ? raw.explanation : '',
+    language: typeof raw.language === 'string' && raw.language ? raw.language : UNDETERMINED_LANGUAGE,
+    engine: typeof raw.engine === 'string' && raw.engine in PROVIDERS ? raw.engine as ProviderId : fallbackEngine,
+    timestamp: toTimestamp(raw.timestamp, fallbackTime),
+  };
+  if (typeof raw.rawEmotion === 'string') result.rawEmotion = raw.rawEmotion;
+  if (typeof raw.translation === 'string') result.translation = raw.translation;
+  if (typeof raw.theme === 'string' && raw.theme) result.theme = raw.theme;
+  const aspects = toAspects(raw.aspects);
+  if (aspects) result.aspects = aspects;
+  const metadata = toMetadata(raw.metadata);
+  if (metadata) result.metadata = metadata;
+  const review = toReview(raw.review);
+  if (review) result.review = review;
+  return result;
+};
+
+// Version 1 files carried metadata on the results but no schema for it
+const fieldsFromResults = (results: AnalysisResult[]): MetadataField[] => {
+  const keys = Array.from(new Set<string>(results.flatMap(r => Object.keys(r.metadata || {}))));
+  return keys.map(key => ({
+    key,
+    label: key,
+    type: inferMetadataType(results.map(r => r.metadata?.[key]).filter(v => v !== null && v !== undefined).map(String)),
+  }));
+};
+
+/**
+ * Reads a JSON export of any known version: migrates it to the current
+ * envelope, validates every result and collects the ones that don't pass.
+ * Throws ExportFormatError when the file as a whole can't be used.
+ */
+export const parseExport = (source: string): ParsedExport => {
+  let doc: any;
+  try {
+    doc = JSON.parse(source.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new ExportFormatError('The file is not valid JSON.', 'Choose a file created with the JSON export.');
+  }
+
+  let version: number;
+  if (Array.isArray(doc)) {
+    version = 1;
+  } else if (isObject(doc) && doc.format === FORMAT && Number.isInteger(doc.schemaVersion)) {
+    version = doc.schemaVersion;
+  } else {
+    throw new ExportFormatError('This JSON file is not an EmotiView export.', 'Choose a file created with the JSON export.');
+  }
+  if (version > EXPORT_SCHEMA_VERSION) {
+    throw new ExportFormatError(
+      `The file uses export version ${version}, newer than this app understands (${EXPORT_SCHEMA_VERSION}).`,
+      'Update EmotiView and import it again.'
+    );
+  }
+
+  const fromVersion = version;
+  while (version < EXPORT_SCHEMA_VERSION) {
+    doc = MIGRATIONS[version](doc);
+    version++;
+  }
+  if (!Array.isArray(doc.results)) throw new ExportFormatError('The export has no results list.');
+
+  const exportedAt = toTimestamp(doc.exportedAt, Date.now());
+  const engine: CacheScope | null = isObject(doc.engine) && typeof doc.engine.provider === 'string' && doc.engine.provider in PROVIDERS
+    ? { provider: doc.engine.provider, model: String(doc.engine.model ?? ''), promptVersion: String(doc.engine.promptVersion ?? '') }
+    : null;
+
+  // Ids must stay unique, or review, delete and merge would hit the wrong row
+  const seen = new Set<string>();
+  const results: AnalysisResult[] = [];
+  const invalid: InvalidRecord[] = [];
+  doc.results.forEach((raw: unknown, index: number) => {
+    const checked = validateResult(raw, engine?.provider || 'lexicon', exportedAt);
+    if (typeof checked === 'string') {
+      invalid.push({ index, reason: checked });
+      return;
+    }
+    if (seen.has(checked.id)) checked.id = uuidv4();
+    seen.add(checked.id);
+    results.push(checked);
+  });
+
+  const warnings: string[] = [];
+  const settings = toSettings(doc.settings, warnings);
+
+  const runs: RunRecord[] = [];
+  const invalidRuns: InvalidRecord[] = [];
+  (Array.isArray(doc.runs) ? doc.runs : []).forEach((raw: unknown, index: number) => {
+    const checked = validateRun(raw);
+    if (typeof checked === 'string') invalidRuns.push({ index, reason: checked });
+    else if (!runs.some(run => run.id === checked.id)) runs.push(checked);
+  });
+
+  // A result's theme must be one of the file's themes, or the theme filter and chart would disagree
+  const themes = toThemeSet(doc.themes);
+  const themeNames = new Set<string>(themes ? themes.themes.map(t => t.name) : []);
+  results.forEach(r => {
+    if (r.theme && !themeNames.has(r.theme)) delete r.theme;
+  });
+
+  return {
+    envelope: {
+      format: FORMAT,
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: new Date(exportedAt).toISOString(),
+      engine,
+      settings,
+      metadataFields: Array.isArray(doc.metadataFields) && doc.metadataFields.length > 0
+        ? doc.metadataFields.filter((f: any) => isObject(f) && typeof f.key === 'string' && METADATA_TYPES.some(t => t.value === f.type))
+            .map((f: any) => ({ key: f.key, label: typeof f.label === 'string' ? f.label : f.key, type: f.type }))
+        : fieldsFromResults(results),
+      runs,
+      results,
+      summary: toSummary(doc.summary, results),
+      themes,
+    },
+    fromVersion,
+    invalid,
+    invalidRuns,
+    warnings,
+  };
+};
+
+/**
+ * Merging keeps current results and adds the imported ones; a result with the
+ * same id is replaced by the imported copy.
+ */
+export const mergeResults = (current: AnalysisResult[], imported: AnalysisResult[]): AnalysisResult[] => {
+  const ids = new Set<string>(imported.map(r => r.id));
+  return [...imported, ...current.filter(r => !ids.has(r.id))].sort((a, b) => b.timestamp - a.timestamp);
+};
@@ -0,0 +1,166 @@
+import { AnalysisResult, MetadataField } from "../types";
+import { formatMetadataValue } from "./metadata";
+import { modelLabels } from "./review";
+
+const OPTIONS_KEY = 'emotiview.exportOptions';
+
+export type ExportFormat = 'csv' | 'tsv' | 'jsonl' | 'markdown';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+  { value: 'tsv', label: 'TSV', extension: 'tsv', mime: 'text/tab-separated-values' },
+  { value: 'jsonl', label: 'JSON Lines', extension: 'jsonl', mime: 'application/x-ndjson' },
+  { value: 'markdown', label: 'Markdown table', extension: 'md', mime: 'text/markdown' },
+];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: string[];     // Column ids, in output order
+  filteredOnly: boolean; // Only the rows matching the dashboard filters
+  bom: boolean;          // Prefix a UTF-8 byte order mark so Excel picks the right encoding
+}
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  value: (result: AnalysisResult) => unknown; // Typed value, as written to JSON Lines
+  cell?: (result: AnalysisResult) => string;  // Text for tabular formats, when String(value) won't do
+}
+
+const yesNo = (value: boolean) => value ? 'Yes' : 'No';
+
+const BASE_COLUMNS: ExportColumn[] = [
+  { id: 'id', label: 'ID', value: r => r.id },
+  { id: 'text', label: 'Text', value: r => r.text },
+  { id: 'sentiment', label: 'Sentiment', value: r => r.sentiment },
+  { id: 'emotion', label: 'Emotion', value: r => r.emotion },
+  { id: 'sarcastic', label: 'Is Sarcastic', value: r => r.isSarcastic, cell: r => yesNo(r.isSarcastic) },
+  { id: 'confidence', label: 'Confidence', value: r => r.confidence },
+  { id: 'keywords', label: 'Keywords', value: r => r.keywords, cell: r => r.keywords.join('; ') },
+  { id: 'explanation', label: 'Explanation', value: r => r.explanation },
+  { id: 'engine', label: 'Engine', value: r => r.engine },
+  {
+    id: 'aspects',
+    label: 'Aspects',
+    value: r => r.aspects || [],
+    cell: r => (r.aspects || []).map(a => `${a.aspect}: ${a.sentiment} (${a.confidence})`).join('; '),
+  },
+  { id: 'language', label: 'Language', value: r => r.language },
+  { id: 'translation', label: 'Translation', value: r => r.translation || '' },
+  { id: 'theme', label: 'Theme', value: r => r.theme || '' },
+  { id: 'analyzedAt', label: 'Analyzed At', value: r => new Date(r.timestamp).toISOString() },
+  { id: 'reviewer', label: 'Reviewed By', value: r => r.review?.reviewer || '' },
+  { id: 'modelSentiment', label: 'Model Sentiment', value: r => modelLabels(r).sentiment },
+  { id: 'modelEmotion', label: 'Model Emotion', value: r => modelLabels(r).emotion },
+  { id: 'modelSarcastic', label: 'Model Sarcastic', value: r => modelLabels(r).isSarcastic, cell: r => yesNo(modelLabels(r).isSarcastic) },
+];
+
+// What the old fixed CSV export contained
+const DEFAULT_COLUMNS = ['id', 'text', 'sentiment', 'emotion', 'sarcastic', 'confidence', 'keywords', 'explanation', 'engine', 'aspects', 'language', 'translation'];
+
+// Every exportable column, the imported metadata columns last
+export const exportColumns = (fields: MetadataField[]): ExportColumn[] => [
+  ...BASE_COLUMNS,
+  ...fields.map(field => ({
+    id: `meta:${field.key}`,
+    label: field.label,
+    value: (r: AnalysisResult) => r.metadata?.[field.key] ?? null,
+    // Dates stay ISO 8601 so spreadsheets and scripts read them the same way
+    cell: (r: AnalysisResult) => field.type === 'date'
+      ? String(r.metadata?.[field.key] ?? '')
+      : formatMetadataValue(r.metadata?.[field.key], field.type),
+  })),
+];
+
+export const defaultExportOptions = (fields: MetadataField[]): ExportOptions => ({
+  format: 'csv',
+  columns: [...DEFAULT_COLUMNS, ...fields.map(f => `meta:${f.key}`)],
+  filteredOnly: false,
+  bom: true,
+});
+
+// The last used options are kept per browser; columns that no longer exist are dropped
+export const loadExportOptions = (fields: MetadataField[]): ExportOptions => {
+  const defaults = defaultExportOptions(fields);
+  try {
+    const saved = JSON.parse(localStorage.getItem(OPTIONS_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return defaults;
+    const known = new Set<string>(exportColumns(fields).map(c => c.id));
+    const columns = Array.isArray(saved.columns) ? saved.columns.filter((id: unknown) => typeof id === 'string' && known.has(id)) : [];
+    return {
+      format: EXPORT_FORMATS.some(f => f.value === saved.format) ? saved.format : defaults.format,
+      columns: columns.length > 0 ? columns : defaults.columns,
+      filteredOnly: saved.filteredOnly === true,
+      bom: saved.bom !== false,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveExportOptions = (options: ExportOptions) => localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+
+const cellText = (column: ExportColumn, result: AnalysisResult): string => {
+  if (column.cell) return column.cell(result);
+  const value = column.value(result);
+  return value === null || value === undefined ? '' : String(value);
+};
+
+/**
+ * Spreadsheets run cells starting with = + - @ (or a tab/CR) as formulas.
+ * Such text gets a leading apostrophe, which Excel and Sheets show as plain
+ * text. Numbers are left alone, so negative values still sort as numbers.
+ */
+export const neutralizeFormula = (text: string): string =>
+  /^[=+\-@\t\r]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text) ? `'${text}` : text;
+
+// RFC 4180 quoting: fields with the delimiter, quotes, line breaks or edge spaces are quoted, quotes doubled
+export const escapeDelimited = (text: string, delimiter: string): string => {
+  const safe = neutralizeFormula(text);
+  return safe.includes(delimiter) || /["\r\n]/.test(safe) || safe !== safe.trim()
+    ? `"${safe.replace(/"/g, '""')}"`
+    : safe;
+};
+
+const escapeMarkdown = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+export const renderExport = (results: AnalysisResult[], columns: ExportColumn[], format: ExportFormat): string => {
+  switch (format) {
+    case 'jsonl':
+      return results
+        .map(r => JSON.stringify(Object.fromEntries(columns.map(c => [c.id, c.value(r)]))))
+        .join('\n');
+    case 'markdown': {
+      const header = `| ${columns.map(c => escapeMarkdown(c.label)).join(' | ')} |`;
+      const divider = `| ${columns.map(() => '---').join(' | ')} |`;
+      const rows = results.map(r => `| ${columns.map(c => escapeMarkdown(cellText(c, r))).join(' | ')} |`);
+      return [header, divider, ...rows].join('\n');
+    }
+    default: {
+      const delimiter = format === 'tsv' ? '\t' : ',';
+      const lines = [
+        columns.map(c => escapeDelimited(c.label, delimiter)).join(delimiter),
+        ...results.map(r => columns.map(c => escapeDelimited(cellText(c, r), delimiter)).join(delimiter)),
+      ];
+      return lines.join('\r\n');
+    }
+  }
+};
+
+/**
+ * Saves text through a Blob URL (a data: URI truncates at "#" and has size
+ * limits). The BOM is only meant for spreadsheet formats.
+ */
+export const downloadText = (content: string, fileName: string, mime: string, bom = false) => {
+  const blob = new Blob([bom ? '\uFEFF' : '', content], { type: `${mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick, once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
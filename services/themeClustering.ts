@@ -0,0 +1,226 @@
+import { AnalysisResult, ProviderId, SentimentType, Theme, ThemeSet } from "../types";
+import { ThemeClusterInput, ThemeRefinement } from "./analysisProvider";
+
+const MAX_CANDIDATES = 80;    // Most frequent phrases considered as theme keywords
+const MIN_SUPPORT = 2;        // Results a phrase (or a pair of phrases) must appear in
+const MIN_ASSOCIATION = 0.3;  // Share of the rarer phrase's results that also hold the seed
+const MAX_THEMES = 12;
+const MIN_THEME_SIZE = 2;
+const KEYWORDS_PER_THEME = 8;
+const SAMPLES_PER_THEME = 3;
+const MAX_SAMPLE_CHARS = 200;
+
+export interface ThemeStat {
+  name: string;
+  keywords: string[];
+  description?: string;
+  Positive: number;
+  Neutral: number;
+  Negative: number;
+}
+
+const normalizePhrase = (keyword: string) => keyword.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const phrasesOf = (result: AnalysisResult): string[] =>
+  Array.from(new Set<string>(result.keywords.map(normalizePhrase).filter(Boolean)));
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Each result joins the cluster sharing most of its phrases; ties go to the earlier (bigger) cluster
+const assignMembers = (phrasesById: Map<string, string[]>, clusters: string[][]): Map<string, number> => {
+  const assignments = new Map<string, number>();
+  phrasesById.forEach((phrases, id) => {
+    let best = -1;
+    let bestScore = 0;
+    clusters.forEach((cluster, idx) => {
+      const score = phrases.filter(p => cluster.includes(p)).length;
+      if (score > bestScore) {
+        best = idx;
+        bestScore = score;
+      }
+    });
+    if (best >= 0) assignments.set(id, best);
+  });
+  return assignments;
+};
+
+/**
+ * Groups results into themes by keyword co-occurrence, entirely locally.
+ * The most frequent phrases seed clusters in turn; a seed collects the
+ * unclaimed phrases that mostly appear together with it. Each result then
+ * joins the cluster it shares most phrases with, and small clusters are
+ * dropped. Returns the themes and every result's theme (null for none).
+ */
+export const discoverThemes = (results: AnalysisResult[]): { themeSet: ThemeSet; assignments: Map<string, string | null> } => {
+  const phrasesById = new Map<string, string[]>(results.map(r => [r.id, phrasesOf(r)]));
+
+  const support = new Map<string, number>();
+  phrasesById.forEach(phrases => phrases.forEach(p => support.set(p, (support.get(p) || 0) + 1)));
+  const candidates = Array.from(support.entries())
+    .filter(([, count]) => count >= MIN_SUPPORT)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_CANDIDATES)
+    .map(([phrase]) => phrase);
+  const candidateSet = new Set<string>(candidates);
+
+  const together = new Map<string, number>();
+  const pairKey = (a: string, b: string) => a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+  phrasesById.forEach(phrases => {
+    const kept = phrases.filter(p => candidateSet.has(p));
+    kept.forEach((a, i) => kept.slice(i + 1).forEach(b => {
+      const key = pairKey(a, b);
+      together.set(key, (together.get(key) || 0) + 1);
+    }));
+  });
+
+  const claimed = new Set<string>();
+  const clusters: string[][] = [];
+  candidates.forEach(seed => {
+    if (claimed.has(seed)) return;
+    claimed.add(seed);
+    const cluster = [seed];
+    candidates.forEach(other => {
+      if (claimed.has(other)) return;
+      const both = together.get(pairKey(seed, other)) || 0;
+      if (both >= MIN_SUPPORT && both / Math.min(support.get(seed)!, support.get(other)!) >= MIN_ASSOCIATION) {
+        cluster.push(other);
+        claimed.add(other);
+      }
+    });
+    clusters.push(cluster);
+  });
+
+  // Keep the biggest clusters, then assign again so members of dropped ones can move to a kept one
+  const sizes = new Map<number, number>();
+  assignMembers(phrasesById, clusters).forEach(idx => sizes.set(idx, (sizes.get(idx) || 0) + 1));
+  const kept = clusters
+    .map((cluster, idx) => ({ cluster, size: sizes.get(idx) || 0 }))
+    .filter(c => c.size >= MIN_THEME_SIZE)
+    .sort((a, b) => b.size - a.size)
+    .slice(0, MAX_THEMES)
+    .map(c => c.cluster);
+  const membership = assignMembers(phrasesById, kept);
+
+  const themes: Theme[] = kept.map(cluster => {
+    const keywords = [...cluster].sort((a, b) => support.get(b)! - support.get(a)!).slice(0, KEYWORDS_PER_THEME);
+    return { name: capitalize(keywords.slice(0, 2).join(' / ')), keywords };
+  });
+
+  const assignments = new Map<string, string | null>();
+  results.forEach(r => {
+    const idx = membership.get(r.id);
+    assignments.set(r.id, idx === undefined ? null : themes[idx].name);
+  });
+
+  // Reassigning can empty a kept cluster; such themes are left out
+  const used = new Set<string>(Array.from(assignments.values()).filter((n): n is string => !!n));
+  return {
+    themeSet: { themes: themes.filter(t => used.has(t.name)), createdAt: Date.now() },
+    assignments,
+  };
+};
+
+// Writes theme names onto the results; unchanged results keep their identity
+export const applyThemeAssignments = (results: AnalysisResult[], assignments: Map<string, string | null>): AnalysisResult[] =>
+  results.map(r => {
+    if (!assignments.has(r.id)) return r;
+    const theme = assignments.get(r.id);
+    if ((r.theme || null) === theme) return r;
+    const { theme: _previous, ...rest } = r;
+    return theme ? { ...rest, theme } : rest;
+  });
+
+// Size and sentiment mix per theme, in theme order, counted over the given results
+export const themeStats = (results: AnalysisResult[], themeSet: ThemeSet): ThemeStat[] => {
+  const stats = new Map<string, ThemeStat>(themeSet.themes.map(t => [t.name, {
+    name: t.name,
+    keywords: t.keywords,
+    description: t.description,
+    [SentimentType.POSITIVE]: 0,
+    [SentimentType.NEUTRAL]: 0,
+    [SentimentType.NEGATIVE]: 0,
+  }]));
+  results.forEach(r => {
+    const stat = r.theme ? stats.get(r.theme) : undefined;
+    if (stat) stat[r.sentiment]++;
+  });
+  return Array.from(stats.values());
+};
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+// What a model sees of each theme: its phrases, counts and the most confident member texts
+export const buildThemeInputs = (themeSet: ThemeSet, results: AnalysisResult[]): ThemeClusterInput[] =>
+  themeSet.themes.map((theme, idx) => {
+    const members = results.filter(r => r.theme === theme.name);
+    const sentiments: Record<SentimentType, number> = {
+      [SentimentType.POSITIVE]: 0,
+      [SentimentType.NEUTRAL]: 0,
+      [SentimentType.NEGATIVE]: 0,
+    };
+    members.forEach(r => { sentiments[r.sentiment]++; });
+    return {
+      ref: `c${idx + 1}`,
+      keywords: theme.keywords,
+      size: members.length,
+      sentiments,
+      samples: [...members]
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, SAMPLES_PER_THEME)
+        .map(r => truncate(r.text.trim(), MAX_SAMPLE_CHARS)),
+    };
+  });
+
+/**
+ * Applies a model's names, descriptions and merges to the local themes.
+ * Merges only follow one step (a target that is itself merged away is
+ * ignored) and names are kept unique. Returns the refined set and how each
+ * old theme name maps to its new one.
+ */
+export const applyThemeRefinement = (
+  themeSet: ThemeSet,
+  refinements: ThemeRefinement[],
+  engine: ProviderId,
+  model: string
+): { themeSet: ThemeSet; renames: Map<string, string> } => {
+  const byRef = new Map<string, ThemeRefinement>(refinements.map(r => [r.ref, r]));
+  const refOf = (idx: number) => `c${idx + 1}`;
+  const mergedAway = new Set<string>(refinements.filter(r => r.mergeInto && !byRef.get(r.mergeInto)?.mergeInto).map(r => r.ref));
+
+  const taken = new Set<string>();
+  const uniqueName = (name: string) => {
+    let candidate = name;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${name} ${n}`;
+    taken.add(candidate.toLowerCase());
+    return candidate;
+  };
+
+  const themes: Theme[] = [];
+  const namesByRef = new Map<string, string>();
+  themeSet.themes.forEach((theme, idx) => {
+    const ref = refOf(idx);
+    if (mergedAway.has(ref)) return;
+    const refinement = byRef.get(ref);
+    const name = uniqueName(refinement?.name || theme.name);
+    namesByRef.set(ref, name);
+    themes.push({ ...theme, name, ...(refinement?.description ? { description: refinement.description } : {}) });
+  });
+
+  const renames = new Map<string, string>();
+  themeSet.themes.forEach((theme, idx) => {
+    const ref = refOf(idx);
+    const target = mergedAway.has(ref) ? byRef.get(ref)!.mergeInto! : ref;
+    const name = namesByRef.get(target)!;
+    renames.set(theme.name, name);
+    if (target !== ref) {
+      const into = themes.find(t => t.name === name)!;
+      into.keywords = Array.from(new Set<string>([...into.keywords, ...theme.keywords])).slice(0, KEYWORDS_PER_THEME);
+    }
+  });
+
+  return { themeSet: { themes, createdAt: themeSet.createdAt, refinedBy: { engine, model } }, renames };
+};
+
+// Moves results of renamed or merged themes to their new name
+export const renameThemes = (results: AnalysisResult[], renames: Map<string, string>): AnalysisResult[] =>
+  results.map(r => r.theme && renames.has(r.theme) && renames.get(r.theme) !== r.theme ? { ...r, theme: renames.get(r.theme) } : r);
@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Workspace } from "../types";
+import { DEFAULT_ANALYSIS_OPTIONS } from "./analysisProvider";
+import { deleteRecord, getAllRecords, getRecords, putRecords } from "./indexedDb";
+import { DEFAULT_FILTERS, normalizeFilters } from "./resultFilters";
+
+const STORE = 'workspaces';
+const ACTIVE_WORKSPACE_KEY = 'emotiview.activeWorkspace';
+
+// What the sidebar needs, without holding every workspace's results in memory
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  resultCount: number;
+}
+
+export const createWorkspace = (name: string): Workspace => {
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    results: [],
+    failures: [],
+    runs: [],
+    analysisOptions: DEFAULT_ANALYSIS_OPTIONS,
+    filters: DEFAULT_FILTERS,
+    metadataFields: [],
+    visibleMetadata: [],
+    groupBy: null,
+    summary: null,
+    themes: null,
+  };
+};
+
+// Copies everything except identity; results keep their ids so exports still line up
+export const duplicateWorkspace = (source: Workspace, name: string): Workspace => ({
+  ...createWorkspace(name),
+  results: source.results,
+  failures: source.failures,
+  runs: source.runs,
+  analysisOptions: source.analysisOptions,
+  filters: source.filters,
+  metadataFields: source.metadataFields,
+  visibleMetadata: source.visibleMetadata,
+  groupBy: source.groupBy,
+  summary: source.summary,
+  themes: source.themes,
+});
+
+// Fills fields added after a workspace was first saved
+const withDefaults = (workspace: Workspace): Workspace => ({
+  ...createWorkspace(workspace.name),
+  ...workspace,
+  analysisOptions: { ...DEFAULT_ANALYSIS_OPTIONS, ...workspace.analysisOptions },
+  filters: normalizeFilters(workspace.filters),
+});
+
+const toSummary = (workspace: Workspace): WorkspaceSummary => ({
+  id: workspace.id,
+  name: workspace.name,
+  updatedAt: workspace.updatedAt,
+  resultCount: workspace.results.length,
+});
+
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> =>
+  (await getAllRecords<Workspace>(STORE)).map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const loadWorkspace = async (id: string): Promise<Workspace | null> => {
+  const [workspace] = await getRecords<Workspace>(STORE, [id]);
+  return workspace ? withDefaults(workspace) : null;
+};
+
+export const saveWorkspace = async (workspace: Workspace): Promise<WorkspaceSummary> => {
+  const saved = { ...workspace, updatedAt: Date.now() };
+  await putRecords(STORE, [saved]);
+  return toSummary(saved);
+};
+
+export const deleteWorkspace = (id: string): Promise<void> => deleteRecord(STORE, id);
+
+// The last opened workspace is remembered per browser
+export const getActiveWorkspaceId = (): string | null => localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+
+export const setActiveWorkspaceId = (id: string) => localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
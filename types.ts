@@ -5,6 +5,44 @@ export enum SentimentType {
   NEUTRAL = 'Neutral',
 }
 
+export interface AspectSentiment {
+  aspect: string;       // e.g. "shipping", "price"
+  sentiment: SentimentType;
+  confidence: number;
+  span: string;         // The part of the text that supports this judgement
+}
+
+// Source columns carried alongside a text (date, author, rating...), typed on import
+export type MetadataType = 'string' | 'number' | 'date' | 'boolean';
+export type MetadataValue = string | number | boolean | null; // Dates are ISO 8601 strings
+export type ResultMetadata = Record<string, MetadataValue>;
+
+export interface MetadataField {
+  key: string;   // Key in ResultMetadata (the source column header)
+  label: string;
+  type: MetadataType;
+}
+
+// One text queued for analysis with the metadata that should stay attached to it
+export interface BatchItem {
+  text: string;
+  metadata?: ResultMetadata;
+}
+
+// The labels a reviewer can correct
+export interface ReviewLabels {
+  sentiment: SentimentType;
+  emotion: string;
+  isSarcastic: boolean;
+}
+
+// A reviewer's sign-off; the result's own fields then hold the human label
+export interface HumanReview {
+  reviewer: string;
+  reviewedAt: number;
+  prediction: ReviewLabels & { emotionEmoji: string; rawEmotion?: string }; // What the engine said
+}
+
 export interface AnalysisResult {
   id: string;
   text: string;
@@ -13,8 +51,25 @@ export interface AnalysisResult {
   keywords: string[];
   emotion: string;      // New: Specific emotion (e.g., Joy, Anger)
   emotionEmoji: string; // New: Emoji representing the emotion
+  rawEmotion?: string;  // The engine's own label, kept when it was mapped onto the taxonomy
   isSarcastic: boolean; // New: Sarcasm flag
   explanation: string;  // New: Natural language explanation of the result
+  language: string;     // Detected ISO 639-1 code of the text ("und" if unknown)
+  translation?: string; // English translation, when requested and the text isn't English
+  engine: ProviderId;   // Which analysis engine produced this result
+  aspects?: AspectSentiment[]; // Only present for results analyzed in aspect mode
+  theme?: string;              // Name of the discovered theme the result belongs to
+  metadata?: ResultMetadata;   // Imported source columns
+  review?: HumanReview;        // Set once a person checked (and possibly corrected) the labels
+  timestamp: number;
+}
+
+// An input that could not be analyzed (shown in place of a result, never as a guessed row)
+export interface ItemFailure {
+  id: string;
+  text: string;
+  metadata?: ResultMetadata;
+  reason: string;
   timestamp: number;
 }
 
@@ -29,6 +84,55 @@ export interface BatchProgress {
   processed: number;
   errors: number;
   isProcessing: boolean;
+  retryAt?: number;      // Epoch ms of the next retry while a chunk is backing off
+  retryAttempt?: number; // Attempt that is about to run
+  retryMaxAttempts?: number;
+  cacheHits?: number;    // Items answered from the local analysis cache
+}
+
+export type JobStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'partially_failed';
+
+// One batch run; the final status and pending rows are kept after it ends
+export interface BatchJob {
+  id: string;
+  status: JobStatus;
+  total: number;
+  pendingItems: BatchItem[]; // Rows not analyzed yet (cancelled or never started); resuming re-queues these
+  moreInput?: boolean;       // A cancelled streamed import still has unread rows; resuming continues reading
+  failedCount: number;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+// Summary of a finished run, kept in the workspace's history
+export interface RunRecord {
+  id: string;
+  status: JobStatus;
+  startedAt: number;
+  finishedAt: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  pending: number;
+  cacheHits: number;
+  provider: ProviderId;  // Engine that ran (the offline lexicon when no key was set)
+  model: string;
+  promptVersion: string;
+  aspectMode: boolean;
+  taxonomy: string;      // Taxonomy name at the time of the run
+  outputLanguage: string;
+}
+
+export interface ThroughputLimits {
+  maxConcurrency: number;    // Chunks in flight at once
+  requestsPerMinute: number;
+  tokensPerMinute: number;   // Approximate, based on a ~4 chars/token estimate
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts per chunk, including the first
+  baseDelayMs: number;
+  maxDelayMs: number;
 }
 
 export interface ErrorDetails {
@@ -39,5 +143,130 @@ export interface ErrorDetails {
   status?: number;
 }
 
+export type ProviderId = 'gemini' | 'openai' | 'lexicon' | 'fake';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  apiKey: string;
+  model: string;
+  baseUrl: string; // Only used by HTTP providers (e.g. http://localhost:11434/v1)
+}
+
+export type TaxonomyId = 'ekman' | 'plutchik' | 'goemotions' | 'custom';
+
+export interface EmotionLabel {
+  label: string;
+  emoji: string;
+}
+
+// Fixed set of emotions results are classified into
+export interface EmotionTaxonomy {
+  id: TaxonomyId;
+  name: string;
+  labels: EmotionLabel[];
+}
+
+// What the analyzer is asked to extract, independent of the provider
+export interface AnalysisOptions {
+  aspectMode: boolean;
+  aspects: string[]; // Aspects to look for in aspect mode
+  taxonomy: EmotionTaxonomy;
+  translate: boolean;     // Ask for an English translation of non-English texts
+  outputLanguage: string; // Language explanations are written in (e.g. "English")
+}
+
 export type InputMode = 'single' | 'batch';
-export type FilterType = 'ALL' | SentimentType;
\ No newline at end of file
+export type FilterType = 'ALL' | SentimentType;
+
+// Fields a filter condition can test; 'meta:<key>' tests an imported metadata column
+export type FilterField = 'sentiment' | 'emotion' | 'language' | 'sarcasm' | 'reviewed' | 'theme' | 'confidence' | 'keyword' | 'text' | `meta:${string}`;
+export type FilterOperator = 'is' | 'is_not' | 'contains' | 'not_contains' | 'between';
+
+export interface FilterCondition {
+  id: string;
+  field: FilterField;
+  operator: FilterOperator;
+  value: string;    // Choice, flag ('true' / 'false') or text; the lower bound for 'between'
+  valueTo?: string; // Upper bound for 'between'; either bound may be empty
+}
+
+export interface FilterGroup {
+  match: 'all' | 'any'; // AND / OR across the conditions
+  conditions: FilterCondition[];
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: ResultFilters;
+}
+
+export interface ResultFilters {
+  sentiment: FilterType;
+  emotion: string;  // A taxonomy label or 'ALL'
+  language: string; // An ISO 639-1 code or 'ALL'
+  advanced: FilterGroup; // ANDed with the quick filters above
+  applyToStats: boolean; // Stat cards and charts show the filtered results instead of all
+}
+
+// A representative excerpt backing a summary point, linked to the result it came from
+export interface SummaryQuote {
+  resultId: string;
+  text: string;
+}
+
+export interface SummaryPoint {
+  point: string;
+  quotes: SummaryQuote[];
+}
+
+export interface SummaryTheme {
+  name: string;
+  description: string;
+  sentiment: SentimentType; // Prevailing sentiment within the theme
+}
+
+// Management-level digest of a batch, written from aggregated results rather than raw texts
+export interface ExecutiveSummary {
+  overview: string;
+  themes: SummaryTheme[];
+  complaints: SummaryPoint[];
+  praises: SummaryPoint[];
+  sarcasmCaveats: string[];
+  actions: string[];
+  engine: ProviderId; // Which engine wrote it (the offline lexicon after a fallback)
+  model: string;
+  resultCount: number; // How many results it was built from
+  createdAt: number;
+}
+
+// A recurring topic across results; its members carry the name in `AnalysisResult.theme`
+export interface Theme {
+  name: string;
+  keywords: string[];   // Defining key phrases, most frequent first
+  description?: string; // Added when a model refined the themes
+}
+
+export interface ThemeSet {
+  themes: Theme[]; // Largest first
+  createdAt: number;
+  refinedBy?: { engine: ProviderId; model: string };
+}
+
+// A named, locally persisted project: its results, settings and run history
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  results: AnalysisResult[];
+  failures: ItemFailure[];
+  runs: RunRecord[]; // Newest first
+  analysisOptions: AnalysisOptions;
+  filters: ResultFilters;
+  metadataFields: MetadataField[]; // Schema of the imported metadata columns
+  visibleMetadata: string[];       // Metadata keys shown as table columns
+  groupBy: string | null;          // Metadata key the stats and charts are grouped by
+  summary: ExecutiveSummary | null; // Last generated executive summary
+  themes: ThemeSet | null;          // Last theme discovery
+}